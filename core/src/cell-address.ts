@@ -0,0 +1,206 @@
+import type { CellReference } from './types';
+
+/** Number of columns in a worksheet; the last column is XFD */
+export const MAX_COLUMNS = 16384;
+/** Number of rows in a worksheet */
+export const MAX_ROWS = 1048576;
+
+export type CellAddressErrorCode =
+  | 'INVALID_ADDRESS'
+  | 'COLUMN_OUT_OF_RANGE'
+  | 'ROW_OUT_OF_RANGE';
+
+/**
+ * Error thrown for malformed addresses and for results outside the sheet
+ */
+export class CellAddressError extends Error {
+  readonly code: CellAddressErrorCode;
+
+  constructor(code: CellAddressErrorCode, message: string) {
+    super(message);
+    this.name = 'CellAddressError';
+    this.code = code;
+  }
+}
+
+// Absolute markers ($B$7) are accepted and dropped: they only matter when a
+// formula is copied, never for the cell an address points at
+const A1_PATTERN = /^\$?([A-Za-z]{1,3})\$?(\d{1,7})$/;
+const R1C1_PATTERN = /^[Rr](\d{1,7})[Cc](\d{1,5})$/;
+
+function checkColumn(column: number): number {
+  if (!Number.isInteger(column) || column < 1 || column > MAX_COLUMNS) {
+    throw new CellAddressError(
+      'COLUMN_OUT_OF_RANGE',
+      `Column ${column} is outside 1..${MAX_COLUMNS} (A..XFD)`
+    );
+  }
+  return column;
+}
+
+function checkRow(row: number): number {
+  if (!Number.isInteger(row) || row < 1 || row > MAX_ROWS) {
+    throw new CellAddressError(
+      'ROW_OUT_OF_RANGE',
+      `Row ${row} is outside 1..${MAX_ROWS}`
+    );
+  }
+  return row;
+}
+
+function toReference(column: number, row: number): CellReference {
+  const letters = numberToColumn(column);
+  return { address: `${letters}${checkRow(row)}`, row, column: letters };
+}
+
+/**
+ * Column letters to their 1-based number: 'A' → 1, 'Z' → 26, 'AA' → 27,
+ * 'XFD' → 16384. Letters are case-insensitive.
+ *
+ * @throws CellAddressError for anything but 1-3 letters, or past XFD
+ */
+export function columnToNumber(letters: string): number {
+  if (!/^[A-Za-z]{1,3}$/.test(letters)) {
+    throw new CellAddressError(
+      'INVALID_ADDRESS',
+      `Invalid column "${letters}": expected 1-3 letters`
+    );
+  }
+  let column = 0;
+  for (const char of letters.toUpperCase()) {
+    column = column * 26 + (char.charCodeAt(0) - 64);
+  }
+  return checkColumn(column);
+}
+
+/**
+ * 1-based column number to upper-case letters (inverse of `columnToNumber`)
+ *
+ * @throws CellAddressError outside 1..16384
+ */
+export function numberToColumn(column: number): string {
+  let remaining = checkColumn(column);
+  let letters = '';
+  while (remaining > 0) {
+    remaining -= 1;
+    letters = String.fromCharCode(65 + (remaining % 26)) + letters;
+    remaining = Math.floor(remaining / 26);
+  }
+  return letters;
+}
+
+/**
+ * Parse an A1-style address ('B7', 'xfd1048576', '$B$7')
+ *
+ * @throws CellAddressError for malformed addresses or addresses outside the sheet
+ */
+export function parseAddress(address: string): CellReference {
+  const match = A1_PATTERN.exec(address);
+  if (!match) {
+    throw new CellAddressError(
+      'INVALID_ADDRESS',
+      `Invalid cell address "${address}": expected A1 notation such as B7`
+    );
+  }
+  return toReference(columnToNumber(match[1] as string), Number(match[2]));
+}
+
+/**
+ * Next column letters, Excel style: 'A' → 'B', 'Z' → 'AA', 'AZ' → 'BA'.
+ * Unlike `stringIncrement` this never wraps: stepping past XFD throws.
+ *
+ * @param n - Number of columns to move (negative moves left)
+ */
+export function incrementColumn(letters: string, n = 1): string {
+  return numberToColumn(columnToNumber(letters) + n);
+}
+
+/**
+ * Move an address `n` rows down (negative moves up): 'B7' → 'B8'
+ */
+export function incrementRow(address: string, n = 1): CellReference {
+  return offsetAddress(address, { rows: n });
+}
+
+/**
+ * Move an address by whole rows and columns, like Excel's OFFSET:
+ * `offsetAddress('B7', { columns: 3 })` → E7
+ *
+ * @throws CellAddressError when the result falls outside A1:XFD1048576
+ */
+export function offsetAddress(
+  address: string,
+  offset: { rows?: number; columns?: number }
+): CellReference {
+  const { row, column } = parseAddress(address);
+  return toReference(
+    columnToNumber(column) + (offset.columns ?? 0),
+    row + (offset.rows ?? 0)
+  );
+}
+
+/**
+ * A1 address to absolute R1C1 notation: 'B7' → 'R7C2'
+ */
+export function toR1C1(address: string): string {
+  const { row, column } = parseAddress(address);
+  return `R${row}C${columnToNumber(column)}`;
+}
+
+/**
+ * Absolute R1C1 notation to an A1 reference: 'R7C2' → B7. Relative forms
+ * such as R[1]C[-1] need a base cell and are not accepted.
+ *
+ * @throws CellAddressError for malformed input or addresses outside the sheet
+ */
+export function fromR1C1(r1c1: string): CellReference {
+  const match = R1C1_PATTERN.exec(r1c1);
+  if (!match) {
+    throw new CellAddressError(
+      'INVALID_ADDRESS',
+      `Invalid R1C1 reference "${r1c1}": expected absolute notation such as R7C2`
+    );
+  }
+  return toReference(Number(match[2]), Number(match[1]));
+}
+
+/**
+ * Addresses of a rectangular range, row by row:
+ * `rangeAddresses('A1:B2')` → [['A1', 'B1'], ['A2', 'B2']]. The corners may
+ * come in any order, and a single address is a one-cell range.
+ *
+ * @throws CellAddressError for malformed ranges or corners outside the sheet
+ */
+export function rangeAddresses(range: string): string[][] {
+  const corners = range.split(':');
+  if (corners.length > 2) {
+    throw new CellAddressError(
+      'INVALID_ADDRESS',
+      `Invalid range "${range}": expected A1 notation such as B2:D5`
+    );
+  }
+  const [start, end] = corners.map(parseAddress) as [
+    CellReference,
+    CellReference?,
+  ];
+  const last = end ?? start;
+  const columns = [columnToNumber(start.column), columnToNumber(last.column)];
+
+  const rows: string[][] = [];
+  for (
+    let row = Math.min(start.row, last.row);
+    row <= Math.max(start.row, last.row);
+    row++
+  ) {
+    const addresses: string[] = [];
+    for (
+      let column = Math.min(...columns);
+      column <= Math.max(...columns);
+      column++
+    ) {
+      addresses.push(`${numberToColumn(column)}${row}`);
+    }
+    rows.push(addresses);
+  }
+  return rows;
+}
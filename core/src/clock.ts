@@ -0,0 +1,63 @@
+/**
+ * Source of the current time for date validation. Helpers take a Clock
+ * instead of calling `new Date()` so tests can pin "now" to a year end or a
+ * daylight-saving change.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * The real time of the machine running the tests
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * A clock that only moves when told to. Without `advance` or `set` it is a
+ * fixed clock.
+ *
+ * @example
+ * const clock = new FakeClock('2025-12-31T23:59:30');
+ * clock.advance(60000);
+ * clock.now(); // 2026-01-01T00:00:30 local time
+ */
+export class FakeClock implements Clock {
+  private time: number;
+
+  constructor(start: Date | string | number) {
+    this.time = FakeClock.toTime(start);
+  }
+
+  private static toTime(value: Date | string | number): number {
+    const time = new Date(value).getTime();
+    if (isNaN(time)) {
+      throw new RangeError(`Invalid clock time: ${String(value)}`);
+    }
+    return time;
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * Move the clock forward (or back, for a negative amount)
+   */
+  advance(ms: number): Date {
+    if (!Number.isFinite(ms)) {
+      throw new RangeError(`Clock can only advance by a finite amount: ${ms}`);
+    }
+    this.time += ms;
+    return this.now();
+  }
+
+  /**
+   * Jump to an absolute time
+   */
+  set(value: Date | string | number): Date {
+    this.time = FakeClock.toTime(value);
+    return this.now();
+  }
+}
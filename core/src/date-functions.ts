@@ -0,0 +1,561 @@
+import { Clock, systemClock } from './clock';
+import { TimeWindow, ZonedDateOptions, zonedWallTime } from './date-window';
+import { formatExcelDate, tryParseExcelDate } from './excel-date';
+import {
+  DateSystem,
+  dateToSerial,
+  MAX_SERIAL,
+  serialToDate,
+  serialToParts,
+} from './excel-serial';
+import type { DateValidationResult } from './types';
+
+export type DateFunctionName =
+  | 'TODAY'
+  | 'NOW'
+  | 'DATE'
+  | 'EDATE'
+  | 'EOMONTH'
+  | 'WEEKDAY'
+  | 'NETWORKDAYS'
+  | 'DATEDIF';
+
+/**
+ * An argument as a spec writes it: a serial or a date for date arguments,
+ * a plain number for counts and return types, a unit such as "YM" for
+ * DATEDIF, or a list of holidays for NETWORKDAYS
+ */
+export type DateFunctionArg =
+  | number
+  | Date
+  | string
+  | readonly (number | Date)[];
+
+/** Excel errors the date functions return for out-of-range arguments */
+export type ExcelErrorValue = '#NUM!' | '#VALUE!';
+
+/**
+ * What a cell holding the call must show: a raw value between `min` and
+ * `max` (equal for non-volatile functions), or an Excel error
+ */
+export type ExpectedValue =
+  | { min: number; max: number }
+  | { error: ExcelErrorValue };
+
+export interface DateFunctionContext extends ZonedDateOptions {
+  /** Date system of the workbook (default: '1900') */
+  system?: DateSystem;
+  /**
+   * When TODAY() and NOW() may have been evaluated. Without a window both
+   * edges are the current time of `clock`.
+   */
+  window?: TimeWindow;
+  clock?: Clock;
+  /**
+   * How far Excel's clock may be from the runner's, in milliseconds; widens
+   * the window of volatile functions on both sides (default: 60 seconds)
+   */
+  toleranceMs?: number;
+}
+
+export interface DateFunction {
+  name: DateFunctionName;
+  /**
+   * Recalculated on every edit, so the expected value is the range of
+   * results over the time window rather than a single value
+   */
+  volatile: boolean;
+  /** 'date' results are serials the grid formats as dates */
+  resultType: 'date' | 'number';
+  /** Fewest and most arguments the function takes */
+  arity: readonly [number, number];
+  /**
+   * @throws RangeError for arguments a spec should never pass: wrong types,
+   * non-finite numbers, or dates outside the date system
+   */
+  expected(
+    args: readonly DateFunctionArg[],
+    context: DateFunctionContext
+  ): ExpectedValue;
+}
+
+export const DEFAULT_VOLATILE_TOLERANCE_MS = 60000;
+
+const MS_PER_DAY = 86400000;
+// Allows for the binary rounding of fractional serials
+const EPSILON = 1e-9;
+
+// A day both date systems number without the fake 1900-02-29 in the way
+const ANCHOR: Readonly<Record<DateSystem, { utc: number; serial: number }>> = {
+  '1900': { utc: Date.UTC(1900, 2, 1), serial: 61 },
+  '1904': { utc: Date.UTC(1904, 0, 1), serial: 0 },
+};
+
+// Raised by a calculator for arguments Excel itself rejects
+class ExcelFunctionError extends Error {
+  constructor(readonly value: ExcelErrorValue) {
+    super(value);
+    this.name = 'ExcelFunctionError';
+  }
+}
+
+/**
+ * Serial of a possibly overflowing year, month and day, the way DATE()
+ * counts: months past 12 roll into the next year, day 0 is the last day of
+ * the previous month. The result may lie outside the date system.
+ */
+function partsToSerial(
+  year: number,
+  month: number,
+  day: number,
+  system: DateSystem
+): number {
+  const first = new Date(0);
+  first.setUTCFullYear(year, month - 1, 1);
+  const anchor = ANCHOR[system];
+  let serial = Math.round((first.getTime() - anchor.utc) / MS_PER_DAY);
+  serial += anchor.serial;
+  // Months before March 1900 do not have the fake leap day to skip over
+  if (system === '1900' && serial < anchor.serial) {
+    serial--;
+  }
+  return serial + day - 1;
+}
+
+function daysInMonth(year: number, month: number, system: DateSystem): number {
+  return (
+    partsToSerial(year, month + 1, 1, system) -
+    partsToSerial(year, month, 1, system)
+  );
+}
+
+function checkResult(serial: number, system: DateSystem): number {
+  if (serial < 0 || serial > MAX_SERIAL[system]) {
+    throw new ExcelFunctionError('#NUM!');
+  }
+  return serial;
+}
+
+function numberArg(
+  name: DateFunctionName,
+  args: readonly DateFunctionArg[],
+  index: number,
+  system: DateSystem
+): number {
+  const arg = args[index];
+  const value = arg instanceof Date ? dateToSerial(arg, system) : arg;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new RangeError(
+      `${name} argument ${index + 1} must be a finite number or a date, got ${String(arg)}`
+    );
+  }
+  return value;
+}
+
+// Date arguments are truncated to whole days and must be in the date system
+function serialArg(
+  name: DateFunctionName,
+  args: readonly DateFunctionArg[],
+  index: number,
+  system: DateSystem
+): number {
+  return checkResult(Math.floor(numberArg(name, args, index, system)), system);
+}
+
+function dayOfWeek(serial: number, system: DateSystem): number {
+  // 0 for Sunday. Excel calls 1900-01-01 a Sunday and 1904-01-01 a Friday.
+  return (serial + (system === '1900' ? 6 : 5)) % 7;
+}
+
+/**
+ * The range of serials `clock` or `window` allows for a volatile function,
+ * as wall-clock time in the workbook's time zone
+ */
+function volatileRange(context: DateFunctionContext): [number, number] {
+  const system = context.system ?? '1900';
+  const tolerance = context.toleranceMs ?? DEFAULT_VOLATILE_TOLERANCE_MS;
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    throw new RangeError(
+      `Tolerance must be a non-negative number of milliseconds, got ${tolerance}`
+    );
+  }
+  const now = (context.clock ?? systemClock).now();
+  const { before, after } = context.window ?? { before: now, after: now };
+  const serials = [
+    before.getTime() - tolerance,
+    after.getTime() + tolerance,
+  ].map(time => {
+    const instant = new Date(time);
+    return dateToSerial(
+      context.timeZone ? zonedWallTime(instant, context.timeZone) : instant,
+      system
+    );
+  });
+  // A fall-back DST change can make the later edge show an earlier time
+  return [Math.min(...serials), Math.max(...serials)];
+}
+
+const DATEDIF_UNITS = ['Y', 'M', 'D', 'MD', 'YM', 'YD'];
+
+function dateDif(
+  start: number,
+  end: number,
+  unit: string,
+  system: DateSystem
+): number {
+  const from = serialToParts(start, system);
+  const to = serialToParts(end, system);
+  const months =
+    (to.year - from.year) * 12 +
+    (to.month - from.month) -
+    (to.day < from.day ? 1 : 0);
+
+  switch (unit) {
+    case 'Y':
+      return Math.floor(months / 12);
+    case 'M':
+      return months;
+    case 'YM':
+      return months % 12;
+    case 'MD':
+      // Can be negative when the start day does not exist in the month
+      // before `end`, as in Excel
+      return to.day >= from.day
+        ? to.day - from.day
+        : end - partsToSerial(to.year, to.month - 1, from.day, system);
+    case 'YD': {
+      let anniversary = partsToSerial(to.year, from.month, from.day, system);
+      if (anniversary > end) {
+        anniversary = partsToSerial(to.year - 1, from.month, from.day, system);
+      }
+      return end - anniversary;
+    }
+    default:
+      return end - start;
+  }
+}
+
+type Calculation = number | [number, number];
+
+function define(
+  name: DateFunctionName,
+  resultType: DateFunction['resultType'],
+  arity: DateFunction['arity'],
+  calculate: (
+    args: readonly DateFunctionArg[],
+    system: DateSystem,
+    context: DateFunctionContext
+  ) => Calculation,
+  volatile = false
+): DateFunction {
+  return {
+    name,
+    volatile,
+    resultType,
+    arity,
+    expected(args, context) {
+      try {
+        const result = calculate(args, context.system ?? '1900', context);
+        const [min, max] =
+          typeof result === 'number' ? [result, result] : result;
+        return { min, max };
+      } catch (error) {
+        if (error instanceof ExcelFunctionError) {
+          return { error: error.value };
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Expected-value calculators for Excel's date functions, following Excel's
+ * own rules for overflowing months and days, month ends and the fake
+ * 1900-02-29. TODAY() and NOW() are volatile: their expected value is every
+ * serial current in the workbook's time zone during the time window,
+ * widened by the tolerance. The other functions have one exact result.
+ */
+export const DATE_FUNCTIONS: Readonly<Record<DateFunctionName, DateFunction>> =
+  {
+    TODAY: define(
+      'TODAY',
+      'date',
+      [0, 0],
+      (_args, _system, context) => {
+        const [min, max] = volatileRange(context);
+        return [Math.floor(min), Math.floor(max)];
+      },
+      true
+    ),
+
+    NOW: define(
+      'NOW',
+      'date',
+      [0, 0],
+      (_args, _system, context) => volatileRange(context),
+      true
+    ),
+
+    DATE: define('DATE', 'date', [3, 3], (args, system) => {
+      const [month, day] = [1, 2].map(index =>
+        Math.trunc(numberArg('DATE', args, index, system))
+      ) as [number, number];
+      let year = Math.trunc(numberArg('DATE', args, 0, system));
+      // Years 0-1899 count from 1900: DATE(108,1,2) is 2008-01-02
+      if (year >= 0 && year < 1900) {
+        year += 1900;
+      }
+      if (year < 0 || year > 9999) {
+        throw new ExcelFunctionError('#NUM!');
+      }
+      return checkResult(partsToSerial(year, month, day, system), system);
+    }),
+
+    EDATE: define('EDATE', 'date', [2, 2], (args, system) => {
+      const start = serialToParts(serialArg('EDATE', args, 0, system), system);
+      const months = Math.trunc(numberArg('EDATE', args, 1, system));
+      const month = start.month + months;
+      // Jan 31 plus one month is the last day of February
+      const day = Math.min(start.day, daysInMonth(start.year, month, system));
+      return checkResult(partsToSerial(start.year, month, day, system), system);
+    }),
+
+    EOMONTH: define('EOMONTH', 'date', [2, 2], (args, system) => {
+      const start = serialToParts(
+        serialArg('EOMONTH', args, 0, system),
+        system
+      );
+      const months = Math.trunc(numberArg('EOMONTH', args, 1, system));
+      return checkResult(
+        partsToSerial(start.year, start.month + months + 1, 0, system),
+        system
+      );
+    }),
+
+    WEEKDAY: define('WEEKDAY', 'number', [1, 2], (args, system) => {
+      const day = dayOfWeek(serialArg('WEEKDAY', args, 0, system), system);
+      const returnType =
+        args.length > 1 ? Math.trunc(numberArg('WEEKDAY', args, 1, system)) : 1;
+      // 1: Sunday is 1, 2: Monday is 1, 3: Monday is 0, 11-17: Monday to
+      // Sunday is 1
+      if (returnType === 1 || returnType === 2 || returnType === 3) {
+        const first = returnType === 1 ? 0 : 1;
+        return ((day - first + 7) % 7) + (returnType === 3 ? 0 : 1);
+      }
+      if (returnType >= 11 && returnType <= 17) {
+        return ((day - (returnType - 10) + 7) % 7) + 1;
+      }
+      throw new ExcelFunctionError('#NUM!');
+    }),
+
+    NETWORKDAYS: define('NETWORKDAYS', 'number', [2, 3], (args, system) => {
+      const start = serialArg('NETWORKDAYS', args, 0, system);
+      const end = serialArg('NETWORKDAYS', args, 1, system);
+      const [first, last] = start <= end ? [start, end] : [end, start];
+      const isWorkday = (serial: number) => {
+        const day = dayOfWeek(serial, system);
+        return day !== 0 && day !== 6;
+      };
+
+      const days = last - first + 1;
+      let count = Math.floor(days / 7) * 5;
+      for (let serial = last - (days % 7) + 1; serial <= last; serial++) {
+        count += isWorkday(serial) ? 1 : 0;
+      }
+
+      const holidayArg = args[2] ?? [];
+      const list: readonly DateFunctionArg[] = Array.isArray(holidayArg)
+        ? holidayArg
+        : [holidayArg];
+      const holidays = new Set(
+        list.map((_holiday, index) =>
+          serialArg('NETWORKDAYS', list, index, system)
+        )
+      );
+      holidays.forEach(holiday => {
+        if (holiday >= first && holiday <= last && isWorkday(holiday)) {
+          count--;
+        }
+      });
+      return start <= end ? count : -count;
+    }),
+
+    DATEDIF: define('DATEDIF', 'number', [3, 3], (args, system) => {
+      const start = serialArg('DATEDIF', args, 0, system);
+      const end = serialArg('DATEDIF', args, 1, system);
+      const unit = args[2];
+      if (typeof unit !== 'string') {
+        throw new RangeError(
+          `DATEDIF argument 3 must be a unit such as "Y", got ${String(unit)}`
+        );
+      }
+      const normalized = unit.trim().toUpperCase();
+      if (start > end || !DATEDIF_UNITS.includes(normalized)) {
+        throw new ExcelFunctionError('#NUM!');
+      }
+      return dateDif(start, end, normalized, system);
+    }),
+  };
+
+function lookup(name: DateFunctionName): DateFunction {
+  const fn = Object.prototype.hasOwnProperty.call(DATE_FUNCTIONS, name)
+    ? DATE_FUNCTIONS[name]
+    : undefined;
+  if (!fn) {
+    throw new RangeError(
+      `Unknown date function: ${String(name)}; expected one of ${Object.keys(DATE_FUNCTIONS).join(', ')}`
+    );
+  }
+  return fn;
+}
+
+/**
+ * Formula text of a call, for messages
+ *
+ * @example
+ * formatDateFunctionCall('EDATE', [new Date(2011, 0, 15), 1])
+ * // 'EDATE(DATE(2011,1,15),1)'
+ */
+export function formatDateFunctionCall(
+  name: DateFunctionName,
+  args: readonly DateFunctionArg[]
+): string {
+  const format = (arg: DateFunctionArg): string => {
+    if (arg instanceof Date) {
+      return `DATE(${arg.getFullYear()},${arg.getMonth() + 1},${arg.getDate()})`;
+    }
+    if (typeof arg === 'string') {
+      return `"${arg}"`;
+    }
+    if (Array.isArray(arg)) {
+      return `{${arg.map(format).join(',')}}`;
+    }
+    return String(arg);
+  };
+  return `${name}(${args.map(format).join(',')})`;
+}
+
+/**
+ * What a cell holding `name(...args)` must show
+ *
+ * @example
+ * expectedDateFunctionValue('EOMONTH', [new Date(2011, 0, 1), 1])
+ * // { min: 40602, max: 40602 }
+ * expectedDateFunctionValue('DATEDIF', [2, 1, 'D']) // { error: '#NUM!' }
+ *
+ * @throws RangeError for an unknown function, the wrong number of arguments
+ * or arguments of the wrong type
+ */
+export function expectedDateFunctionValue(
+  name: DateFunctionName,
+  args: readonly DateFunctionArg[],
+  context: DateFunctionContext = {}
+): ExpectedValue {
+  const fn = lookup(name);
+  const [fewest, most] = fn.arity;
+  if (args.length < fewest || args.length > most) {
+    const count = fewest === most ? `${fewest}` : `${fewest} to ${most}`;
+    throw new RangeError(
+      `${name} takes ${count} argument${most === 1 ? '' : 's'}, got ${args.length}`
+    );
+  }
+  return fn.expected(args, context);
+}
+
+function describe(
+  value: number,
+  fn: DateFunction,
+  context: DateFunctionContext
+): string {
+  const shown = String(Number(value.toFixed(6)));
+  if (fn.resultType !== 'date' || !Number.isInteger(value)) {
+    return shown;
+  }
+  try {
+    return `${shown} (${formatExcelDate(serialToDate(value, context.system), context)})`;
+  } catch {
+    // Serial 60 has no JavaScript date
+    return shown;
+  }
+}
+
+/**
+ * Check a cell value against the expected result of any catalogued date
+ * function. The value may be the raw number (e.g. from =EDATE(...)*1), an
+ * Excel error such as #NUM!, or, for functions returning dates, a date shown
+ * in the context's locale or format, which is compared by day.
+ *
+ * @example
+ * validateDateFunction('WEEKDAY', [new Date(2008, 1, 14)], '5').isValid // true
+ * validateDateFunction('NOW', [], '45891.6', { window, timeZone: 'Europe/Berlin' })
+ *
+ * @throws RangeError as for `expectedDateFunctionValue`
+ */
+export function validateDateFunction(
+  name: DateFunctionName,
+  args: readonly DateFunctionArg[],
+  actualValue: string,
+  context: DateFunctionContext = {}
+): DateValidationResult {
+  const expected = expectedDateFunctionValue(name, args, context);
+  const fn = lookup(name);
+  const call = formatDateFunctionCall(name, args);
+  const actualDate = actualValue.trim();
+
+  if ('error' in expected) {
+    const isValid = actualDate.toUpperCase() === expected.error;
+    return {
+      isValid,
+      expectedDate: expected.error,
+      actualDate,
+      message: isValid
+        ? `${call} returns ${expected.error} as expected`
+        : `${call} mismatch: expected ${expected.error}, got ${actualDate}`,
+    };
+  }
+
+  let { min, max } = expected;
+  const expectedDate =
+    min === max
+      ? describe(min, fn, context)
+      : `${describe(min, fn, context)} to ${describe(max, fn, context)}`;
+
+  let actual = actualDate === '' ? NaN : Number(actualDate);
+  if (!Number.isFinite(actual) && fn.resultType === 'date') {
+    const parsed = tryParseExcelDate(actualDate, context);
+    if (!parsed.ok) {
+      return {
+        isValid: false,
+        expectedDate,
+        actualDate,
+        message: `Unable to parse ${call} result: ${parsed.message}`,
+      };
+    }
+    // A shown date has no time of day
+    actual = dateToSerial(parsed.date, context.system);
+    min = Math.floor(min);
+    max = Math.floor(max);
+  }
+
+  if (!Number.isFinite(actual)) {
+    return {
+      isValid: false,
+      expectedDate,
+      actualDate,
+      message: `Unable to parse ${call} result: "${actualDate}" is not a number`,
+    };
+  }
+
+  const isValid = actual >= min - EPSILON && actual <= max + EPSILON;
+  return {
+    isValid,
+    expectedDate,
+    actualDate,
+    message: isValid
+      ? `${call} matches expected value`
+      : `${call} mismatch: expected ${expectedDate}, got ${actualDate}${
+          fn.volatile ? ' during the run' : ''
+        }`,
+  };
+}
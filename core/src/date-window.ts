@@ -0,0 +1,344 @@
+import {
+  DateParseOptions,
+  formatExcelDate,
+  tryParseExcelDate,
+} from './excel-date';
+import type { DateValidationResult } from './types';
+
+/**
+ * Instants captured just before a formula is entered and just after its
+ * result is read. TODAY() and NOW() were evaluated somewhere in between.
+ */
+export interface TimeWindow {
+  before: Date;
+  after: Date;
+}
+
+export interface ZonedDateOptions extends DateParseOptions {
+  /**
+   * IANA time zone of the workbook's regional setting, e.g. 'Europe/Berlin'
+   * (default: the runner's time zone)
+   */
+  timeZone?: string;
+}
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_DAY = 86400000;
+// Real UTC offsets run from UTC-12:00 to UTC+14:00 in 15-minute steps
+const MIN_OFFSET = -12 * 60;
+const MAX_OFFSET = 14 * 60;
+const OFFSET_STEP = 15;
+
+// "8/22/2025 14:35", "8/22/2025 2:35:07 PM"
+const TIME_SUFFIX = /\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AaPp])[Mm])?$/;
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+function runnerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Wall-clock time of `instant` in `timeZone`, as milliseconds since the
+ * epoch of a UTC clock showing the same date and time
+ */
+function wallClock(instant: Date, timeZone: string): number {
+  let format = wallClockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    wallClockFormats.set(timeZone, format);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const { type, value } of format.formatToParts(instant)) {
+    parts[type] = Number(value);
+  }
+  return (
+    Date.UTC(
+      parts['year'] ?? 0,
+      (parts['month'] ?? 1) - 1,
+      parts['day'] ?? 1,
+      parts['hour'] ?? 0,
+      parts['minute'] ?? 0,
+      parts['second'] ?? 0
+    ) + instant.getUTCMilliseconds()
+  );
+}
+
+function startOfDay(wall: number): number {
+  return Math.floor(wall / MS_PER_DAY) * MS_PER_DAY;
+}
+
+// A local Date showing the wall-clock date, for formatting and parsing
+function wallDate(wall: number): Date {
+  const utc = new Date(wall);
+  return new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds()
+  );
+}
+
+function checkWindow({ before, after }: TimeWindow): void {
+  if (isNaN(before.getTime()) || isNaN(after.getTime())) {
+    throw new RangeError('Time window needs two valid dates');
+  }
+  if (before.getTime() > after.getTime()) {
+    throw new RangeError(
+      `Time window ends (${after.toISOString()}) before it starts (${before.toISOString()})`
+    );
+  }
+}
+
+/**
+ * Offset of `timeZone` from UTC at `instant`, in minutes east of UTC
+ *
+ * @example
+ * timeZoneOffset(new Date('2025-08-22T12:00Z'), 'Europe/Berlin') // 120
+ */
+export function timeZoneOffset(instant: Date, timeZone: string): number {
+  return Math.round(
+    (wallClock(instant, timeZone) - instant.getTime()) / MS_PER_MINUTE
+  );
+}
+
+/**
+ * Format an offset in minutes as Excel and Windows show it: UTC+05:30
+ */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  const hh = String(Math.floor(abs / 60)).padStart(2, '0');
+  const mm = String(abs % 60).padStart(2, '0');
+  return `UTC${sign}${hh}:${mm}`;
+}
+
+/**
+ * A local Date showing the wall-clock time of `instant` in `timeZone`, for
+ * code that reads local date parts (formatting, Excel serials)
+ *
+ * @example
+ * zonedWallTime(new Date('2025-08-22T23:30Z'), 'Europe/Berlin')
+ * // local 2025-08-23 01:30
+ */
+export function zonedWallTime(instant: Date, timeZone: string): Date {
+  const wall = new Date(wallDate(wallClock(instant, timeZone)));
+  wall.setMilliseconds(instant.getUTCMilliseconds());
+  return wall;
+}
+
+function zoneLabel(timeZone: string, instant: Date): string {
+  return `${timeZone} (${formatUtcOffset(timeZoneOffset(instant, timeZone))})`;
+}
+
+/**
+ * Check that a cell value shown for =TODAY() is a calendar day that was
+ * current in `timeZone` at some point in the window. A run that crosses
+ * midnight accepts both days. A mismatch names the UTC offsets at which the
+ * shown day was current during the run, which points at a workbook set to a
+ * different time zone than expected.
+ *
+ * @throws RangeError if the window ends before it starts, or for an
+ * unknown time zone
+ */
+export function validateTodayInWindow(
+  actualValue: string,
+  window: TimeWindow,
+  options: ZonedDateOptions = {}
+): DateValidationResult {
+  checkWindow(window);
+  const timeZone = options.timeZone ?? runnerTimeZone();
+  const first = startOfDay(wallClock(window.before, timeZone));
+  const last = startOfDay(wallClock(window.after, timeZone));
+
+  const days: number[] = [];
+  for (let day = first; day <= last; day += MS_PER_DAY) {
+    days.push(day);
+  }
+  const expectedDate = days
+    .map(day => formatExcelDate(wallDate(day), options))
+    .join(' or ');
+  const actualDate = actualValue.trim();
+  const parsed = tryParseExcelDate(actualDate, options);
+
+  if (!parsed.ok) {
+    return {
+      isValid: false,
+      expectedDate,
+      actualDate,
+      message: `Unable to parse date: ${parsed.message}`,
+    };
+  }
+
+  const { date } = parsed;
+  const shown = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  if (shown >= first && shown <= last) {
+    return {
+      isValid: true,
+      expectedDate,
+      actualDate,
+      message:
+        days.length === 1
+          ? 'Date matches current date'
+          : `Date matches ${actualDate}, current in ${timeZone} during a run that crossed midnight`,
+    };
+  }
+
+  // The shown day was current at offset o for some instant t in the window
+  // when shown <= t + o < shown + 1 day
+  const lowest = Math.max(
+    MIN_OFFSET,
+    Math.ceil((shown - window.after.getTime()) / MS_PER_MINUTE / OFFSET_STEP) *
+      OFFSET_STEP
+  );
+  const highest = Math.min(
+    MAX_OFFSET,
+    (Math.ceil(
+      (shown + MS_PER_DAY - window.before.getTime()) /
+        MS_PER_MINUTE /
+        OFFSET_STEP
+    ) -
+      1) *
+      OFFSET_STEP
+  );
+  const explanation =
+    lowest <= highest
+      ? `which was current only at ${formatUtcOffset(lowest)} to ${formatUtcOffset(highest)} during the run; check the workbook's time zone`
+      : 'which was not the current date in any time zone during the run';
+
+  return {
+    isValid: false,
+    expectedDate,
+    actualDate,
+    message: `Date mismatch: expected ${expectedDate} in ${zoneLabel(
+      timeZone,
+      window.before
+    )}, got ${formatExcelDate(date, options)}, ${explanation}`,
+  };
+}
+
+/**
+ * Check that a cell value shown for =NOW() (date and time of day, e.g.
+ * "8/22/2025 14:35") falls within the window in `timeZone`. The shown time
+ * is truncated to the minute, or to the second when seconds are shown. A
+ * mismatch reports the UTC offset the shown time corresponds to.
+ *
+ * @throws RangeError if the window ends before it starts, or for an
+ * unknown time zone
+ */
+export function validateNowInWindow(
+  actualValue: string,
+  window: TimeWindow,
+  options: ZonedDateOptions = {}
+): DateValidationResult {
+  checkWindow(window);
+  const timeZone = options.timeZone ?? runnerTimeZone();
+  const from = wallClock(window.before, timeZone);
+  const to = wallClock(window.after, timeZone);
+  const formatWall = (wall: number, seconds: boolean) => {
+    const date = wallDate(wall);
+    const time = [date.getHours(), date.getMinutes()]
+      .concat(seconds ? [date.getSeconds()] : [])
+      .map((part, index) => String(part).padStart(index === 0 ? 1 : 2, '0'))
+      .join(':');
+    return `${formatExcelDate(date, options)} ${time}`;
+  };
+
+  const actualDate = actualValue.trim();
+  const time = TIME_SUFFIX.exec(actualDate);
+  const parsed = time
+    ? tryParseExcelDate(actualDate.slice(0, time.index), options)
+    : undefined;
+
+  if (!time || !parsed?.ok) {
+    return {
+      isValid: false,
+      expectedDate: `${formatWall(from, false)} to ${formatWall(to, false)}`,
+      actualDate,
+      message: `Unable to parse date and time: ${
+        parsed && !parsed.ok
+          ? parsed.message
+          : `"${actualDate}" has no time of day`
+      }`,
+    };
+  }
+
+  const hasSeconds = time[3] !== undefined;
+  const expectedDate = `${formatWall(from, hasSeconds)} to ${formatWall(to, hasSeconds)}`;
+  let hours = Number(time[1]);
+  const meridiem = time[4]?.toLowerCase();
+  if (meridiem) {
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  const { date } = parsed;
+  const shown = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    hours,
+    Number(time[2]),
+    Number(time[3] ?? 0)
+  );
+  const precision = hasSeconds ? 1000 : MS_PER_MINUTE;
+
+  // The instants showing this wall-clock time: none inside a spring-forward
+  // gap, two inside a fall-back overlap
+  const instants = [window.before, window.after]
+    .map(edge => shown - timeZoneOffset(edge, timeZone) * MS_PER_MINUTE)
+    .filter(instant => wallClock(new Date(instant), timeZone) === shown);
+  if (
+    instants.some(
+      instant =>
+        instant <= window.after.getTime() &&
+        instant + precision > window.before.getTime()
+    )
+  ) {
+    return {
+      isValid: true,
+      expectedDate,
+      actualDate,
+      message: 'Time matches current time',
+    };
+  }
+
+  // A fall-back DST change inside the window can make `to` precede `from`
+  const earliest = Math.min(from, to);
+  const latest = Math.max(from, to);
+  const drift = Math.round(
+    (shown < earliest ? shown + precision - earliest : shown - latest) /
+      MS_PER_MINUTE
+  );
+  const implied =
+    Math.round(
+      (timeZoneOffset(window.before, timeZone) + drift) / OFFSET_STEP
+    ) * OFFSET_STEP;
+  const direction = `${Math.abs(drift)} minutes ${drift > 0 ? 'ahead of' : 'behind'}`;
+  const explanation =
+    Math.abs(drift) >= OFFSET_STEP &&
+    implied >= MIN_OFFSET &&
+    implied <= MAX_OFFSET
+      ? `; that is the time at ${formatUtcOffset(implied)}, check the workbook's time zone`
+      : '';
+
+  return {
+    isValid: false,
+    expectedDate,
+    actualDate,
+    message: `Time mismatch: expected ${expectedDate} in ${zoneLabel(
+      timeZone,
+      window.before
+    )}, got ${actualDate}, ${direction} the window${explanation}`,
+  };
+}
@@ -0,0 +1,562 @@
+import type { DateValidationResult } from './types';
+
+export type ExcelDateErrorCode =
+  | 'EMPTY'
+  | 'NO_MATCH'
+  | 'INVALID_DATE'
+  | 'AMBIGUOUS';
+
+export interface DateParseOptions {
+  /**
+   * Excel locale whose date formats apply, e.g. 'en-US' or 'de-DE'. Also
+   * supplies month and weekday names for an explicit `format`.
+   */
+  locale?: string;
+  /**
+   * Excel number-format pattern, e.g. 'm/d/yyyy', 'dd.mm.yyyy' or
+   * 'dddd, mmmm d, yyyy'. Takes precedence over the locale's formats.
+   */
+  format?: string;
+}
+
+/**
+ * One reading of a date value: the date and the format that produced it
+ */
+export interface DateCandidate {
+  date: Date;
+  format: string;
+  locale: string;
+}
+
+export interface DateParseSuccess extends DateCandidate {
+  ok: true;
+}
+
+export interface DateParseFailure {
+  ok: false;
+  code: ExcelDateErrorCode;
+  message: string;
+  /** The competing readings when `code` is 'AMBIGUOUS' */
+  candidates?: DateCandidate[];
+}
+
+export type DateParseResult = DateParseSuccess | DateParseFailure;
+
+/**
+ * Error thrown by `parseExcelDate`, carrying the same code and candidates as
+ * the corresponding `DateParseFailure`
+ */
+export class ExcelDateError extends Error {
+  readonly code: ExcelDateErrorCode;
+  readonly candidates: DateCandidate[];
+
+  constructor(failure: DateParseFailure) {
+    super(failure.message);
+    this.name = 'ExcelDateError';
+    this.code = failure.code;
+    this.candidates = failure.candidates ?? [];
+  }
+}
+
+/**
+ * Short and long date formats Excel uses per locale, short format first.
+ * ISO dates are accepted everywhere since they cannot be misread.
+ */
+const LOCALE_FORMATS: Readonly<Record<string, readonly string[]>> = {
+  'en-US': [
+    'm/d/yyyy',
+    'mmmm d, yyyy',
+    'dddd, mmmm d, yyyy',
+    'mmm d, yyyy',
+    'yyyy-mm-dd',
+  ],
+  'en-GB': [
+    'dd/mm/yyyy',
+    'dd mmmm yyyy',
+    'dddd, d mmmm yyyy',
+    'd mmm yyyy',
+    'yyyy-mm-dd',
+  ],
+  'de-DE': ['dd.mm.yyyy', 'd. mmmm yyyy', 'dddd, d. mmmm yyyy', 'yyyy-mm-dd'],
+  'fr-FR': ['dd/mm/yyyy', 'd mmmm yyyy', 'dddd d mmmm yyyy', 'yyyy-mm-dd'],
+};
+
+/** Locales with known date formats */
+export const DATE_LOCALES = Object.keys(LOCALE_FORMATS);
+
+// Names follow the locale of an explicit format when none is given
+const NAME_LOCALE = 'en-US';
+
+type NameStyle = 'short' | 'long';
+
+type Token =
+  | { kind: 'literal'; text: string }
+  | { kind: 'space' }
+  | { kind: 'year'; digits: 2 | 4 }
+  | { kind: 'month'; style: 'numeric' | 'padded' | NameStyle }
+  | { kind: 'day'; style: 'numeric' | 'padded' }
+  | { kind: 'weekday'; style: NameStyle };
+
+interface CompiledFormat {
+  pattern: RegExp;
+  fields: Array<Exclude<Token, { kind: 'literal' } | { kind: 'space' }>>;
+}
+
+const compiledFormats = new Map<string, CompiledFormat>();
+const nameCache = new Map<string, string[]>();
+
+function localeFormats(locale: string): readonly string[] {
+  const formats = LOCALE_FORMATS[locale];
+  if (!formats) {
+    throw new RangeError(
+      `Unknown date locale "${locale}": expected one of ${DATE_LOCALES.join(', ')}`
+    );
+  }
+  return formats;
+}
+
+/**
+ * Month (0-11) or weekday (0 = Sunday) names in the locale, as Intl
+ * formats them
+ */
+function names(
+  locale: string,
+  part: 'month' | 'weekday',
+  style: NameStyle
+): string[] {
+  const key = `${locale}|${part}|${style}`;
+  const cached = nameCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const format = new Intl.DateTimeFormat(locale, {
+    [part]: style,
+    timeZone: 'UTC',
+  });
+  const list =
+    part === 'month'
+      ? Array.from({ length: 12 }, (_, i) =>
+          format.format(Date.UTC(2001, i, 1))
+        )
+      : // 7 January 2001 was a Sunday
+        Array.from({ length: 7 }, (_, i) =>
+          format.format(Date.UTC(2001, 0, 7 + i))
+        );
+  nameCache.set(key, list);
+  return list;
+}
+
+// Some locales abbreviate with a trailing dot ("Jan."); Excel often drops it
+function nameKey(name: string): string {
+  return name.toLocaleLowerCase().replace(/\.$/, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split an Excel number format into date tokens. Bracketed prefixes such as
+ * [$-409] are skipped, quoted text and backslash escapes are literals, and
+ * letters other than d, m and y are kept as literal text.
+ */
+function tokenize(format: string): Token[] {
+  const tokens: Token[] = [];
+  const source = format.replace(/^(\[[^\]]*\])+/, '');
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source.charAt(i);
+    const lower = char.toLowerCase();
+
+    if (char === '"') {
+      const end = source.indexOf('"', i + 1);
+      const stop = end === -1 ? source.length : end;
+      tokens.push({ kind: 'literal', text: source.slice(i + 1, stop) });
+      i = stop + 1;
+    } else if (char === '\\') {
+      tokens.push({ kind: 'literal', text: source.charAt(i + 1) });
+      i += 2;
+    } else if (/\s/.test(char)) {
+      while (i < source.length && /\s/.test(source.charAt(i))) i++;
+      tokens.push({ kind: 'space' });
+    } else if (lower === 'y' || lower === 'm' || lower === 'd') {
+      let count = 0;
+      while (source.charAt(i).toLowerCase() === lower) {
+        count++;
+        i++;
+      }
+      if (lower === 'y') {
+        tokens.push({ kind: 'year', digits: count <= 2 ? 2 : 4 });
+      } else if (count >= 3) {
+        const style = count === 3 ? 'short' : 'long';
+        tokens.push(
+          lower === 'm' ? { kind: 'month', style } : { kind: 'weekday', style }
+        );
+      } else {
+        const style = count === 1 ? 'numeric' : 'padded';
+        tokens.push(
+          lower === 'm' ? { kind: 'month', style } : { kind: 'day', style }
+        );
+      }
+    } else {
+      tokens.push({ kind: 'literal', text: char });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+function namePattern(
+  locale: string,
+  part: 'month' | 'weekday',
+  style: NameStyle
+): string {
+  const alternatives = names(locale, part, style)
+    .map(name => `${escapeRegExp(nameKey(name))}\\.?`)
+    .sort((a, b) => b.length - a.length);
+  return `(${alternatives.join('|')})`;
+}
+
+function compile(format: string, locale: string): CompiledFormat {
+  const key = `${locale}|${format}`;
+  const cached = compiledFormats.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const tokens = tokenize(format);
+  const fields: CompiledFormat['fields'] = [];
+  let source = '';
+
+  for (const token of tokens) {
+    switch (token.kind) {
+      case 'literal':
+        source += escapeRegExp(token.text);
+        break;
+      case 'space':
+        source += '\\s+';
+        break;
+      case 'year':
+        source += token.digits === 2 ? '(\\d{2})' : '(\\d{4})';
+        fields.push(token);
+        break;
+      case 'month':
+        source +=
+          token.style === 'numeric' || token.style === 'padded'
+            ? '(\\d{1,2})'
+            : namePattern(locale, 'month', token.style);
+        fields.push(token);
+        break;
+      case 'weekday':
+        source += namePattern(locale, 'weekday', token.style);
+        fields.push(token);
+        break;
+      case 'day':
+        source += '(\\d{1,2})';
+        fields.push(token);
+        break;
+    }
+  }
+
+  for (const kind of ['year', 'month', 'day'] as const) {
+    if (fields.filter(field => field.kind === kind).length !== 1) {
+      throw new RangeError(
+        `Date format "${format}" must contain exactly one day, month and year`
+      );
+    }
+  }
+
+  const compiled = { pattern: new RegExp(`^${source}$`, 'i'), fields };
+  compiledFormats.set(key, compiled);
+  return compiled;
+}
+
+/**
+ * Build a local date, rejecting out-of-range parts instead of letting Date
+ * roll them over (2/30/2025 must not become March 2)
+ */
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(2000, 0, 1);
+  // setFullYear keeps years below 100 literal (Date maps 25 to 1925)
+  date.setFullYear(year, month - 1, day);
+  return date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+    ? date
+    : null;
+}
+
+function nameIndex(
+  text: string,
+  locale: string,
+  part: 'month' | 'weekday',
+  style: NameStyle
+): number {
+  const key = nameKey(text);
+  return names(locale, part, style).findIndex(name => nameKey(name) === key);
+}
+
+/**
+ * Read `value` with one format: null when it does not match, a failure when
+ * it matches but names an impossible date
+ */
+function readWith(
+  value: string,
+  format: string,
+  locale: string
+): DateCandidate | DateParseFailure | null {
+  const { pattern, fields } = compile(format, locale);
+  const match = pattern.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  let year = 0;
+  let month = 0;
+  let day = 0;
+  let weekday: number | undefined;
+
+  fields.forEach((field, index) => {
+    const text = match[index + 1] ?? '';
+    switch (field.kind) {
+      case 'year':
+        year = Number(text);
+        // Excel reads two-digit years 00-29 as 2000-2029, 30-99 as 1930-1999
+        if (field.digits === 2) year += year < 30 ? 2000 : 1900;
+        break;
+      case 'month':
+        month =
+          field.style === 'short' || field.style === 'long'
+            ? nameIndex(text, locale, 'month', field.style) + 1
+            : Number(text);
+        break;
+      case 'day':
+        day = Number(text);
+        break;
+      case 'weekday':
+        weekday = nameIndex(text, locale, 'weekday', field.style);
+        break;
+    }
+  });
+
+  const date = calendarDate(year, month, day);
+  if (!date) {
+    return {
+      ok: false,
+      code: 'INVALID_DATE',
+      message: `"${value}" is not a calendar date in format ${format}`,
+    };
+  }
+  if (weekday !== undefined && weekday !== date.getDay()) {
+    return {
+      ok: false,
+      code: 'INVALID_DATE',
+      message: `"${value}" names the wrong weekday: ${formatExcelDate(date, {
+        format: 'yyyy-mm-dd',
+      })} is a ${names(NAME_LOCALE, 'weekday', 'long')[date.getDay()]}`,
+    };
+  }
+  return { date, format, locale };
+}
+
+function dayKey(date: Date): string {
+  return formatExcelDate(date, { format: 'yyyy-mm-dd' });
+}
+
+/**
+ * Parse a date as Excel displays it, using an explicit locale or number
+ * format. Without either, every known locale is tried and a value that
+ * reads as different days (3/4/2026: March 4 or 3 April) is reported as
+ * AMBIGUOUS instead of being guessed.
+ *
+ * @example
+ * tryParseExcelDate('22.08.2025', { locale: 'de-DE' })
+ * // { ok: true, date: 2025-08-22, format: 'dd.mm.yyyy', locale: 'de-DE' }
+ * tryParseExcelDate('3/4/2026')
+ * // { ok: false, code: 'AMBIGUOUS', candidates: [March 4, April 3], ... }
+ *
+ * @throws RangeError for an unknown locale or a format without day, month
+ * and year
+ */
+export function tryParseExcelDate(
+  value: string,
+  options: DateParseOptions = {}
+): DateParseResult {
+  const { locale, format } = options;
+  if (locale !== undefined) {
+    localeFormats(locale);
+  }
+  const locales = locale === undefined ? DATE_LOCALES : [locale];
+  const attempts = format
+    ? [{ format, locale: locale ?? NAME_LOCALE }]
+    : locales.flatMap(name =>
+        localeFormats(name).map(pattern => ({ format: pattern, locale: name }))
+      );
+
+  const clean = value.trim();
+  if (clean === '') {
+    return { ok: false, code: 'EMPTY', message: 'Empty date value' };
+  }
+
+  const candidates = new Map<string, DateCandidate>();
+  let invalid: DateParseFailure | undefined;
+
+  for (const attempt of attempts) {
+    const read = readWith(clean, attempt.format, attempt.locale);
+    if (read && 'ok' in read) {
+      invalid ??= read;
+    } else if (read && !candidates.has(dayKey(read.date))) {
+      candidates.set(dayKey(read.date), read);
+    }
+  }
+
+  const readings = [...candidates.values()];
+  const [first] = readings;
+  if (first && readings.length === 1) {
+    return { ok: true, ...first };
+  }
+  if (readings.length > 1) {
+    const described = readings
+      .map(
+        reading =>
+          `${dayKey(reading.date)} (${reading.format}, ${reading.locale})`
+      )
+      .join(' or ');
+    return {
+      ok: false,
+      code: 'AMBIGUOUS',
+      message: `Ambiguous date "${clean}" could be ${described}; pass a locale or format`,
+      candidates: readings,
+    };
+  }
+  if (invalid) {
+    return invalid;
+  }
+
+  const expected =
+    format ?? (locale ? localeFormats(locale).join(', ') : undefined);
+  return {
+    ok: false,
+    code: 'NO_MATCH',
+    message: expected
+      ? `"${clean}" does not match date format ${expected}`
+      : `"${clean}" does not match any known date format`,
+  };
+}
+
+/**
+ * Throwing variant of `tryParseExcelDate`
+ *
+ * @throws ExcelDateError if the value is empty, not a date, or ambiguous
+ */
+export function parseExcelDate(
+  value: string,
+  options: DateParseOptions = {}
+): Date {
+  const result = tryParseExcelDate(value, options);
+  if (!result.ok) {
+    throw new ExcelDateError(result);
+  }
+  return result.date;
+}
+
+/**
+ * Whether two dates fall on the same local calendar day
+ */
+export function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+/**
+ * Format a date the way Excel displays it: with `format`, else the locale's
+ * short date format, else M/D/YYYY (the Excel Online default)
+ */
+export function formatExcelDate(
+  date: Date,
+  options: DateParseOptions = {}
+): string {
+  const { locale } = options;
+  const format =
+    options.format ??
+    (locale ? localeFormats(locale)[0] : undefined) ??
+    'm/d/yyyy';
+  const nameLocale = locale ?? NAME_LOCALE;
+
+  return tokenize(format)
+    .map(token => {
+      switch (token.kind) {
+        case 'literal':
+          return token.text;
+        case 'space':
+          return ' ';
+        case 'year':
+          return token.digits === 2
+            ? String(date.getFullYear() % 100).padStart(2, '0')
+            : String(date.getFullYear()).padStart(4, '0');
+        case 'month':
+          return token.style === 'numeric' || token.style === 'padded'
+            ? String(date.getMonth() + 1).padStart(
+                token.style === 'padded' ? 2 : 1,
+                '0'
+              )
+            : (names(nameLocale, 'month', token.style)[date.getMonth()] ?? '');
+        case 'day':
+          return String(date.getDate()).padStart(
+            token.style === 'padded' ? 2 : 1,
+            '0'
+          );
+        case 'weekday':
+          return names(nameLocale, 'weekday', token.style)[date.getDay()] ?? '';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Check that a cell value shown for =TODAY() is today's date. This is the
+ * single implementation behind `DateUtils.validateTodayFunction` and the
+ * page objects' `verifyDateFormat`.
+ *
+ * @param actualValue - Displayed cell value, e.g. "8/22/2025"
+ * @param today - Reference date (default: now)
+ * @param options - Locale or format the cell is displayed in; without one,
+ * values that read as different days in different locales are rejected
+ */
+export function validateTodayDate(
+  actualValue: string,
+  today: Date = new Date(),
+  options: DateParseOptions = {}
+): DateValidationResult {
+  const expectedDate = formatExcelDate(today, options);
+  const actualDate = actualValue.trim();
+  const parsed = tryParseExcelDate(actualDate, options);
+
+  if (!parsed.ok) {
+    return {
+      isValid: false,
+      expectedDate,
+      actualDate,
+      message: `Unable to parse date: ${parsed.message}`,
+    };
+  }
+
+  const isValid = isSameDay(parsed.date, today);
+  return {
+    isValid,
+    expectedDate,
+    actualDate,
+    message: isValid
+      ? 'Date matches current date'
+      : `Date mismatch: expected ${expectedDate}, got ${formatExcelDate(
+          parsed.date,
+          options
+        )}`,
+  };
+}
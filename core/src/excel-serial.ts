@@ -0,0 +1,205 @@
+import type { DateValidationResult } from './types';
+
+/**
+ * Excel's two date systems. In the 1900 system (the Windows and Excel Online
+ * default) serial 1 is 1900-01-01 and serial 60 is 1900-02-29, a day that
+ * never existed but is kept for Lotus 1-2-3 compatibility. In the 1904
+ * system serial 0 is 1904-01-01.
+ */
+export type DateSystem = '1900' | '1904';
+
+/**
+ * Calendar and clock parts of a serial, able to hold the fake 1900-02-29
+ */
+export interface SerialParts {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+const MS_PER_DAY = 86400000;
+
+// 1900 system: serials 0-59 count from 1899-12-31, serials from 61 on count
+// from 1899-12-30 because of the fake leap day in between
+const EPOCH_1900_BEFORE_LEAP = Date.UTC(1899, 11, 31);
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const FAKE_LEAP_DAY = 60;
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+/** Largest serial for 9999-12-31, the last date Excel accepts */
+export const MAX_SERIAL: Readonly<Record<DateSystem, number>> = {
+  '1900': 2958465,
+  '1904': 2957003,
+};
+
+function checkSerial(serial: number, system: DateSystem): void {
+  if (
+    !Number.isFinite(serial) ||
+    serial < 0 ||
+    serial >= MAX_SERIAL[system] + 1
+  ) {
+    throw new RangeError(
+      `Serial ${serial} is outside 0..${MAX_SERIAL[system]} in the ${system} date system`
+    );
+  }
+}
+
+/**
+ * Split a serial into calendar and clock parts. The fraction is the time of
+ * day, rounded to the millisecond.
+ *
+ * @example
+ * serialToParts(45891.5) // 2025-08-22 12:00:00.000
+ * serialToParts(60)      // 1900-02-29 00:00:00.000
+ *
+ * @throws RangeError for negative, non-finite or too large serials
+ */
+export function serialToParts(
+  serial: number,
+  system: DateSystem = '1900'
+): SerialParts {
+  checkSerial(serial, system);
+
+  let days = Math.floor(serial);
+  let time = Math.round((serial - days) * MS_PER_DAY);
+  if (time === MS_PER_DAY) {
+    days++;
+    time = 0;
+  }
+
+  const clock = {
+    hours: Math.floor(time / 3600000),
+    minutes: Math.floor(time / 60000) % 60,
+    seconds: Math.floor(time / 1000) % 60,
+    milliseconds: time % 1000,
+  };
+
+  if (system === '1900' && days === FAKE_LEAP_DAY) {
+    return { year: 1900, month: 2, day: 29, ...clock };
+  }
+
+  const epoch =
+    system === '1904'
+      ? EPOCH_1904
+      : days < FAKE_LEAP_DAY
+        ? EPOCH_1900_BEFORE_LEAP
+        : EPOCH_1900;
+  const date = new Date(epoch + days * MS_PER_DAY);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    ...clock,
+  };
+}
+
+/**
+ * Excel serial to a local JavaScript date and time
+ *
+ * @throws RangeError for serials outside the date system, and for serial 60
+ * in the 1900 system, which has no JavaScript date
+ */
+export function serialToDate(
+  serial: number,
+  system: DateSystem = '1900'
+): Date {
+  const parts = serialToParts(serial, system);
+  if (parts.year === 1900 && parts.month === 2 && parts.day === 29) {
+    throw new RangeError(
+      'Serial 60 is 1900-02-29, which exists only in the Excel 1900 date system'
+    );
+  }
+  return new Date(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hours,
+    parts.minutes,
+    parts.seconds,
+    parts.milliseconds
+  );
+}
+
+/**
+ * Local JavaScript date and time to an Excel serial: whole days since the
+ * epoch plus the time of day as a fraction. Daylight-saving shifts do not
+ * change the fraction, so 12:00 is always .5.
+ *
+ * @example
+ * dateToSerial(new Date(2025, 7, 22))       // 45891
+ * dateToSerial(new Date(2025, 7, 22), '1904') // 44429
+ *
+ * @throws RangeError for invalid dates and dates before serial 0 (1899-12-31
+ * or 1904-01-01) or after 9999-12-31
+ */
+export function dateToSerial(date: Date, system: DateSystem = '1900'): number {
+  const local = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+
+  let serial: number;
+  if (system === '1904') {
+    serial = (local - EPOCH_1904) / MS_PER_DAY;
+  } else {
+    serial = (local - EPOCH_1900) / MS_PER_DAY;
+    // Before 1900-03-01 there is no fake leap day to skip over
+    if (serial < FAKE_LEAP_DAY + 1) {
+      serial = (local - EPOCH_1900_BEFORE_LEAP) / MS_PER_DAY;
+    }
+  }
+
+  if (Number.isNaN(serial) || serial < 0 || serial >= MAX_SERIAL[system] + 1) {
+    throw new RangeError(
+      `Date ${date.toString()} is outside the Excel ${system} date system`
+    );
+  }
+  return serial;
+}
+
+/**
+ * Check that the raw value of a cell holding =TODAY()*1 or =VALUE(TODAY())
+ * is today's serial, independently of how the grid formats dates
+ *
+ * @param actualValue - Raw cell value, e.g. "45891"
+ * @param today - Reference date (default: now)
+ * @param system - Date system of the workbook
+ */
+export function validateTodaySerial(
+  actualValue: string,
+  today: Date = new Date(),
+  system: DateSystem = '1900'
+): DateValidationResult {
+  const expected = Math.floor(dateToSerial(today, system));
+  const expectedDate = String(expected);
+  const actualDate = actualValue.trim();
+  const serial = actualDate === '' ? NaN : Number(actualDate);
+
+  if (!Number.isFinite(serial)) {
+    return {
+      isValid: false,
+      expectedDate,
+      actualDate,
+      message: `Unable to parse serial: "${actualDate}" is not a number`,
+    };
+  }
+
+  const isValid = Math.floor(serial) === expected;
+  return {
+    isValid,
+    expectedDate,
+    actualDate,
+    message: isValid
+      ? 'Serial matches current date'
+      : `Serial mismatch: expected ${expected}, got ${actualDate} in the ${system} date system`,
+  };
+}
@@ -0,0 +1,91 @@
+import { createIncrementer, Incrementer } from './identifier';
+
+/**
+ * Contiguous block of identifiers that is generated lazily but knows its size
+ * (and bounds) up front. Each iteration starts again from `first`.
+ */
+export interface IdentifierBlock extends Iterable<string> {
+  /** Number of identifiers the block yields */
+  readonly size: number;
+  /** First identifier, or undefined for an empty block */
+  readonly first: string | undefined;
+  /** Last identifier, or undefined for an empty block */
+  readonly last: string | undefined;
+}
+
+const defaultIncrementer = createIncrementer();
+
+function createBlock(
+  start: string,
+  size: number,
+  incrementer: Incrementer
+): IdentifierBlock {
+  return {
+    size,
+    first: size > 0 ? start : undefined,
+    last: size > 0 ? incrementer.add(start, size - 1) : undefined,
+    *[Symbol.iterator]() {
+      for (let i = 0; i < size; i++) {
+        yield incrementer.add(start, i);
+      }
+    },
+  };
+}
+
+/**
+ * Every identifier from `start` to `end` inclusive, e.g. INV0001 through INV0500.
+ *
+ * Both ends must share a letter prefix; identifiers keep the digit length of
+ * `start`, expanding the same way `stringIncrement` does ('A9'..'A12' yields
+ * A9, A10, A11, A12). Zero padding of `end` does not count, as for `distance`:
+ * 'A1'..'A0001' is the single identifier A1.
+ *
+ * @example
+ * ```typescript
+ * const block = range('INV0001', 'INV0500');
+ * block.size;        // 500, without iterating
+ * [...block][1];     // 'INV0002'
+ * ```
+ *
+ * @param incrementer - Format and overflow rules to follow (defaults to `stringIncrement`'s)
+ * @throws IncrementError for invalid identifiers or differing prefixes (PREFIX_MISMATCH)
+ * @throws RangeError when `end` comes before `start`
+ */
+export function range(
+  start: string,
+  end: string,
+  incrementer: Incrementer = defaultIncrementer
+): IdentifierBlock {
+  const steps = incrementer.distance(start, end);
+  if (steps < 0) {
+    throw new RangeError(`Range end "${end}" comes before start "${start}"`);
+  }
+  return createBlock(start, steps + 1, incrementer);
+}
+
+/**
+ * The `count` identifiers starting at `start`, following the incrementer's
+ * overflow strategy (under the default `wrap`, take('A9998', 3) yields
+ * A9998, A9999, A0000).
+ *
+ * The whole block is checked before returning, so a strategy that cannot
+ * reach the last identifier fails here rather than part-way through iteration.
+ *
+ * @param incrementer - Format and overflow rules to follow (defaults to `stringIncrement`'s)
+ * @throws IncrementError for an invalid start or when the block overflows/underflows
+ * @throws RangeError when `count` is not a non-negative safe integer
+ */
+export function take(
+  start: string,
+  count: number,
+  incrementer: Incrementer = defaultIncrementer
+): IdentifierBlock {
+  if (!Number.isSafeInteger(count) || count < 0) {
+    throw new RangeError(
+      `Count must be a non-negative safe integer, got ${String(count)}`
+    );
+  }
+  // Validate the start even for an empty block
+  incrementer.add(start, 0);
+  return createBlock(start, count, incrementer);
+}
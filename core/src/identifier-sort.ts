@@ -0,0 +1,91 @@
+import {
+  createIncrementer,
+  IdentifierParts,
+  Incrementer,
+  IncrementResult,
+} from './identifier';
+
+const defaultIncrementer = createIncrementer();
+
+function compareValues<T extends string | number>(a: T, b: T): number {
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Order two parse results according to the policy documented on
+ * `compareIdentifiers`. `a`/`b` are the raw inputs, used for invalid entries.
+ */
+function compareParsed(
+  a: unknown,
+  parsedA: IncrementResult<IdentifierParts>,
+  b: unknown,
+  parsedB: IncrementResult<IdentifierParts>
+): number {
+  if (!parsedA.ok || !parsedB.ok) {
+    if (parsedA.ok !== parsedB.ok) {
+      // Valid identifiers sort before invalid entries
+      return parsedA.ok ? -1 : 1;
+    }
+    return compareValues(String(a), String(b));
+  }
+
+  const x = parsedA.value;
+  const y = parsedB.value;
+  return (
+    compareValues(x.prefix.toUpperCase(), y.prefix.toUpperCase()) ||
+    compareValues(x.number, y.number) ||
+    compareValues(x.width, y.width) ||
+    compareValues(x.prefix, y.prefix)
+  );
+}
+
+/**
+ * Natural-order comparator for identifiers in the `stringIncrement` grammar,
+ * suitable for `Array.prototype.sort`. Unlike plain string sorting it puts
+ * 'A9' before 'A10'.
+ *
+ * Ordering policy:
+ * 1. Prefixes compare case-insensitively ('fx' and 'FX' are one series), then
+ *    by numeric value, then by digit width ('A1' before 'A01').
+ * 2. Identifiers equal up to case are ordered upper case first ('FX1' before 'fx1'),
+ *    so the result is deterministic.
+ * 3. Invalid entries (including non-strings) sort after every valid identifier,
+ *    among themselves by plain string comparison.
+ *
+ * @example
+ * ```typescript
+ * ['A10', 'B1', 'A9'].sort(compareIdentifiers); // ['A9', 'A10', 'B1']
+ * ```
+ *
+ * @param incrementer - Grammar (and normalization) used to parse both sides
+ * @returns A negative number, zero or a positive number
+ */
+export function compareIdentifiers(
+  a: unknown,
+  b: unknown,
+  incrementer: Incrementer = defaultIncrementer
+): number {
+  return compareParsed(a, incrementer.tryParse(a), b, incrementer.tryParse(b));
+}
+
+/**
+ * Return a naturally sorted copy of `list` using the `compareIdentifiers`
+ * policy. Each entry is parsed once; the input array is not modified.
+ *
+ * @example
+ * ```typescript
+ * sortIdentifiers(['INV10', 'bad id', 'INV9', 'inv9']); // ['INV9', 'inv9', 'INV10', 'bad id']
+ * ```
+ */
+export function sortIdentifiers<T>(
+  list: readonly T[],
+  incrementer: Incrementer = defaultIncrementer
+): T[] {
+  return list
+    .map(item => ({ item, parsed: incrementer.tryParse(item) }))
+    .sort((a, b) => compareParsed(a.item, a.parsed, b.item, b.parsed))
+    .map(({ item }) => item);
+}
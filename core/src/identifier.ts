@@ -0,0 +1,899 @@
+/**
+ * What to do when incrementing pushes the digit run past `maxDigits`:
+ * - `wrap`: reset the digits to zeros, keeping the prefix (A9999 → A0000)
+ * - `carry`: reset the digits and carry 1 into the letters (A9999 → B0000,
+ *   ZZ9999 → AAA0000), failing once the prefix would exceed `maxLetters`
+ * - `grow`: keep counting with more digits (A9999 → A10000), up to `maxGrowDigits`
+ * - `throw`: reject the increment with an `OVERFLOW` failure
+ *
+ * Going below zero mirrors this: `wrap` continues from all nines
+ * (A0000 → A9999), `carry` borrows from the letters (B0000 → A9999) and
+ * `grow`/`throw` report `UNDERFLOW`.
+ */
+export type OverflowStrategy = 'wrap' | 'carry' | 'grow' | 'throw';
+
+/**
+ * Case applied to the prefix before validation: `preserve` keeps it as
+ * written, `upper`/`lower` fold it so 'fx001' and 'FX001' are one identifier
+ */
+export type CaseNormalization = 'preserve' | 'upper' | 'lower';
+
+/**
+ * Identifier format accepted by an incrementer: a run of letters followed by a
+ * run of digits, with inclusive bounds on the length of each run.
+ */
+export interface IncrementerSpec {
+  /** Minimum number of leading letters (at least 1) */
+  minLetters: number;
+  /** Maximum number of leading letters */
+  maxLetters: number;
+  /** Minimum number of trailing digits (at least 1) */
+  minDigits: number;
+  /** Maximum number of trailing digits; exceeding it on increment is an overflow */
+  maxDigits: number;
+  /** How an overflow past `maxDigits` is resolved (default `wrap`) */
+  overflow: OverflowStrategy;
+  /**
+   * Longest digit run the `grow` strategy may produce; inputs that already grew
+   * past `maxDigits` are accepted up to this length. Ignored by other strategies.
+   */
+  maxGrowDigits: number;
+  /** Strip leading/trailing whitespace before validating (default false) */
+  trim: boolean;
+  /** Case folding applied to the prefix (default `preserve`) */
+  case: CaseNormalization;
+  /**
+   * Accept any Unicode letter (e.g. Ä, É) in the prefix, not just A-Z/a-z.
+   * Inputs are NFC-normalized first and letters are counted as code points.
+   * Default false.
+   */
+  allowUnicodeLetters: boolean;
+}
+
+/**
+ * Reason an input was rejected; `OVERFLOW`/`UNDERFLOW` when a valid input
+ * cannot be moved that far under the configured strategy, and
+ * `PREFIX_MISMATCH` when two identifiers are not in the same series.
+ * `ID_IN_USE` is raised by `IdAllocator` when the next identifier was already issued.
+ * `position` on a failure points at the first offending character (0-based
+ * index into the original input) when one can be identified.
+ */
+export type IncrementErrorCode =
+  | 'NOT_A_STRING'
+  | 'EMPTY'
+  | 'INVALID_CHAR'
+  | 'MIXED_FORMAT'
+  | 'NO_LETTERS'
+  | 'NO_DIGITS'
+  | 'TOO_FEW_LETTERS'
+  | 'TOO_MANY_LETTERS'
+  | 'TOO_FEW_DIGITS'
+  | 'TOO_MANY_DIGITS'
+  | 'OVERFLOW'
+  | 'UNDERFLOW'
+  | 'PREFIX_MISMATCH'
+  | 'ID_IN_USE';
+
+export interface IncrementFailure {
+  ok: false;
+  code: IncrementErrorCode;
+  message: string;
+  position?: number;
+}
+
+export interface IncrementSuccess<T> {
+  ok: true;
+  value: T;
+}
+
+/**
+ * Outcome of a non-throwing operation: either the value or a typed failure
+ */
+export type IncrementResult<T = string> =
+  | IncrementSuccess<T>
+  | IncrementFailure;
+
+/**
+ * Error thrown by the throwing variants, carrying the same code and position
+ * as the corresponding `IncrementFailure`
+ */
+export class IncrementError extends Error {
+  readonly code: IncrementErrorCode;
+  readonly position: number | undefined;
+
+  constructor(failure: IncrementFailure) {
+    super(failure.message);
+    this.name = 'IncrementError';
+    this.code = failure.code;
+    this.position = failure.position;
+  }
+}
+
+/**
+ * Letter case of an identifier prefix; `mixed` covers anything that is
+ * neither all upper nor all lower case
+ */
+export type CaseStyle = 'upper' | 'lower' | 'mixed';
+
+/**
+ * Structure of a valid identifier such as 'FX001':
+ * `{ prefix: 'FX', number: 1, width: 3, caseStyle: 'upper' }`
+ */
+export interface IdentifierParts {
+  /** Letter prefix exactly as written */
+  prefix: string;
+  /** Numeric value of the digit run (leading zeros dropped) */
+  number: number;
+  /** Length of the digit run, including leading zeros */
+  width: number;
+  /** Case of the prefix */
+  caseStyle: CaseStyle;
+}
+
+/**
+ * Input to formatting. `caseStyle` is optional: `upper`/`lower` re-case the
+ * prefix, while `mixed` or omitting it keeps the prefix as written.
+ */
+export type FormatParts = Omit<IdentifierParts, 'caseStyle'> & {
+  caseStyle?: CaseStyle;
+};
+
+/**
+ * Incrementer bound to a single, validated identifier format
+ */
+export interface Incrementer {
+  /** The resolved format this incrementer accepts */
+  readonly spec: Readonly<IncrementerSpec>;
+  /** Increment the numeric postfix by 1, returning "Error" for invalid inputs */
+  increment(input: string): string;
+  /** Increment the numeric postfix by 1, describing why invalid inputs were rejected */
+  tryIncrement(input: unknown): IncrementResult;
+  /**
+   * Increment the numeric postfix by 1
+   * @throws IncrementError for invalid inputs
+   */
+  incrementOrThrow(input: unknown): string;
+  /** Decrement the numeric postfix by 1, describing why the input was rejected */
+  tryDecrement(input: unknown): IncrementResult;
+  /**
+   * Decrement the numeric postfix by 1
+   * @throws IncrementError for invalid inputs and underflow
+   */
+  decrement(input: unknown): string;
+  /** Move the numeric postfix by `n` (negative to go back), describing failures */
+  tryAdd(input: unknown, n: number): IncrementResult;
+  /**
+   * Move the numeric postfix by `n` (negative to go back)
+   * @throws IncrementError for invalid inputs, overflow and underflow
+   * @throws RangeError when `n` is not a safe integer
+   */
+  add(input: unknown, n: number): string;
+  /**
+   * Number of steps from `from` to `to` within one prefix, describing failures.
+   * Only the numbers count, not their zero padding: 'A1' and 'A0001' are 0 apart.
+   */
+  tryDistance(from: unknown, to: unknown): IncrementResult<number>;
+  /**
+   * Number of steps from `from` to `to` within one prefix (negative when `to` is first),
+   * ignoring zero padding as `tryDistance` does
+   * @throws IncrementError for invalid inputs or differing prefixes
+   */
+  distance(from: unknown, to: unknown): number;
+  /** Split an identifier into its parts, describing why invalid inputs were rejected */
+  tryParse(input: unknown): IncrementResult<IdentifierParts>;
+  /**
+   * Split an identifier into its parts
+   * @throws IncrementError for invalid inputs
+   */
+  parse(input: unknown): IdentifierParts;
+  /**
+   * Render parts as an identifier, describing why the result would be invalid
+   * @throws RangeError when `number` or `width` is not a usable integer
+   */
+  tryFormat(parts: FormatParts): IncrementResult;
+  /**
+   * Render parts as an identifier; `format(parse(id)) === id` for every valid `id`
+   * @throws IncrementError when the rendered identifier is invalid in this format
+   * @throws RangeError when `number` or `width` is not a usable integer
+   */
+  format(parts: FormatParts): string;
+}
+
+/**
+ * Largest digit run the numeric postfix can hold without losing precision
+ * (Number.MAX_SAFE_INTEGER has 16 digits, so 15 nines always fit).
+ */
+export const MAX_SUPPORTED_DIGITS = 15;
+
+/**
+ * Format used by `stringIncrement`: 1-4 letters followed by 1-4 digits,
+ * wrapping to zeros on overflow, with no input normalization
+ */
+export const DEFAULT_INCREMENTER_SPEC: Readonly<IncrementerSpec> =
+  Object.freeze({
+    minLetters: 1,
+    maxLetters: 4,
+    minDigits: 1,
+    maxDigits: 4,
+    overflow: 'wrap',
+    maxGrowDigits: MAX_SUPPORTED_DIGITS,
+    trim: false,
+    case: 'preserve',
+    allowUnicodeLetters: false,
+  });
+
+const OVERFLOW_STRATEGIES: readonly OverflowStrategy[] = [
+  'wrap',
+  'carry',
+  'grow',
+  'throw',
+];
+
+const CASE_NORMALIZATIONS: readonly CaseNormalization[] = [
+  'preserve',
+  'upper',
+  'lower',
+];
+
+/**
+ * Check a spec for values that cannot describe any identifier and build the
+ * fully-populated spec the incrementer will use.
+ *
+ * @throws RangeError describing the first contradictory or out-of-range field
+ */
+function resolveSpec(spec: Partial<IncrementerSpec>): IncrementerSpec {
+  const resolved: IncrementerSpec = { ...DEFAULT_INCREMENTER_SPEC, ...spec };
+  const fields = [
+    'minLetters',
+    'maxLetters',
+    'minDigits',
+    'maxDigits',
+    'maxGrowDigits',
+  ] as const;
+
+  for (const field of fields) {
+    const value = resolved[field];
+    if (!Number.isInteger(value) || value < 1) {
+      throw new RangeError(
+        `Invalid incrementer spec: ${field} must be a positive integer, got ${String(value)}`
+      );
+    }
+  }
+
+  if (resolved.minLetters > resolved.maxLetters) {
+    throw new RangeError(
+      `Invalid incrementer spec: minLetters (${resolved.minLetters}) is greater than maxLetters (${resolved.maxLetters})`
+    );
+  }
+  if (resolved.minDigits > resolved.maxDigits) {
+    throw new RangeError(
+      `Invalid incrementer spec: minDigits (${resolved.minDigits}) is greater than maxDigits (${resolved.maxDigits})`
+    );
+  }
+  if (resolved.maxDigits > MAX_SUPPORTED_DIGITS) {
+    throw new RangeError(
+      `Invalid incrementer spec: maxDigits (${resolved.maxDigits}) exceeds the supported maximum of ${MAX_SUPPORTED_DIGITS}`
+    );
+  }
+  if (!OVERFLOW_STRATEGIES.includes(resolved.overflow)) {
+    throw new RangeError(
+      `Invalid incrementer spec: overflow must be one of ${OVERFLOW_STRATEGIES.join(', ')}, got ${String(resolved.overflow)}`
+    );
+  }
+  if (
+    resolved.maxGrowDigits < resolved.maxDigits ||
+    resolved.maxGrowDigits > MAX_SUPPORTED_DIGITS
+  ) {
+    throw new RangeError(
+      `Invalid incrementer spec: maxGrowDigits (${resolved.maxGrowDigits}) must be between maxDigits (${resolved.maxDigits}) and ${MAX_SUPPORTED_DIGITS}`
+    );
+  }
+  if (!CASE_NORMALIZATIONS.includes(resolved.case)) {
+    throw new RangeError(
+      `Invalid incrementer spec: case must be one of ${CASE_NORMALIZATIONS.join(', ')}, got ${String(resolved.case)}`
+    );
+  }
+  for (const field of ['trim', 'allowUnicodeLetters'] as const) {
+    if (typeof resolved[field] !== 'boolean') {
+      throw new RangeError(
+        `Invalid incrementer spec: ${field} must be a boolean, got ${String(resolved[field])}`
+      );
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Longest digit run accepted as input; only `grow` lets it exceed `maxDigits`
+ */
+function acceptedMaxDigits(spec: IncrementerSpec): number {
+  return spec.overflow === 'grow' ? spec.maxGrowDigits : spec.maxDigits;
+}
+
+/**
+ * Read a letter prefix as a bijective base-26 number (A = 1, Z = 26, AA = 27),
+ * so that carrying out of Z..Z adds a letter instead of a leading "zero".
+ */
+function lettersToNumber(letters: string): bigint {
+  let value = 0n;
+  for (const char of letters.toUpperCase()) {
+    value = value * 26n + BigInt(char.charCodeAt(0) - 64);
+  }
+  return value;
+}
+
+/**
+ * Inverse of `lettersToNumber`, using the case of `template` aligned from the
+ * right; letters added on the left take the case of the template's first letter.
+ */
+function numberToLetters(value: bigint, template: string): string {
+  let letters = '';
+  let remaining = value;
+  let index = template.length - 1;
+  while (remaining > 0n) {
+    remaining -= 1n;
+    const upper = String.fromCharCode(65 + Number(remaining % 26n));
+    const caseSource = template.charAt(Math.max(index, 0));
+    letters =
+      (caseSource === caseSource.toLowerCase() ? upper.toLowerCase() : upper) +
+      letters;
+    remaining /= 26n;
+    index--;
+  }
+  return letters;
+}
+
+function caseStyleOf(prefix: string): CaseStyle {
+  if (prefix === prefix.toUpperCase()) {
+    return 'upper';
+  }
+  return prefix === prefix.toLowerCase() ? 'lower' : 'mixed';
+}
+
+function fail(
+  code: IncrementErrorCode,
+  message: string,
+  position?: number
+): IncrementFailure {
+  return position === undefined
+    ? { ok: false, code, message }
+    : { ok: false, code, message, position };
+}
+
+/**
+ * Return a successful result's value, throwing its failure as an IncrementError
+ */
+function unwrap<T>(result: IncrementResult<T>): T {
+  if (!result.ok) {
+    throw new IncrementError(result);
+  }
+  return result.value;
+}
+
+/**
+ * Work out why an input did not match the format regex. Checks run from the
+ * most to the least fundamental problem, so 'A-12345' reports the invalid
+ * character rather than the digit count.
+ *
+ * `input` is the normalized text; `offset` is the number of characters
+ * trimmed from its start, so positions point into the original input.
+ */
+function diagnose(
+  input: string,
+  spec: IncrementerSpec,
+  offset: number
+): IncrementFailure {
+  if (input.length === 0) {
+    return fail('EMPTY', 'Input is empty');
+  }
+
+  const unicode = spec.allowUnicodeLetters;
+  const invalidIndex = input.search(unicode ? /[^\p{L}\d]/u : /[^A-Za-z0-9]/);
+  if (invalidIndex !== -1) {
+    return fail(
+      'INVALID_CHAR',
+      `Invalid character "${input.charAt(invalidIndex)}" at position ${invalidIndex + offset}`,
+      invalidIndex + offset
+    );
+  }
+
+  const firstNonLetter = input.search(unicode ? /\P{L}/u : /[^A-Za-z]/);
+  const letterEnd = firstNonLetter === -1 ? input.length : firstNonLetter;
+  const letters = Array.from(input.slice(0, letterEnd));
+  const firstLetterAfterDigits = input.slice(letterEnd).search(/\D/);
+  const end =
+    firstLetterAfterDigits === -1
+      ? input.length
+      : letterEnd + firstLetterAfterDigits;
+  const digitCount = end - letterEnd;
+
+  if (letters.length === 0) {
+    return fail('NO_LETTERS', 'Input must start with a letter', offset);
+  }
+  if (digitCount === 0) {
+    return fail(
+      'NO_DIGITS',
+      'Input must end with at least one digit',
+      letterEnd + offset
+    );
+  }
+  if (end < input.length) {
+    return fail(
+      'MIXED_FORMAT',
+      `Unexpected letter "${input.charAt(end)}" after digits at position ${end + offset}`,
+      end + offset
+    );
+  }
+  if (letters.length > spec.maxLetters) {
+    return fail(
+      'TOO_MANY_LETTERS',
+      `Expected at most ${spec.maxLetters} letters, got ${letters.length}`,
+      letters.slice(0, spec.maxLetters).join('').length + offset
+    );
+  }
+  if (letters.length < spec.minLetters) {
+    return fail(
+      'TOO_FEW_LETTERS',
+      `Expected at least ${spec.minLetters} letters, got ${letters.length}`
+    );
+  }
+  const digitCapacity = acceptedMaxDigits(spec);
+  if (digitCount > digitCapacity) {
+    return fail(
+      'TOO_MANY_DIGITS',
+      `Expected at most ${digitCapacity} digits, got ${digitCount}`,
+      letterEnd + digitCapacity + offset
+    );
+  }
+  // Every other way of failing the regex has been ruled out above
+  return fail(
+    'TOO_FEW_DIGITS',
+    `Expected at least ${spec.minDigits} digits, got ${digitCount}`
+  );
+}
+
+/**
+ * Create an incrementer for a custom identifier format.
+ *
+ * Fields missing from `spec` fall back to `DEFAULT_INCREMENTER_SPEC`, so
+ * `createIncrementer()` behaves exactly like `stringIncrement`; set `overflow`
+ * to choose what happens when the digits run out (see `OverflowStrategy`).
+ * The format regex is compiled once here and reused by every call; it is only
+ * bypassed to diagnose inputs it rejects.
+ *
+ * @example
+ * ```typescript
+ * const invoices = createIncrementer({ minLetters: 3, maxLetters: 3, minDigits: 6, maxDigits: 6 });
+ * invoices.increment('INV000041'); // Returns 'INV000042'
+ * invoices.increment('INV41');     // Returns 'Error' (fewer than 6 digits)
+ * invoices.tryIncrement('INV41');  // Returns { ok: false, code: 'TOO_FEW_DIGITS', ... }
+ *
+ * const carrying = createIncrementer({ overflow: 'carry' });
+ * carrying.increment('A9999');     // Returns 'B0000'
+ *
+ * const imports = createIncrementer({ trim: true, case: 'upper' });
+ * imports.increment(' fx001 ');    // Returns 'FX002'
+ * ```
+ *
+ * @param spec - Letter and digit length bounds (all positive integers, min <= max),
+ *               the overflow strategy and opt-in input normalizations
+ * @throws RangeError when the spec is contradictory or out of range
+ */
+export function createIncrementer(
+  spec: Partial<IncrementerSpec> = {}
+): Incrementer {
+  const resolved = Object.freeze(resolveSpec(spec));
+  const { minLetters, maxLetters, minDigits, maxDigits, overflow } = resolved;
+
+  // Letters followed by digits, bounded by the spec (case insensitive)
+  // Whitespace is only trimmed when `trim` is set - otherwise it is an invalid character
+  const letterClass = resolved.allowUnicodeLetters ? '\\p{L}' : '[A-Za-z]';
+  const validFormatRegex = new RegExp(
+    `^(${letterClass}{${minLetters},${maxLetters}})(\\d{${minDigits},${acceptedMaxDigits(resolved)}})$`,
+    resolved.allowUnicodeLetters ? 'u' : ''
+  );
+
+  /**
+   * Apply the opt-in normalizations, returning the text to validate and how
+   * many characters were trimmed from its start
+   */
+  function normalize(input: string): { text: string; offset: number } {
+    let text = resolved.allowUnicodeLetters ? input.normalize('NFC') : input;
+    let offset = 0;
+
+    if (resolved.trim) {
+      const trimmedStart = text.trimStart();
+      offset = text.length - trimmedStart.length;
+      text = trimmedStart.trimEnd();
+    }
+    if (resolved.case === 'upper') {
+      text = text.toUpperCase();
+    } else if (resolved.case === 'lower') {
+      text = text.toLowerCase();
+    }
+
+    return { text, offset };
+  }
+
+  const modulus = 10n ** BigInt(maxDigits);
+
+  function tryParse(input: unknown): IncrementResult<IdentifierParts> {
+    if (typeof input !== 'string') {
+      return fail('NOT_A_STRING', `Expected a string, got ${typeof input}`);
+    }
+
+    const { text, offset } = normalize(input);
+    const match = validFormatRegex.exec(text);
+
+    // Explain the rejection if format doesn't match
+    if (!match?.[1] || !match[2]) {
+      return diagnose(text, resolved, offset);
+    }
+
+    const prefix = match[1];
+    const digitPart = match[2];
+
+    return {
+      ok: true,
+      value: {
+        prefix,
+        number: parseInt(digitPart, 10),
+        width: digitPart.length,
+        caseStyle: caseStyleOf(prefix),
+      },
+    };
+  }
+
+  function tryFormat(parts: FormatParts): IncrementResult {
+    const { number, width, caseStyle = 'mixed' } = parts;
+    if (!Number.isSafeInteger(number) || number < 0) {
+      throw new RangeError(
+        `Number must be a non-negative safe integer, got ${String(number)}`
+      );
+    }
+    if (!Number.isInteger(width) || width < 1) {
+      throw new RangeError(
+        `Width must be a positive integer, got ${String(width)}`
+      );
+    }
+
+    const prefix =
+      caseStyle === 'upper'
+        ? parts.prefix.toUpperCase()
+        : caseStyle === 'lower'
+          ? parts.prefix.toLowerCase()
+          : parts.prefix;
+
+    // Pad with leading zeros to the requested width; a number longer than the
+    // width keeps all of its digits (A9 → A10)
+    const identifier = prefix + number.toString().padStart(width, '0');
+
+    // The rendered identifier must itself be valid in this format, and is
+    // returned the way this format normalizes it
+    const parsed = tryParse(identifier);
+    return parsed.ok ? { ok: true, value: normalize(identifier).text } : parsed;
+  }
+
+  function boundaryFailure(
+    code: 'OVERFLOW' | 'UNDERFLOW',
+    parts: IdentifierParts,
+    n: number
+  ): IncrementFailure {
+    const input =
+      parts.prefix + parts.number.toString().padStart(parts.width, '0');
+    const step = n < 0 ? `- ${-n}` : `+ ${n}`;
+    return fail(
+      code,
+      `"${input}" ${step} ${code === 'OVERFLOW' ? 'overflows' : 'underflows'} the identifier format (overflow: ${overflow})`
+    );
+  }
+
+  /**
+   * Resolve a move whose digit run no longer fits in maxDigits or went below zero
+   */
+  function resolveOverflow(
+    parts: IdentifierParts,
+    n: number,
+    newNumber: bigint
+  ): IncrementResult {
+    const { prefix, width } = parts;
+    const underflow = newNumber < 0n;
+
+    switch (overflow) {
+      case 'wrap': {
+        // Continue around the 0..(10^maxDigits - 1) cycle. The original width is
+        // only a minimum, so wrapping down can widen the digits: A0 - 1 = A9999
+        const wrapped = ((newNumber % modulus) + modulus) % modulus;
+        return tryFormat({ prefix, number: Number(wrapped), width });
+      }
+      case 'grow': {
+        if (underflow) {
+          return boundaryFailure('UNDERFLOW', parts, n);
+        }
+        return newNumber.toString().length <= resolved.maxGrowDigits
+          ? tryFormat({ prefix, number: Number(newNumber), width })
+          : boundaryFailure('OVERFLOW', parts, n);
+      }
+      case 'carry': {
+        if (/[^A-Za-z]/.test(prefix)) {
+          return fail(
+            'OVERFLOW',
+            `Cannot carry into prefix "${prefix}": only A-Z letters can be carried`
+          );
+        }
+        // Treat letters and digits as one mixed-radix number: A9999 + 1 = B0000
+        const total = lettersToNumber(prefix) * modulus + newNumber;
+        if (total < modulus) {
+          return boundaryFailure('UNDERFLOW', parts, n);
+        }
+        const newPrefix = numberToLetters(total / modulus, prefix);
+        if (newPrefix.length > maxLetters) {
+          return boundaryFailure('OVERFLOW', parts, n);
+        }
+        if (newPrefix.length < minLetters) {
+          return boundaryFailure('UNDERFLOW', parts, n);
+        }
+        return tryFormat({
+          prefix: newPrefix,
+          number: Number(total % modulus),
+          width,
+        });
+      }
+      case 'throw':
+        return boundaryFailure(underflow ? 'UNDERFLOW' : 'OVERFLOW', parts, n);
+    }
+  }
+
+  function tryAdd(input: unknown, n: number): IncrementResult {
+    if (!Number.isSafeInteger(n)) {
+      throw new RangeError(`Step must be a safe integer, got ${String(n)}`);
+    }
+
+    const parsed = tryParse(input);
+    if (!parsed.ok) {
+      return parsed;
+    }
+
+    const { prefix, number, width } = parsed.value;
+    const newNumber = BigInt(number) + BigInt(n);
+
+    if (newNumber < 0n || newNumber >= modulus) {
+      return resolveOverflow(parsed.value, n, newNumber);
+    }
+
+    // Same prefix, same padding width; formatting expands it when needed
+    return tryFormat({ prefix, number: Number(newNumber), width });
+  }
+
+  function tryDistance(from: unknown, to: unknown): IncrementResult<number> {
+    const start = tryParse(from);
+    if (!start.ok) {
+      return start;
+    }
+    const end = tryParse(to);
+    if (!end.ok) {
+      return end;
+    }
+
+    if (start.value.prefix !== end.value.prefix) {
+      return fail(
+        'PREFIX_MISMATCH',
+        `Prefixes differ: "${start.value.prefix}" and "${end.value.prefix}"`
+      );
+    }
+
+    // Padding width is deliberately ignored: identifiers are positions by number
+    return { ok: true, value: end.value.number - start.value.number };
+  }
+
+  function tryIncrement(input: unknown): IncrementResult {
+    return tryAdd(input, 1);
+  }
+
+  function tryDecrement(input: unknown): IncrementResult {
+    return tryAdd(input, -1);
+  }
+
+  function increment(input: string): string {
+    const result = tryIncrement(input);
+    return result.ok ? result.value : 'Error';
+  }
+
+  return {
+    spec: resolved,
+    increment,
+    tryIncrement,
+    incrementOrThrow: input => unwrap(tryIncrement(input)),
+    tryDecrement,
+    decrement: input => unwrap(tryDecrement(input)),
+    tryAdd,
+    add: (input, n) => unwrap(tryAdd(input, n)),
+    tryDistance,
+    distance: (from, to) => unwrap(tryDistance(from, to)),
+    tryParse,
+    parse: input => unwrap(tryParse(input)),
+    tryFormat,
+    format: parts => unwrap(tryFormat(parts)),
+  };
+}
+
+const defaultIncrementer = createIncrementer();
+
+/**
+ * String Increment Function
+ *
+ * This function implements a string increment algorithm that takes strings in the format
+ * A...A1...1 (1-4 letters followed by 1-4 digits) and increments the numeric postfix by 1.
+ * It is the default preset of `createIncrementer` (see `DEFAULT_INCREMENTER_SPEC`); use the
+ * factory directly for other letter/digit lengths. Internally the input is split with
+ * `parseIdentifier`, the number moved, and the result rendered with `formatIdentifier`.
+ *
+ * DESIGN CONSIDERATIONS:
+ * - Case Handling: The function preserves the original case of input letters. Case
+ *   normalization (e.g., converting to uppercase) is available as an opt-in through
+ *   `createIncrementer({ case: 'upper' })`.
+ * - Whitespace Handling: The function does not trim whitespace from input strings, treating
+ *   leading/trailing spaces as invalid characters. Trimming is available as an opt-in
+ *   through `createIncrementer({ trim: true })`, for inputs such as CSV cells.
+ * - Letters: Only A-Z/a-z are accepted; `createIncrementer({ allowUnicodeLetters: true })`
+ *   also accepts letters such as Ä or É.
+ *
+ * @example
+ * ```typescript
+ * stringIncrement('FX001'); // Returns 'FX002'
+ * stringIncrement('ZZ100'); // Returns 'ZZ101'
+ * stringIncrement('A9');    // Returns 'A10'
+ * stringIncrement('A9999'); // Returns 'A0000' (overflow resets to zeros)
+ * stringIncrement('ABC');   // Returns 'Error' (invalid format)
+ * stringIncrement('fx001'); // Returns 'fx002' (preserves original case)
+ * ```
+ *
+ * @param input - String in format A...A1...1 where:
+ *                - A can be any letter A-Z (case insensitive matching, preserves original case)
+ *                - At least 1 letter, up to 4 letters maximum
+ *                - 1 can be any digit 0-9
+ *                - At least 1 digit, up to 4 digits maximum
+ *
+ * @returns The incremented string (preserving original case) or "Error" for invalid inputs.
+ *          Kept for compatibility; `tryStringIncrement` reports why an input was rejected.
+ *
+ * Algorithm Specification:
+ * - Valid input format: 1-4 letters followed by 1-4 digits
+ * - Case insensitive input validation (preserves original case in output)
+ * - Increments numeric postfix by 1
+ * - On overflow (exceeds 4 digits), resets numeric postfix to all zeros
+ *   (the `wrap` strategy; `createIncrementer` offers `carry`, `grow` and `throw`)
+ * - Returns "Error" for any invalid input format
+ *
+ * Valid Examples:
+ * - 'A1' → 'A2'
+ * - 'FX001' → 'FX002'
+ * - 'ZZ100' → 'ZZ101'
+ * - 'ABCD9999' → 'ABCD0000' (overflow)
+ * - 'abc123' → 'abc124' (case preserved)
+ *
+ * Invalid Examples (return "Error"):
+ * - '123' (no letters)
+ * - 'ABC' (no digits)
+ * - 'ABCDE1' (too many letters)
+ * - 'A12345' (too many digits)
+ * - 'A1B2' (letters and digits mixed)
+ * - 'A-1' (special characters)
+ */
+export function stringIncrement(input: string): string {
+  return defaultIncrementer.increment(input);
+}
+
+/**
+ * Typed variant of `stringIncrement`: returns `{ ok: true, value }` on success
+ * and `{ ok: false, code, message, position? }` instead of the "Error" string.
+ *
+ * @example
+ * ```typescript
+ * tryStringIncrement('FX001');  // Returns { ok: true, value: 'FX002' }
+ * tryStringIncrement('ABCDE1'); // Returns { ok: false, code: 'TOO_MANY_LETTERS', position: 4, ... }
+ * tryStringIncrement(' A1');    // Returns { ok: false, code: 'INVALID_CHAR', position: 0, ... }
+ * ```
+ */
+export function tryStringIncrement(input: unknown): IncrementResult {
+  return defaultIncrementer.tryIncrement(input);
+}
+
+/**
+ * Throwing variant of `stringIncrement`
+ *
+ * @throws IncrementError with the failure code and position for invalid inputs
+ */
+export function stringIncrementOrThrow(input: unknown): string {
+  return defaultIncrementer.incrementOrThrow(input);
+}
+
+/**
+ * Decrement the numeric postfix of a `stringIncrement`-format identifier,
+ * preserving its digit length ('FX002' → 'FX001', 'A010' → 'A009').
+ *
+ * @throws IncrementError for invalid inputs and on underflow ('A0000' wraps to
+ *         'A9999' under the default strategy, so only custom strategies underflow)
+ */
+export function decrement(input: unknown): string {
+  return defaultIncrementer.decrement(input);
+}
+
+/**
+ * Move the numeric postfix of a `stringIncrement`-format identifier by `n`
+ * ('FX001' + 250 → 'FX251'), with the same padding and overflow rules.
+ *
+ * @throws IncrementError for invalid inputs
+ * @throws RangeError when `n` is not a safe integer
+ */
+export function add(input: unknown, n: number): string {
+  return defaultIncrementer.add(input, n);
+}
+
+/**
+ * Number of steps from `from` to `to`, which must share a letter prefix
+ * (distance('FX001', 'FX251') === 250). Zero padding does not count, so
+ * distance('A1', 'A0001') === 0 even though each keeps its own width under `add`.
+ *
+ * @throws IncrementError for invalid inputs or a PREFIX_MISMATCH
+ */
+export function distance(from: unknown, to: unknown): number {
+  return defaultIncrementer.distance(from, to);
+}
+
+/** Non-throwing variant of `decrement` */
+export function tryDecrement(input: unknown): IncrementResult {
+  return defaultIncrementer.tryDecrement(input);
+}
+
+/** Non-throwing variant of `add`; still throws RangeError for a non-integer `n` */
+export function tryAdd(input: unknown, n: number): IncrementResult {
+  return defaultIncrementer.tryAdd(input, n);
+}
+
+/** Non-throwing variant of `distance` */
+export function tryDistance(
+  from: unknown,
+  to: unknown
+): IncrementResult<number> {
+  return defaultIncrementer.tryDistance(from, to);
+}
+
+/**
+ * Split a `stringIncrement`-format identifier into its structure.
+ *
+ * @example
+ * ```typescript
+ * parseIdentifier('FX001'); // Returns { prefix: 'FX', number: 1, width: 3, caseStyle: 'upper' }
+ * parseIdentifier('AbC12'); // Returns { prefix: 'AbC', number: 12, width: 2, caseStyle: 'mixed' }
+ * ```
+ *
+ * @throws IncrementError for invalid inputs
+ */
+export function parseIdentifier(input: unknown): IdentifierParts {
+  return defaultIncrementer.parse(input);
+}
+
+/**
+ * Render parts as a `stringIncrement`-format identifier, padding the number to
+ * `width`. Round-trips exactly: `formatIdentifier(parseIdentifier(id)) === id`.
+ *
+ * @throws IncrementError when the rendered identifier is invalid (e.g. TOO_MANY_DIGITS)
+ * @throws RangeError when `number` or `width` is not a usable integer
+ */
+export function formatIdentifier(parts: FormatParts): string {
+  return defaultIncrementer.format(parts);
+}
+
+/** Non-throwing variant of `parseIdentifier` */
+export function tryParseIdentifier(
+  input: unknown
+): IncrementResult<IdentifierParts> {
+  return defaultIncrementer.tryParse(input);
+}
+
+/** Non-throwing variant of `formatIdentifier`; still throws RangeError for malformed numbers */
+export function tryFormatIdentifier(parts: FormatParts): IncrementResult {
+  return defaultIncrementer.tryFormat(parts);
+}
@@ -0,0 +1,13 @@
+/**
+ * Public surface of the shared core package
+ */
+export * from './types';
+export * from './identifier';
+export * from './identifier-range';
+export * from './identifier-sort';
+export * from './cell-address';
+export * from './excel-date';
+export * from './excel-serial';
+export * from './date-window';
+export * from './clock';
+export * from './date-functions';
@@ -0,0 +1,16 @@
+/**
+ * Shapes shared by the Jest and Playwright projects
+ */
+
+export interface DateValidationResult {
+  isValid: boolean;
+  expectedDate: string;
+  actualDate: string;
+  message: string;
+}
+
+export interface CellReference {
+  address: string;
+  row: number;
+  column: string;
+}
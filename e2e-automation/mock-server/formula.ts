@@ -0,0 +1,652 @@
+import {
+  Clock,
+  DATE_FUNCTIONS,
+  DateFunctionArg,
+  DateFunctionName,
+  dateToSerial,
+  expectedDateFunctionValue,
+  MAX_SERIAL,
+  parseAddress,
+  rangeAddresses,
+  serialToParts,
+  tryParseExcelDate
+} from '../../core';
+
+/**
+ * Formula engine of the Excel Online mock: a parser and evaluator for the
+ * subset of Excel's formula language the E2E specs use. Anything outside the
+ * subset evaluates to #NAME?, as an unknown function does in Excel.
+ */
+
+export type ExcelErrorCode = '#DIV/0!' | '#VALUE!' | '#NAME?' | '#REF!' | '#NUM!' | '#N/A';
+
+/**
+ * An error value such as #DIV/0!. Thrown while evaluating and stored as the
+ * value of the cell, so it propagates through references like in Excel.
+ */
+export class ExcelError extends Error {
+  readonly code: ExcelErrorCode;
+
+  constructor(code: ExcelErrorCode) {
+    super(code);
+    this.name = 'ExcelError';
+    this.code = code;
+  }
+}
+
+/**
+ * Raised for formulas Excel refuses to enter ("There's a problem with this
+ * formula"), as opposed to formulas that evaluate to an error
+ */
+export class FormulaSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaSyntaxError';
+  }
+}
+
+/** null is an empty cell */
+export type CellValue = number | string | boolean | ExcelError | null;
+
+/** How the grid shows a number: as is, as a date, or as a date and time */
+export type NumberFormat = 'general' | 'date' | 'datetime';
+
+export interface Evaluation {
+  value: CellValue;
+  format: NumberFormat;
+}
+
+export interface FormulaContext {
+  /** The evaluated content of another cell, for references */
+  cell(address: string): Evaluation;
+  /** Source of TODAY() and NOW() */
+  clock: Clock;
+}
+
+export type Expression =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'ref'; address: string }
+  | { type: 'range'; from: string; to: string }
+  | { type: 'name'; name: string }
+  | { type: 'unary'; operator: '-' | '+' | '%'; operand: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression }
+  | { type: 'call'; name: string; args: Expression[] };
+
+type Token =
+  | { kind: 'number'; text: string }
+  | { kind: 'string'; text: string }
+  | { kind: 'word'; text: string }
+  | { kind: 'operator'; text: string };
+
+const TOKEN_PATTERN =
+  /\s*(?:(\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|"((?:[^"]|"")*)"|([A-Za-z_$][A-Za-z0-9_.$]*)|(<=|>=|<>|[-+*/^&%=<>(),:]))/y;
+const REFERENCE_PATTERN = /^\$?[A-Za-z]{1,3}\$?\d+$/;
+
+// Binary operators from loosest to tightest binding
+const PRECEDENCE: readonly (readonly string[])[] = [
+  ['=', '<>', '<', '>', '<=', '>='],
+  ['&'],
+  ['+', '-'],
+  ['*', '/'],
+  ['^']
+];
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < formula.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(formula);
+    if (!match) {
+      if (formula.slice(start).trim() === '') {
+        break;
+      }
+      throw new FormulaSyntaxError(`Unexpected "${formula.slice(start).trim()}" in formula`);
+    }
+    const [, number, text, word, operator] = match;
+    if (number !== undefined) {
+      tokens.push({ kind: 'number', text: number });
+    } else if (text !== undefined) {
+      tokens.push({ kind: 'string', text: text.replace(/""/g, '"') });
+    } else if (word !== undefined) {
+      tokens.push({ kind: 'word', text: word });
+    } else {
+      tokens.push({ kind: 'operator', text: operator as string });
+    }
+  }
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.binary(0);
+    const rest = this.tokens[this.position];
+    if (rest) {
+      throw new FormulaSyntaxError(`Unexpected "${rest.text}" in formula`);
+    }
+    return expression;
+  }
+
+  private peek(text: string): boolean {
+    const token = this.tokens[this.position];
+    return token?.kind === 'operator' && token.text === text;
+  }
+
+  private expect(text: string): void {
+    if (!this.peek(text)) {
+      throw new FormulaSyntaxError(`Expected "${text}" in formula`);
+    }
+    this.position++;
+  }
+
+  private binary(level: number): Expression {
+    const operators = PRECEDENCE[level];
+    if (!operators) {
+      return this.unary();
+    }
+    let left = this.binary(level + 1);
+    for (;;) {
+      const token = this.tokens[this.position];
+      if (token?.kind !== 'operator' || !operators.includes(token.text)) {
+        return left;
+      }
+      this.position++;
+      left = { type: 'binary', operator: token.text, left, right: this.binary(level + 1) };
+    }
+  }
+
+  // Negation binds tighter than ^ in Excel: -2^2 is 4
+  private unary(): Expression {
+    if (this.peek('-') || this.peek('+')) {
+      const operator = this.tokens[this.position++]?.text as '-' | '+';
+      return { type: 'unary', operator, operand: this.unary() };
+    }
+    let operand = this.primary();
+    while (this.peek('%')) {
+      this.position++;
+      operand = { type: 'unary', operator: '%', operand };
+    }
+    return operand;
+  }
+
+  private primary(): Expression {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new FormulaSyntaxError('Formula ends unexpectedly');
+    }
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'number', value: Number(token.text) };
+      case 'string':
+        return { type: 'string', value: token.text };
+      case 'operator':
+        if (token.text === '(') {
+          const inner = this.binary(0);
+          this.expect(')');
+          return inner;
+        }
+        throw new FormulaSyntaxError(`Unexpected "${token.text}" in formula`);
+      default:
+        return this.word(token.text);
+    }
+  }
+
+  private word(text: string): Expression {
+    if (this.peek('(')) {
+      this.position++;
+      const args: Expression[] = [];
+      if (!this.peek(')')) {
+        do {
+          args.push(this.binary(0));
+        } while (this.peek(',') && ++this.position);
+      }
+      this.expect(')');
+      return { type: 'call', name: text.toUpperCase(), args };
+    }
+
+    if (/^(TRUE|FALSE)$/i.test(text)) {
+      return { type: 'boolean', value: text.toUpperCase() === 'TRUE' };
+    }
+
+    if (REFERENCE_PATTERN.test(text)) {
+      const from = parseAddress(text).address;
+      if (this.peek(':')) {
+        this.position++;
+        const end = this.tokens[this.position++];
+        if (end?.kind !== 'word' || !REFERENCE_PATTERN.test(end.text)) {
+          throw new FormulaSyntaxError(`Invalid range after ${text}:`);
+        }
+        return { type: 'range', from, to: parseAddress(end.text).address };
+      }
+      return { type: 'ref', address: from };
+    }
+
+    return { type: 'name', name: text };
+  }
+}
+
+// Excel refuses a call with the wrong number of arguments when the formula
+// is entered; unknown functions are accepted and evaluate to #NAME?
+function checkArguments(expression: Expression): void {
+  switch (expression.type) {
+    case 'unary':
+      return checkArguments(expression.operand);
+    case 'binary':
+      checkArguments(expression.left);
+      return checkArguments(expression.right);
+    case 'call': {
+      const arity = (FUNCTIONS[expression.name] ?? DATE_FUNCTIONS[expression.name as DateFunctionName])?.arity;
+      const count = expression.args.length;
+      if (arity && (count < arity[0] || count > arity[1])) {
+        throw new FormulaSyntaxError(
+          `You've entered too ${count < arity[0] ? 'few' : 'many'} arguments for ${expression.name}`
+        );
+      }
+      return expression.args.forEach(checkArguments);
+    }
+  }
+}
+
+/**
+ * Parse formula text, with or without the leading "="
+ *
+ * @throws FormulaSyntaxError for text Excel would not accept as a formula
+ */
+export function parseFormula(formula: string): Expression {
+  const text = formula.trim().replace(/^=/, '');
+  if (text.trim() === '') {
+    throw new FormulaSyntaxError('Formula is empty');
+  }
+  try {
+    const expression = new Parser(tokenize(text)).parse();
+    checkArguments(expression);
+    return expression;
+  } catch (error) {
+    // Addresses past XFD1048576 are not references Excel accepts
+    if (error instanceof FormulaSyntaxError) {
+      throw error;
+    }
+    throw new FormulaSyntaxError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * How the grid's General format shows a number: up to ten significant
+ * digits, without trailing zeros
+ */
+export function formatGeneral(value: number): string {
+  const magnitude = Math.abs(value);
+  if (value !== 0 && (magnitude >= 1e11 || magnitude < 1e-9)) {
+    // Scientific notation with a two-digit exponent: 1.23456789E+11
+    const [mantissa = '', exponent = ''] = value.toExponential(9).split('e');
+    const sign = exponent.startsWith('-') ? '-' : '+';
+    return `${Number(mantissa)}E${sign}${exponent.replace(/^[+-]/, '').padStart(2, '0')}`;
+  }
+  return String(Number(value.toPrecision(10)));
+}
+
+function toNumber(value: CellValue): number {
+  if (value instanceof ExcelError) {
+    throw value;
+  }
+  if (value === null) {
+    return 0;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  // Text is read as a number or a date, as "1/1/2024"+1 is in Excel
+  const text = value.trim();
+  if (text !== '' && Number.isFinite(Number(text))) {
+    return Number(text);
+  }
+  const date = tryParseExcelDate(text, { locale: 'en-US' });
+  if (date.ok) {
+    return dateToSerial(date.date);
+  }
+  throw new ExcelError('#VALUE!');
+}
+
+function toText(value: CellValue): string {
+  if (value instanceof ExcelError) {
+    throw value;
+  }
+  if (value === null) {
+    return '';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  return typeof value === 'number' ? formatGeneral(value) : value;
+}
+
+function toBoolean(value: CellValue): boolean {
+  if (typeof value === 'string') {
+    if (/^(TRUE|FALSE)$/i.test(value.trim())) {
+      return value.trim().toUpperCase() === 'TRUE';
+    }
+    throw new ExcelError('#VALUE!');
+  }
+  return toNumber(value) !== 0;
+}
+
+// Excel orders numbers before text before logical values
+function compare(left: CellValue, right: CellValue): number {
+  const rank = (value: CellValue) =>
+    typeof value === 'number' ? 0 : typeof value === 'string' ? 1 : 2;
+  const fill = (value: CellValue, other: CellValue): CellValue =>
+    value !== null ? value : typeof other === 'string' ? '' : typeof other === 'boolean' ? false : 0;
+
+  if (left instanceof ExcelError) {
+    throw left;
+  }
+  if (right instanceof ExcelError) {
+    throw right;
+  }
+  const a = fill(left, right);
+  const b = fill(right, left);
+  if (rank(a) !== rank(b)) {
+    return rank(a) - rank(b);
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.toLowerCase().localeCompare(b.toLowerCase());
+  }
+  return Number(a) - Number(b);
+}
+
+type Arguments = readonly Expression[];
+
+class Evaluator {
+  constructor(private readonly context: FormulaContext) {}
+
+  evaluate(expression: Expression): Evaluation {
+    switch (expression.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return { value: expression.value, format: 'general' };
+      case 'ref':
+        return this.context.cell(expression.address);
+      case 'range':
+        // A range where one value is expected
+        throw new ExcelError('#VALUE!');
+      case 'name':
+        throw new ExcelError('#NAME?');
+      case 'unary':
+        return this.unary(expression.operator, expression.operand);
+      case 'binary':
+        return this.binary(expression.operator, expression.left, expression.right);
+      default:
+        return this.call(expression.name, expression.args);
+    }
+  }
+
+  private value(expression: Expression): CellValue {
+    return this.evaluate(expression).value;
+  }
+
+  private number(expression: Expression): number {
+    return toNumber(this.value(expression));
+  }
+
+  /** Values of a range, or of a single argument, for functions like SUM */
+  private values(expression: Expression): { values: CellValue[]; fromRange: boolean } {
+    if (expression.type === 'range') {
+      return {
+        values: rangeAddresses(`${expression.from}:${expression.to}`)
+          .flat()
+          .map(address => this.context.cell(address).value),
+        fromRange: true
+      };
+    }
+    return { values: [this.value(expression)], fromRange: false };
+  }
+
+  /** Numbers for SUM, AVERAGE, MIN, MAX: ranges skip text and empty cells */
+  private numbers(args: Arguments): number[] {
+    return args.flatMap(arg => {
+      const { values, fromRange } = this.values(arg);
+      return fromRange
+        ? values.filter((value): value is number | ExcelError => typeof value === 'number' || value instanceof ExcelError).map(toNumber)
+        : values.map(toNumber);
+    });
+  }
+
+  private unary(operator: '-' | '+' | '%', operand: Expression): Evaluation {
+    const { value, format } = this.evaluate(operand);
+    const number = toNumber(value);
+    if (operator === '+') {
+      return { value: number, format };
+    }
+    return { value: operator === '-' ? -number : number / 100, format: 'general' };
+  }
+
+  private binary(operator: string, left: Expression, right: Expression): Evaluation {
+    const a = this.evaluate(left);
+    const b = this.evaluate(right);
+
+    if (operator === '&') {
+      return { value: toText(a.value) + toText(b.value), format: 'general' };
+    }
+    if (PRECEDENCE[0]?.includes(operator)) {
+      const order = compare(a.value, b.value);
+      const results: Record<string, boolean> = {
+        '=': order === 0,
+        '<>': order !== 0,
+        '<': order < 0,
+        '>': order > 0,
+        '<=': order <= 0,
+        '>=': order >= 0
+      };
+      return { value: results[operator] ?? false, format: 'general' };
+    }
+
+    const x = toNumber(a.value);
+    const y = toNumber(b.value);
+    switch (operator) {
+      case '+':
+        // A date plus days is a date
+        return { value: x + y, format: a.format !== 'general' ? a.format : b.format };
+      case '-':
+        // A date minus a date is a number of days
+        return { value: x - y, format: b.format === 'general' ? a.format : 'general' };
+      case '*':
+        return { value: x * y, format: 'general' };
+      case '/':
+        if (y === 0) {
+          throw new ExcelError('#DIV/0!');
+        }
+        return { value: x / y, format: 'general' };
+      default: {
+        const power = Math.pow(x, y);
+        if (!Number.isFinite(power)) {
+          throw new ExcelError(x === 0 ? '#DIV/0!' : '#NUM!');
+        }
+        return { value: power, format: 'general' };
+      }
+    }
+  }
+
+  private call(name: string, args: Arguments): Evaluation {
+    if (Object.prototype.hasOwnProperty.call(DATE_FUNCTIONS, name)) {
+      return this.dateFunction(name as DateFunctionName, args);
+    }
+    const fn = FUNCTIONS[name];
+    if (!fn) {
+      throw new ExcelError('#NAME?');
+    }
+    const result = fn.evaluate(args, this.api);
+    return typeof result === 'object' && result !== null && !(result instanceof ExcelError)
+      ? result
+      : { value: result, format: 'general' };
+  }
+
+  // The date functions share their rules with the expected-value catalogue
+  private dateFunction(name: DateFunctionName, args: Arguments): Evaluation {
+    const fn = DATE_FUNCTIONS[name];
+    const values: DateFunctionArg[] = args.map((arg, index) => {
+      if (name === 'DATEDIF' && index === 2) {
+        return toText(this.value(arg));
+      }
+      if (name === 'NETWORKDAYS' && index === 2) {
+        return this.numbers([arg]);
+      }
+      return this.number(arg);
+    });
+    const expected = expectedDateFunctionValue(name, values, {
+      clock: this.context.clock,
+      toleranceMs: 0
+    });
+    if ('error' in expected) {
+      throw new ExcelError(expected.error);
+    }
+    if (fn.resultType === 'date' && (expected.min < 0 || Math.floor(expected.min) > MAX_SERIAL['1900'])) {
+      throw new ExcelError('#NUM!');
+    }
+    const format = name === 'NOW' ? 'datetime' : fn.resultType === 'date' ? 'date' : 'general';
+    return { value: expected.min, format };
+  }
+
+  // Exposed to the function table below
+  readonly api = {
+    evaluate: (expression: Expression) => this.evaluate(expression),
+    value: (expression: Expression) => this.value(expression),
+    number: (expression: Expression) => this.number(expression),
+    text: (expression: Expression) => toText(this.value(expression)),
+    boolean: (expression: Expression) => toBoolean(this.value(expression)),
+    numbers: (args: Arguments) => this.numbers(args),
+    values: (args: Arguments) => args.flatMap(arg => this.values(arg).values)
+  };
+}
+
+type EvaluatorApi = Evaluator['api'];
+
+interface FormulaFunction {
+  arity: readonly [number, number];
+  evaluate(args: Arguments, api: EvaluatorApi): CellValue | Evaluation;
+}
+
+const MANY = Number.MAX_SAFE_INTEGER;
+
+function simple(
+  arity: readonly [number, number],
+  evaluate: FormulaFunction['evaluate']
+): FormulaFunction {
+  return { arity, evaluate };
+}
+
+function datePart(part: 'year' | 'month' | 'day' | 'hours' | 'minutes') {
+  return simple([1, 1], ([date], api) => {
+    const serial = api.number(date as Expression);
+    // Before 1900-01-01 or after 9999-12-31, as Excel has no such dates
+    if (serial < 0 || Math.floor(serial) > MAX_SERIAL['1900']) {
+      throw new ExcelError('#NUM!');
+    }
+    return serialToParts(serial)[part];
+  });
+}
+
+// Excel rounds halves away from zero, and 2.675 counts as a half
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, Math.trunc(digits));
+  return (Math.sign(value) * Math.round(Math.abs(value) * factor + 1e-9)) / factor;
+}
+
+const FUNCTIONS: Readonly<Record<string, FormulaFunction>> = {
+  SUM: simple([1, MANY], (args, api) => api.numbers(args).reduce((sum, n) => sum + n, 0)),
+  AVERAGE: simple([1, MANY], (args, api) => {
+    const numbers = api.numbers(args);
+    if (numbers.length === 0) {
+      throw new ExcelError('#DIV/0!');
+    }
+    return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+  }),
+  MIN: simple([1, MANY], (args, api) => {
+    const numbers = api.numbers(args);
+    return numbers.length ? Math.min(...numbers) : 0;
+  }),
+  MAX: simple([1, MANY], (args, api) => {
+    const numbers = api.numbers(args);
+    return numbers.length ? Math.max(...numbers) : 0;
+  }),
+  COUNT: simple([1, MANY], (args, api) => api.values(args).filter(value => typeof value === 'number').length),
+  COUNTA: simple([1, MANY], (args, api) => api.values(args).filter(value => value !== null).length),
+  ROUND: simple([2, 2], ([value, digits], api) =>
+    round(api.number(value as Expression), api.number(digits as Expression))
+  ),
+  INT: simple([1, 1], ([value], api) => Math.floor(api.number(value as Expression))),
+  ABS: simple([1, 1], ([value], api) => Math.abs(api.number(value as Expression))),
+  MOD: simple([2, 2], ([value, divisor], api) => {
+    const x = api.number(value as Expression);
+    const y = api.number(divisor as Expression);
+    if (y === 0) {
+      throw new ExcelError('#DIV/0!');
+    }
+    // The result takes the sign of the divisor
+    return x - y * Math.floor(x / y);
+  }),
+  IF: simple([2, 3], ([condition, then, otherwise], api) => {
+    const branch = api.boolean(condition as Expression) ? then : otherwise;
+    return branch ? api.evaluate(branch) : false;
+  }),
+  IFERROR: simple([2, 2], ([value, fallback], api) => {
+    try {
+      const result = api.evaluate(value as Expression);
+      if (!(result.value instanceof ExcelError)) {
+        return result;
+      }
+    } catch (error) {
+      if (!(error instanceof ExcelError)) {
+        throw error;
+      }
+    }
+    return api.evaluate(fallback as Expression);
+  }),
+  AND: simple([1, MANY], (args, api) => args.every(arg => api.boolean(arg))),
+  OR: simple([1, MANY], (args, api) => args.some(arg => api.boolean(arg))),
+  NOT: simple([1, 1], ([value], api) => !api.boolean(value as Expression)),
+  LEN: simple([1, 1], ([value], api) => api.text(value as Expression).length),
+  UPPER: simple([1, 1], ([value], api) => api.text(value as Expression).toUpperCase()),
+  LOWER: simple([1, 1], ([value], api) => api.text(value as Expression).toLowerCase()),
+  TRIM: simple([1, 1], ([value], api) => api.text(value as Expression).trim().replace(/ {2,}/g, ' ')),
+  CONCAT: simple([1, MANY], (args, api) => api.values(args).map(toText).join('')),
+  CONCATENATE: simple([1, MANY], (args, api) => args.map(arg => api.text(arg)).join('')),
+  YEAR: datePart('year'),
+  MONTH: datePart('month'),
+  DAY: datePart('day'),
+  HOUR: datePart('hours'),
+  MINUTE: datePart('minutes')
+};
+
+/** Names of the functions the mock evaluates, date functions included */
+export const SUPPORTED_FUNCTIONS: readonly string[] = [...Object.keys(FUNCTIONS), ...Object.keys(DATE_FUNCTIONS)].sort();
+
+/**
+ * Evaluate a parsed formula. Excel errors become the value; anything else a
+ * formula cannot produce is a bug in the mock and is rethrown.
+ */
+export function evaluateExpression(expression: Expression, context: FormulaContext): Evaluation {
+  try {
+    const result = new Evaluator(context).evaluate(expression);
+    if (typeof result.value === 'number' && !Number.isFinite(result.value)) {
+      return { value: new ExcelError('#NUM!'), format: 'general' };
+    }
+    // A formula that points at an empty cell shows 0
+    return result.value === null ? { value: 0, format: result.format } : result;
+  } catch (error) {
+    if (error instanceof ExcelError) {
+      return { value: error, format: 'general' };
+    }
+    throw error;
+  }
+}
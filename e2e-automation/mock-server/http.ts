@@ -0,0 +1,90 @@
+import * as http from 'http';
+
+/**
+ * Request and response helpers shared by the mock's route handlers
+ */
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function send(
+  response: http.ServerResponse,
+  status: number,
+  body: string,
+  type: string,
+  headers: http.OutgoingHttpHeaders = {}
+): void {
+  response.writeHead(status, { 'Content-Type': `${type}; charset=utf-8`, 'Cache-Control': 'no-store', ...headers });
+  response.end(body);
+}
+
+export function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  send(response, status, JSON.stringify(body), 'application/json');
+}
+
+export function redirect(response: http.ServerResponse, location: string, headers: http.OutgoingHttpHeaders = {}): void {
+  response.writeHead(303, { Location: location, ...headers });
+  response.end();
+}
+
+async function readBody(request: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+export async function readJson(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const text = await readBody(request);
+  try {
+    const body: unknown = JSON.parse(text || '{}');
+    if (typeof body === 'object' && body !== null) {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, 'Request body must be a JSON object');
+}
+
+/** Fields of an HTML form post (application/x-www-form-urlencoded) */
+export async function readForm(request: http.IncomingMessage): Promise<URLSearchParams> {
+  return new URLSearchParams(await readBody(request));
+}
+
+/**
+ * decodeURIComponent for request input
+ *
+ * @throws HttpError 400 for malformed percent-encoding such as "%E0%A4%A"
+ */
+export function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, `Malformed percent-encoding in "${value}"`);
+  }
+}
+
+export function readCookies(request: http.IncomingMessage): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const pair of (request.headers.cookie ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      cookies.set(pair.slice(0, separator).trim(), decodeComponent(pair.slice(separator + 1).trim()));
+    }
+  }
+  return cookies;
+}
+
+/** Set-Cookie value for a cookie that lives as long as the browser context */
+export function cookie(name: string, value: string): string {
+  return `${name}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Lax`;
+}
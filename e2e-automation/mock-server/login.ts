@@ -0,0 +1,256 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { cookie, HttpError, readCookies, readForm, redirect, send } from './http';
+import {
+  emailPage,
+  passwordPage,
+  staySignedInPage,
+  tooManyRequestsPage,
+  verifyIdentityPage
+} from './pages';
+
+/**
+ * Sign-in simulator of the Excel Online mock. Walks through the Microsoft
+ * sign-in pages ExcelOnlinePageClean.login handles, following a scripted
+ * scenario so every branch of the login code can be exercised offline.
+ *
+ * Routes:
+ *   GET  /login?return=…[&expired=1]   account name
+ *   POST /login                        → password step
+ *   GET  /login/password               password
+ *   POST /login/password               → next step of the scenario
+ *   GET  /login/kmsi                   "Stay signed in?"
+ *   GET  /login/mfa                    verification code
+ *   GET  /login/throttled              "Too many requests" until enough reloads
+ */
+
+/**
+ * - normal: account name, password, signed in
+ * - kmsi: a "Stay signed in?" prompt after the password
+ * - wrong-password: every password is refused
+ * - mfa: a verification code is asked for after the password
+ * - throttled: "Too many requests" for a number of reloads after the password
+ * - session-expired: the first session expires straight away, so opening
+ *   Excel sends the user back to sign in once more
+ */
+export type LoginScenario = 'normal' | 'kmsi' | 'wrong-password' | 'mfa' | 'throttled' | 'session-expired';
+
+export const LOGIN_SCENARIOS: readonly LoginScenario[] = [
+  'normal',
+  'kmsi',
+  'wrong-password',
+  'mfa',
+  'throttled',
+  'session-expired'
+];
+
+export interface LoginScenarioSettings {
+  scenario: LoginScenario;
+  /** Reloads that still show "Too many requests" in the throttled scenario */
+  throttledReloads: number;
+}
+
+export const DEFAULT_THROTTLED_RELOADS = 3;
+
+/** Cookie that picks the scenario for one browser context */
+export const LOGIN_SCENARIO_COOKIE = 'mock-login-scenario';
+const SESSION_COOKIE = 'mock-session';
+const THROTTLE_COOKIE = 'mock-throttle-views';
+const EXPIRED_ONCE_COOKIE = 'mock-session-expired-once';
+
+export const WRONG_PASSWORD_MESSAGE =
+  "Your account or password is incorrect. If you don't remember your password, reset it now.";
+export const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please sign in again.';
+
+/**
+ * Read a scenario written as "<scenario>" or "throttled:<reloads>"
+ *
+ * @throws RangeError for unknown scenarios or a negative reload count
+ */
+export function parseLoginScenario(value: string): LoginScenarioSettings {
+  const [name = '', reloads] = value.trim().split(':');
+  const scenario = LOGIN_SCENARIOS.find(candidate => candidate === name);
+  if (!scenario) {
+    throw new RangeError(`Unknown login scenario "${value}"; expected one of ${LOGIN_SCENARIOS.join(', ')}`);
+  }
+  const throttledReloads = reloads === undefined ? DEFAULT_THROTTLED_RELOADS : Number(reloads);
+  if (!Number.isInteger(throttledReloads) || throttledReloads < 0) {
+    throw new RangeError(`Throttled reloads must be a non-negative integer, got "${reloads}"`);
+  }
+  return { scenario, throttledReloads };
+}
+
+/**
+ * The scenario cookie for a browser context, e.g. for `context.addCookies`
+ */
+export function loginScenarioCookie(
+  scenario: LoginScenario,
+  throttledReloads: number = DEFAULT_THROTTLED_RELOADS
+): { name: string; value: string } {
+  return {
+    name: LOGIN_SCENARIO_COOKIE,
+    value: scenario === 'throttled' ? `${scenario}:${throttledReloads}` : scenario
+  };
+}
+
+// Only same-site paths, so the return parameter cannot redirect elsewhere
+function returnPath(value: string | null): string {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/launch/excel';
+}
+
+export interface LoginSimulator {
+  /** Send a visitor without a valid session to the sign-in page; true when redirected */
+  requireSignIn(request: http.IncomingMessage, response: http.ServerResponse, url: URL): boolean;
+  /**
+   * Refuse API calls without a valid session
+   *
+   * @throws HttpError 401
+   */
+  requireSession(request: http.IncomingMessage): void;
+  /** Serve a /login route; false when the route is not one of them */
+  handle(request: http.IncomingMessage, response: http.ServerResponse, url: URL): Promise<boolean>;
+}
+
+/**
+ * @param defaults - Scenario for browsers without the scenario cookie
+ */
+export function createLoginSimulator(
+  defaults: LoginScenarioSettings = { scenario: 'normal', throttledReloads: DEFAULT_THROTTLED_RELOADS }
+): LoginSimulator {
+  const sessions = new Set<string>();
+
+  const settings = (request: http.IncomingMessage): LoginScenarioSettings => {
+    const value = readCookies(request).get(LOGIN_SCENARIO_COOKIE);
+    if (value === undefined) {
+      return defaults;
+    }
+    try {
+      return parseLoginScenario(value);
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+  };
+
+  const isSignedIn = (request: http.IncomingMessage): boolean => {
+    const session = readCookies(request).get(SESSION_COOKIE);
+    return session !== undefined && sessions.has(session);
+  };
+
+  // The session-expired scenario hands out one session that is never valid
+  const signIn = (request: http.IncomingMessage, response: http.ServerResponse, returnTo: string): void => {
+    const cookies = readCookies(request);
+    const session = randomUUID();
+    const headers = [cookie(SESSION_COOKIE, session)];
+    if (settings(request).scenario === 'session-expired' && !cookies.has(EXPIRED_ONCE_COOKIE)) {
+      headers.push(cookie(EXPIRED_ONCE_COOKIE, 'true'));
+    } else {
+      sessions.add(session);
+    }
+    redirect(response, returnTo, { 'Set-Cookie': headers });
+  };
+
+  const requireSignIn = (request: http.IncomingMessage, response: http.ServerResponse, url: URL): boolean => {
+    if (isSignedIn(request)) {
+      return false;
+    }
+    const login = new URL('/login', url);
+    login.searchParams.set('return', url.pathname + url.search);
+    if (readCookies(request).has(SESSION_COOKIE)) {
+      login.searchParams.set('expired', '1');
+    }
+    redirect(response, login.pathname + login.search);
+    return true;
+  };
+
+  const requireSession = (request: http.IncomingMessage): void => {
+    if (!isSignedIn(request)) {
+      throw new HttpError(401, 'Sign in to use the workbook API');
+    }
+  };
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse, url: URL): Promise<boolean> => {
+    const method = request.method ?? 'GET';
+    const route = `${method} ${url.pathname}`;
+    const query = url.searchParams;
+
+    switch (route) {
+      case 'GET /login':
+        send(
+          response,
+          200,
+          emailPage(returnPath(query.get('return')), query.has('expired') ? SESSION_EXPIRED_MESSAGE : ''),
+          'text/html'
+        );
+        return true;
+      case 'POST /login': {
+        const form = await readForm(request);
+        const next = new URLSearchParams({
+          username: form.get('loginfmt') ?? '',
+          return: returnPath(form.get('return'))
+        });
+        redirect(response, `/login/password?${next.toString()}`);
+        return true;
+      }
+      case 'GET /login/password':
+        send(response, 200, passwordPage(query.get('username') ?? '', returnPath(query.get('return'))), 'text/html');
+        return true;
+      case 'POST /login/password': {
+        const form = await readForm(request);
+        const username = form.get('loginfmt') ?? '';
+        const returnTo = returnPath(form.get('return'));
+        const { scenario } = settings(request);
+        const next = `?${new URLSearchParams({ return: returnTo }).toString()}`;
+
+        if (!form.get('passwd')) {
+          send(response, 200, passwordPage(username, returnTo, 'Please enter your password.'), 'text/html');
+        } else if (scenario === 'wrong-password') {
+          send(response, 200, passwordPage(username, returnTo, WRONG_PASSWORD_MESSAGE), 'text/html');
+        } else if (scenario === 'kmsi') {
+          redirect(response, `/login/kmsi${next}`);
+        } else if (scenario === 'mfa') {
+          redirect(response, `/login/mfa${next}`);
+        } else if (scenario === 'throttled') {
+          redirect(response, `/login/throttled${next}`, { 'Set-Cookie': cookie(THROTTLE_COOKIE, '0') });
+        } else {
+          signIn(request, response, returnTo);
+        }
+        return true;
+      }
+      case 'GET /login/kmsi':
+        send(response, 200, staySignedInPage(returnPath(query.get('return'))), 'text/html');
+        return true;
+      case 'POST /login/kmsi':
+        signIn(request, response, returnPath((await readForm(request)).get('return')));
+        return true;
+      case 'GET /login/mfa':
+        send(response, 200, verifyIdentityPage(returnPath(query.get('return'))), 'text/html');
+        return true;
+      case 'POST /login/mfa': {
+        const form = await readForm(request);
+        const returnTo = returnPath(form.get('return'));
+        if (/^\d{6}$/.test(form.get('otc') ?? '')) {
+          signIn(request, response, returnTo);
+        } else {
+          send(response, 200, verifyIdentityPage(returnTo, "That code didn't work. Check the code and try again."), 'text/html');
+        }
+        return true;
+      }
+      case 'GET /login/throttled': {
+        // The first view and the configured number of reloads are throttled
+        const views = Number(readCookies(request).get(THROTTLE_COOKIE) ?? 0) + 1;
+        if (views > settings(request).throttledReloads + 1) {
+          signIn(request, response, returnPath(query.get('return')));
+        } else {
+          send(response, 429, tooManyRequestsPage(), 'text/html', {
+            'Set-Cookie': cookie(THROTTLE_COOKIE, String(views))
+          });
+        }
+        return true;
+      }
+      default:
+        return false;
+    }
+  };
+
+  return { requireSignIn, requireSession, handle };
+}
@@ -0,0 +1,310 @@
+import { MAX_ROWS } from '../../core';
+
+/**
+ * HTML of the Excel Online mock. Only the parts the page objects rely on are
+ * reproduced: the Microsoft sign-in pages, the "Blank workbook" entry point,
+ * the WacFrame_Excel_0 iframe, the Name Box combobox, the formula bar and the
+ * active cell's textbox with its screen-reader label.
+ */
+
+const STYLE = `
+  body { font-family: 'Segoe UI', sans-serif; margin: 0; }
+  .bar { display: flex; gap: 8px; padding: 6px; border-bottom: 1px solid #d6d6d6; }
+  #name-box { width: 90px; }
+  #formula-bar { flex: 1; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #e1e1e1; min-width: 72px; height: 20px; padding: 0 4px; font-size: 13px; }
+  th { background: #f3f2f1; font-weight: normal; }
+  td.active { outline: 2px solid #107c41; }
+  textbox { display: block; }
+  [role="alert"] { color: #a4262c; padding: 6px; }
+  .sign-in { width: 440px; margin: 10vh auto; padding: 44px; box-shadow: 0 2px 6px rgba(0, 0, 0, 0.2); }
+`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function document(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+// Fields every sign-in step posts along, so the flow ends where it started
+function hiddenFields(fields: Record<string, string>): string {
+  return Object.entries(fields)
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`)
+    .join('\n  ');
+}
+
+function errorMessage(id: string, message: string): string {
+  return message && `<div id="${id}" role="alert">${escapeHtml(message)}</div>`;
+}
+
+function signInPage(title: string, body: string): string {
+  return document(
+    'Sign in to your account',
+    `<div class="sign-in">
+<div role="heading" aria-level="1">${title}</div>
+${body}
+</div>`
+  );
+}
+
+/**
+ * First sign-in step: the account name. `notice` is shown above the form,
+ * e.g. when an expired session sent the user back here.
+ */
+export function emailPage(returnTo: string, notice: string = ''): string {
+  return signInPage(
+    'Sign in',
+    `${notice && `<p id="loginHeaderNotice">${escapeHtml(notice)}</p>`}
+<form method="post" action="/login">
+  ${hiddenFields({ return: returnTo })}
+  <input type="email" name="loginfmt" id="i0116" aria-label="Enter your email, phone, or Skype." placeholder="Email, phone, or Skype">
+  <input type="submit" id="idSIButton9" value="Next">
+</form>`
+  );
+}
+
+export function passwordPage(username: string, returnTo: string, error: string = ''): string {
+  return signInPage(
+    'Enter password',
+    `<div id="displayName">${escapeHtml(username)}</div>
+${errorMessage('passwordError', error)}
+<form method="post" action="/login/password">
+  ${hiddenFields({ loginfmt: username, return: returnTo })}
+  <input type="password" name="passwd" id="i0118" aria-label="Enter the password for ${escapeHtml(username)}" placeholder="Password">
+  <input type="submit" id="idSIButton9" value="Sign in">
+</form>`
+  );
+}
+
+/**
+ * "Stay signed in?" (KMSI) prompt after the password
+ */
+export function staySignedInPage(returnTo: string): string {
+  return signInPage(
+    'Stay signed in?',
+    `<p>Do this to reduce the number of times you are asked to sign in.</p>
+<form method="post" action="/login/kmsi">
+  ${hiddenFields({ return: returnTo })}
+  <button type="submit" name="kmsi" value="no" id="idBtn_Back">No</button>
+  <button type="submit" name="kmsi" value="yes" id="idSIButton9">Yes</button>
+</form>`
+  );
+}
+
+/**
+ * Multi-factor challenge. Any six-digit code is accepted.
+ */
+export function verifyIdentityPage(returnTo: string, error: string = ''): string {
+  return signInPage(
+    'Verify your identity',
+    `<p id="idDiv_SAOTCC_Description">Enter the code displayed in the Microsoft Authenticator app on your mobile device</p>
+${errorMessage('idSpan_SAOTCC_Error_OTC', error)}
+<form method="post" action="/login/mfa">
+  ${hiddenFields({ return: returnTo })}
+  <input type="tel" name="otc" id="idTxtBx_SAOTCC_OTC" aria-label="Code" autocomplete="off">
+  <input type="submit" id="idSubmit_SAOTCC_Continue" value="Verify">
+</form>`
+  );
+}
+
+/**
+ * Throttling error Microsoft shows when an account signs in too often
+ */
+export function tooManyRequestsPage(): string {
+  return document(
+    'Too many requests',
+    `<div class="sign-in">
+<div role="heading" aria-level="1">Too many requests</div>
+<p>We've received too many requests from you. Please try again later.</p>
+</div>`
+  );
+}
+
+/**
+ * Start page at /launch/excel, where a signed-in user creates a workbook
+ */
+export function launchPage(): string {
+  return document(
+    'Microsoft Excel',
+    `<h1>Excel</h1>
+<form method="post" action="/excel/new">
+  <button type="submit" data-automation-id="new-blank-workbook" aria-label="Blank workbook">Blank workbook</button>
+</form>`
+  );
+}
+
+/**
+ * Host page of a workbook, embedding the grid like Excel Online does
+ */
+export function workbookPage(id: string): string {
+  return document(
+    'Book.xlsx',
+    `<iframe name="WacFrame_Excel_0" title="Excel" src="/excel/frame?id=${encodeURIComponent(id)}"
+  style="border: 0; width: 100%; height: 95vh"></iframe>`
+  );
+}
+
+/**
+ * The grid inside the iframe. Its script keeps no workbook state of its own:
+ * every commit goes to the server, which answers with all evaluated cells.
+ */
+export function excelFramePage(id: string): string {
+  return document(
+    'Excel',
+    `<div class="bar">
+  <input id="name-box" role="combobox" aria-label="Name Box" aria-expanded="false" value="A1" autocomplete="off">
+  <span aria-hidden="true">fx</span>
+  <input id="formula-bar" aria-label="formula bar" autocomplete="off">
+</div>
+<div id="alert" role="alert" hidden></div>
+<table id="grid" role="grid" aria-label="Sheet1"></table>
+<script>
+(function () {
+  var api = '/api/workbooks/' + encodeURIComponent(${JSON.stringify(id)});
+  var nameBox = document.getElementById('name-box');
+  var formulaBar = document.getElementById('formula-bar');
+  var alertBox = document.getElementById('alert');
+  var grid = document.getElementById('grid');
+  var cells = {};
+  var active = 'A1';
+
+  function letters(column) {
+    var text = '';
+    for (; column > 0; column = Math.floor((column - 1) / 26)) {
+      text = String.fromCharCode(65 + ((column - 1) % 26)) + text;
+    }
+    return text;
+  }
+
+  function split(address) {
+    var match = /^([A-Z]+)(\\d+)$/.exec(address);
+    var column = 0;
+    for (var i = 0; i < match[1].length; i++) {
+      column = column * 26 + match[1].charCodeAt(i) - 64;
+    }
+    return { column: column, row: Number(match[2]) };
+  }
+
+  function showAlert(message) {
+    alertBox.textContent = message;
+    alertBox.hidden = !message;
+  }
+
+  function render() {
+    var size = { column: 10, row: 20 };
+    Object.keys(cells).concat(active).forEach(function (address) {
+      var position = split(address);
+      size.column = Math.max(size.column, position.column);
+      size.row = Math.max(size.row, position.row);
+    });
+
+    var html = '<tr><th></th>';
+    for (var column = 1; column <= size.column; column++) {
+      html += '<th scope="col">' + letters(column) + '</th>';
+    }
+    html += '</tr>';
+    for (var row = 1; row <= size.row; row++) {
+      html += '<tr><th scope="row">' + row + '</th>';
+      for (column = 1; column <= size.column; column++) {
+        var address = letters(column) + row;
+        var cell = cells[address];
+        var display = cell ? escapeHtml(cell.display) : '';
+        html += address === active
+          ? '<td role="gridcell" class="active" data-address="' + address + '"><textbox role="textbox" tabindex="0" aria-label="' +
+            escapeHtml(cell ? cell.ariaLabel : address + ' .') + '">' + display + '</textbox></td>'
+          : '<td role="gridcell" data-address="' + address + '">' + display + '</td>';
+      }
+      html += '</tr>';
+    }
+    grid.innerHTML = html;
+  }
+
+  function escapeHtml(text) {
+    return String(text).replace(/[&<>"]/g, function (c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c];
+    });
+  }
+
+  function select(address) {
+    active = address;
+    nameBox.value = address;
+    formulaBar.value = cells[address] ? cells[address].input : '';
+    render();
+  }
+
+  function load(body) {
+    cells = {};
+    body.cells.forEach(function (cell) { cells[cell.address] = cell; });
+  }
+
+  function commit() {
+    fetch(api + '/cells/' + active, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ input: formulaBar.value })
+    }).then(function (response) {
+      return response.json().then(function (body) {
+        if (!response.ok) {
+          showAlert(body.message);
+          return;
+        }
+        showAlert('');
+        load(body);
+        // Enter moves down a row, as in Excel, and stays on the last one
+        var position = split(active);
+        select(letters(position.column) + Math.min(position.row + 1, ${MAX_ROWS}));
+      });
+    });
+  }
+
+  nameBox.addEventListener('keydown', function (event) {
+    if (event.key !== 'Enter') {
+      return;
+    }
+    event.preventDefault();
+    var address = nameBox.value.trim().toUpperCase().replace(/\\$/g, '');
+    if (/^[A-Z]{1,3}[1-9]\\d{0,6}$/.test(address)) {
+      showAlert('');
+      select(address);
+    } else {
+      showAlert('Enter a valid reference or type a name for the selection.');
+    }
+  });
+
+  formulaBar.addEventListener('keydown', function (event) {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      commit();
+    } else if (event.key === 'Escape') {
+      select(active);
+    }
+  });
+
+  grid.addEventListener('click', function (event) {
+    var cell = event.target.closest('td[data-address]');
+    if (cell) {
+      select(cell.getAttribute('data-address'));
+    }
+  });
+
+  fetch(api).then(function (response) { return response.json(); }).then(function (body) {
+    load(body);
+    select(active);
+  });
+})();
+</script>`
+  );
+}
@@ -0,0 +1,140 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { CellAddressError, Clock, systemClock } from '../../core';
+import { FormulaSyntaxError } from './formula';
+import { decodeComponent, HttpError, readJson, send, sendJson } from './http';
+import { createLoginSimulator, LoginScenarioSettings, parseLoginScenario } from './login';
+import { excelFramePage, launchPage, workbookPage } from './pages';
+import { MockWorkbook } from './workbook';
+
+/**
+ * Local stand-in for Excel Online, so the E2E suite can run without a
+ * Microsoft account or network access. Started by Playwright's webServer
+ * hook when the `mock` config switch is on (see config/README.md).
+ *
+ * Routes (until the browser has signed in, the pages redirect to the sign-in
+ * simulator in login.ts and the API answers 401):
+ *   GET  /launch/excel                  start page with "Blank workbook"
+ *   POST /excel/new                     create a workbook, redirect to it
+ *   GET  /excel/doc.aspx?id=…           workbook host page with the iframe
+ *   GET  /excel/frame?id=…              grid, Name Box and formula bar
+ *   GET  /api/workbooks/:id             all cells with content
+ *   GET  /api/workbooks/:id/cells/:a1   one cell
+ *   PUT  /api/workbooks/:id/cells/:a1   enter {"input": "=TODAY()"}
+ *   GET  /health                        readiness probe for webServer
+ */
+
+export const MOCK_EXCEL_PORT = Number(process.env['MOCK_EXCEL_PORT'] ?? 3000);
+export const MOCK_EXCEL_URL = `http://127.0.0.1:${MOCK_EXCEL_PORT}`;
+
+export interface MockExcelServerOptions {
+  /** Source of TODAY() and NOW() in every workbook (default: system time) */
+  clock?: Clock;
+  /** Sign-in scenario for browsers that do not pick one by cookie (default: normal) */
+  loginScenario?: LoginScenarioSettings;
+}
+
+const CELL_ROUTE = /^\/api\/workbooks\/([^/]+)(?:\/cells\/([^/]+))?$/;
+
+/**
+ * Create the mock server without starting it; call `listen` on the result.
+ * Workbooks live in memory for the lifetime of the server.
+ */
+export function createMockExcelServer(options: MockExcelServerOptions = {}): http.Server {
+  const clock = options.clock ?? systemClock;
+  const workbooks = new Map<string, MockWorkbook>();
+  const login = createLoginSimulator(options.loginScenario);
+
+  const findWorkbook = (id: string | null | undefined): MockWorkbook => {
+    const workbook = id ? workbooks.get(decodeComponent(id)) : undefined;
+    if (!workbook) {
+      throw new HttpError(404, `No workbook with id "${id ?? ''}"`);
+    }
+    return workbook;
+  };
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse): Promise<void> => {
+    const url = new URL(request.url ?? '/', MOCK_EXCEL_URL);
+    const method = request.method ?? 'GET';
+
+    if (method === 'GET' && url.pathname === '/health') {
+      return sendJson(response, 200, { status: 'ok' });
+    }
+    if (await login.handle(request, response, url)) {
+      return;
+    }
+    if (method === 'GET' && (url.pathname === '/' || url.pathname === '/launch/excel')) {
+      if (!login.requireSignIn(request, response, url)) {
+        send(response, 200, launchPage(), 'text/html');
+      }
+      return;
+    }
+    if (method === 'POST' && url.pathname === '/excel/new') {
+      // After signing in, start again from the page with "Blank workbook"
+      if (login.requireSignIn(request, response, new URL('/launch/excel', url))) {
+        return;
+      }
+      const workbook = new MockWorkbook(randomUUID(), clock);
+      workbooks.set(workbook.id, workbook);
+      response.writeHead(303, { Location: `/excel/doc.aspx?id=${workbook.id}&action=edit` });
+      response.end();
+      return;
+    }
+    if (method === 'GET' && url.pathname === '/excel/doc.aspx') {
+      if (!login.requireSignIn(request, response, url)) {
+        send(response, 200, workbookPage(findWorkbook(url.searchParams.get('id')).id), 'text/html');
+      }
+      return;
+    }
+    if (method === 'GET' && url.pathname === '/excel/frame') {
+      if (!login.requireSignIn(request, response, url)) {
+        send(response, 200, excelFramePage(findWorkbook(url.searchParams.get('id')).id), 'text/html');
+      }
+      return;
+    }
+
+    const route = CELL_ROUTE.exec(url.pathname);
+    if (route) {
+      login.requireSession(request);
+      const workbook = findWorkbook(route[1]);
+      const address = route[2] && decodeComponent(route[2]);
+      if (method === 'GET') {
+        return sendJson(response, 200, address ? workbook.getCell(address) : { cells: workbook.getCells() });
+      }
+      if (method === 'PUT' && address) {
+        const { input } = await readJson(request);
+        if (typeof input !== 'string') {
+          throw new HttpError(400, 'Expected {"input": "<value or formula>"}');
+        }
+        const cell = workbook.setCell(address, input);
+        // Every commit recalculates, so volatile cells are current
+        return sendJson(response, 200, { cell, cells: workbook.getCells() });
+      }
+    }
+
+    throw new HttpError(404, `${method} ${url.pathname} not found`);
+  };
+
+  return http.createServer((request, response) => {
+    handle(request, response).catch((error: unknown) => {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { message: error.message });
+      } else if (error instanceof FormulaSyntaxError) {
+        // Excel's wording when it refuses a formula, with the detail after it
+        sendJson(response, 400, { message: `There's a problem with this formula. ${error.message}` });
+      } else if (error instanceof CellAddressError) {
+        sendJson(response, 400, { message: error.message });
+      } else {
+        console.error('❌ Mock Excel request failed:', error);
+        sendJson(response, 500, { message: String(error) });
+      }
+    });
+  });
+}
+
+if (require.main === module) {
+  const loginScenario = parseLoginScenario(process.env['MOCK_LOGIN_SCENARIO'] ?? 'normal');
+  createMockExcelServer({ loginScenario }).listen(MOCK_EXCEL_PORT, '127.0.0.1', () => {
+    console.log(`🧪 Mock Excel Online listening on ${MOCK_EXCEL_URL}`);
+  });
+}
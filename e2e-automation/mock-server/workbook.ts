@@ -0,0 +1,200 @@
+import {
+  Clock,
+  dateToSerial,
+  formatExcelDate,
+  parseAddress,
+  serialToDate,
+  systemClock,
+  tryParseExcelDate
+} from '../../core';
+import {
+  CellValue,
+  evaluateExpression,
+  Evaluation,
+  ExcelError,
+  Expression,
+  formatGeneral,
+  NumberFormat,
+  parseFormula
+} from './formula';
+
+/** What kind of value a cell shows; dates are numbers with a date format */
+export type CellValueType = 'date' | 'number' | 'text' | 'boolean' | 'error' | 'empty';
+
+/**
+ * A cell as the mock's grid shows it
+ */
+export interface CellSnapshot {
+  address: string;
+  /** What was typed: the formula with its "=", or the constant */
+  input: string;
+  formula: string | null;
+  /** The value as the grid shows it, e.g. "8/22/2025" */
+  display: string;
+  valueType: CellValueType;
+  /**
+   * Label of the cell's textbox, as Excel Online reads it to screen readers:
+   * "8/22/2025 . A1 . Contains Formula ."
+   */
+  ariaLabel: string;
+}
+
+interface StoredCell {
+  input: string;
+  expression?: Expression;
+}
+
+/**
+ * Show a number the way Excel Online's en-US grid does for its format
+ */
+export function formatCellNumber(value: number, format: NumberFormat): string {
+  if (format === 'general') {
+    return formatGeneral(value);
+  }
+  let date: Date;
+  try {
+    date = serialToDate(value);
+  } catch {
+    // Negative serials and the fake 1900-02-29 have no date to show
+    return formatGeneral(value);
+  }
+  const day = formatExcelDate(date, { locale: 'en-US' });
+  if (format === 'date') {
+    return day;
+  }
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${day} ${date.getHours()}:${minutes}`;
+}
+
+/**
+ * Label Excel Online gives a cell's textbox: the shown value, the address
+ * and whether the cell holds a formula, each followed by " ."
+ */
+export function cellAriaLabel(address: string, display: string, hasFormula: boolean): string {
+  return [display, address, hasFormula ? 'Contains Formula' : '']
+    .filter(part => part !== '')
+    .map(part => `${part} .`)
+    .join(' ');
+}
+
+/**
+ * One sheet of a mock workbook. Formulas are evaluated on every read, so
+ * TODAY() and NOW() follow the clock and dependent cells are always current.
+ */
+export class MockWorkbook {
+  private readonly cells = new Map<string, StoredCell>();
+
+  constructor(
+    readonly id: string,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Enter a constant or a formula, as typing into the formula bar and
+   * pressing Enter does. An empty input clears the cell.
+   *
+   * @throws FormulaSyntaxError for formulas Excel would refuse
+   * @throws CellAddressError for invalid addresses
+   */
+  setCell(address: string, input: string): CellSnapshot {
+    const { address: normalized } = parseAddress(address);
+    if (input === '') {
+      this.cells.delete(normalized);
+    } else if (input.startsWith('=')) {
+      this.cells.set(normalized, { input, expression: parseFormula(input) });
+    } else {
+      this.cells.set(normalized, { input });
+    }
+    return this.getCell(normalized);
+  }
+
+  /**
+   * @throws CellAddressError for invalid addresses
+   */
+  getCell(address: string): CellSnapshot {
+    const { address: normalized } = parseAddress(address);
+    const stored = this.cells.get(normalized);
+    const { value, format } = this.evaluate(normalized, new Set());
+    const display =
+      value === null
+        ? ''
+        : value instanceof ExcelError
+          ? value.code
+          : typeof value === 'number'
+            ? formatCellNumber(value, format)
+            : typeof value === 'boolean'
+              ? String(value).toUpperCase()
+              : value;
+
+    return {
+      address: normalized,
+      input: stored?.input ?? '',
+      formula: stored?.expression ? stored.input : null,
+      display,
+      valueType: valueType(value, format),
+      ariaLabel: cellAriaLabel(normalized, display, stored?.expression !== undefined)
+    };
+  }
+
+  /** Every cell that has content, in the order it was first entered */
+  getCells(): CellSnapshot[] {
+    return [...this.cells.keys()].map(address => this.getCell(address));
+  }
+
+  private evaluate(address: string, visiting: Set<string>): Evaluation {
+    const stored = this.cells.get(address);
+    if (!stored) {
+      return { value: null, format: 'general' };
+    }
+    if (!stored.expression) {
+      return readConstant(stored.input);
+    }
+    // Excel warns about circular references and shows 0
+    if (visiting.has(address)) {
+      return { value: 0, format: 'general' };
+    }
+
+    visiting.add(address);
+    try {
+      return evaluateExpression(stored.expression, {
+        cell: other => this.evaluate(other, visiting),
+        clock: this.clock
+      });
+    } finally {
+      visiting.delete(address);
+    }
+  }
+}
+
+// Typed constants: an apostrophe forces text, dates typed in the en-US
+// format become date serials
+function readConstant(input: string): Evaluation {
+  if (input.startsWith("'")) {
+    return { value: input.slice(1), format: 'general' };
+  }
+  const text = input.trim();
+  if (/^(TRUE|FALSE)$/i.test(text)) {
+    return { value: text.toUpperCase() === 'TRUE', format: 'general' };
+  }
+  if (text !== '' && Number.isFinite(Number(text))) {
+    return { value: Number(text), format: 'general' };
+  }
+  const date = tryParseExcelDate(text, { locale: 'en-US' });
+  if (date.ok) {
+    return { value: dateToSerial(date.date), format: 'date' };
+  }
+  return { value: input, format: 'general' };
+}
+
+function valueType(value: CellValue, format: NumberFormat): CellValueType {
+  if (value === null) {
+    return 'empty';
+  }
+  if (value instanceof ExcelError) {
+    return 'error';
+  }
+  if (typeof value === 'number') {
+    return format === 'general' ? 'number' : 'date';
+  }
+  return typeof value === 'boolean' ? 'boolean' : 'text';
+}
@@ -1,4 +1,10 @@
 import { defineConfig, devices } from '@playwright/test';
+import { ConfigLoader } from './tests/helpers/config-loader';
+import { MOCK_EXCEL_URL } from './mock-server/server';
+import { STORAGE_STATE_PATH } from './tests/helpers/session-state';
+
+/* Run against the local Excel Online mock (config "mock": true or EXCEL_MOCK=true) */
+const mockExcel = ConfigLoader.getInstance().isMockExcel();
 
 /**
  * @see https://playwright.dev/docs/test-configuration
@@ -22,7 +28,7 @@ export default defineConfig({
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
-    baseURL: 'https://www.office.com',
+    baseURL: ConfigLoader.getInstance().getExcelBaseUrl(),
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
@@ -48,18 +54,22 @@ export default defineConfig({
         channel: 'chrome',
         // Set viewport for consistent testing
         viewport: { width: 1280, height: 720 },
+        // Start signed in with the session global-setup.ts stored
+        storageState: STORAGE_STATE_PATH,
         // Enable permissions for file downloads if needed
         // permissions: ['downloads'], // Commented out as 'downloads' is not a valid permission
       },
     },
   ],
 
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://127.0.0.1:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  /* Start the local Excel Online mock before the tests when it is switched on */
+  ...(mockExcel && {
+    webServer: {
+      command: 'npm run mock-server',
+      url: `${MOCK_EXCEL_URL}/health`,
+      reuseExistingServer: !process.env['CI'],
+    },
+  }),
 
   /* Global setup and teardown */
   globalSetup: require.resolve('./tests/global-setup.ts'),
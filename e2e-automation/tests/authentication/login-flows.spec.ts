@@ -0,0 +1,95 @@
+import { test, expect } from '@playwright/test';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ExcelOnlinePageClean } from '../helpers/excel-page-clean';
+import { EMPTY_STORAGE_STATE } from '../helpers/session-state';
+import { createMockExcelServer } from '../../mock-server/server';
+import { LoginScenario, loginScenarioCookie, WRONG_PASSWORD_MESSAGE } from '../../mock-server/login';
+import { systemClock } from '../../../core';
+
+/**
+ * ExcelOnlinePageClean.login against the mock's sign-in simulator. The spec
+ * starts its own mock server, so it needs no account and no network access.
+ */
+test.describe('Sign-in flows', () => {
+  const credentials = { username: 'test.user@example.com', password: 'not-a-real-password' };
+  // The stored session belongs to another mock server; sign in from scratch
+  test.use({ storageState: EMPTY_STORAGE_STATE });
+
+  let server: Server;
+  let baseUrl: string;
+
+  test.beforeAll(async () => {
+    server = createMockExcelServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const successfulScenarios: Array<{ scenario: LoginScenario; description: string }> = [
+    { scenario: 'normal', description: 'with an account name and password' },
+    { scenario: 'kmsi', description: 'through the "Stay signed in?" prompt' },
+    { scenario: 'throttled', description: 'after reloading "Too many requests" away' },
+    { scenario: 'session-expired', description: 'again when the first session expires' }
+  ];
+
+  successfulScenarios.forEach(({ scenario, description }) => {
+    test(`should sign in ${description}`, async ({ context, page }) => {
+      await context.addCookies([{ ...loginScenarioCookie(scenario), url: baseUrl }]);
+      const excelPage = new ExcelOnlinePageClean(page, systemClock, baseUrl);
+
+      await excelPage.login(credentials);
+
+      expect(new URL(page.url()).pathname).toBe('/launch/excel');
+      await expect(page.getByRole('button', { name: 'Blank workbook' })).toBeVisible();
+    });
+  });
+
+  test('should reload the throttling page until it clears', async ({ context, page }) => {
+    await context.addCookies([{ ...loginScenarioCookie('throttled', 2), url: baseUrl }]);
+    const throttled: string[] = [];
+    page.on('response', response => {
+      if (response.status() === 429) {
+        throttled.push(response.url());
+      }
+    });
+
+    await new ExcelOnlinePageClean(page, systemClock, baseUrl).login(credentials);
+
+    // The first view and two reloads
+    expect(throttled).toHaveLength(3);
+  });
+
+  test('should go through the sign-in form twice when the session expires', async ({ context, page }) => {
+    await context.addCookies([{ ...loginScenarioCookie('session-expired'), url: baseUrl }]);
+    const signInForms: string[] = [];
+    page.on('framenavigated', frame => {
+      if (new URL(frame.url()).pathname === '/login') {
+        signInForms.push(frame.url());
+      }
+    });
+
+    await new ExcelOnlinePageClean(page, systemClock, baseUrl).login(credentials);
+
+    expect(signInForms).toHaveLength(2);
+    expect(new URL(signInForms[1] ?? '').searchParams.get('expired')).toBe('1');
+  });
+
+  test('should report a refused password', async ({ context, page }) => {
+    await context.addCookies([{ ...loginScenarioCookie('wrong-password'), url: baseUrl }]);
+    const excelPage = new ExcelOnlinePageClean(page, systemClock, baseUrl);
+
+    await expect(excelPage.login(credentials)).rejects.toThrow(WRONG_PASSWORD_MESSAGE);
+  });
+
+  test('should stop at a multi-factor challenge', async ({ context, page }) => {
+    await context.addCookies([{ ...loginScenarioCookie('mfa'), url: baseUrl }]);
+    const excelPage = new ExcelOnlinePageClean(page, systemClock, baseUrl);
+
+    await expect(excelPage.login(credentials)).rejects.toThrow('Multi-factor authentication is required');
+    await expect(page.getByRole('heading', { name: 'Verify your identity' })).toBeVisible();
+  });
+});
@@ -0,0 +1,90 @@
+import { test, expect } from '@playwright/test';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ExcelOnlinePageClean } from '../helpers/excel-page-clean';
+import { EMPTY_STORAGE_STATE } from '../helpers/session-state';
+import { createMockExcelServer } from '../../mock-server/server';
+import { FakeClock } from '../../../core';
+
+/**
+ * The page object's cell API against a mock server of its own, so the spec
+ * runs without an account or network access
+ */
+test.describe('Workbook cell API', () => {
+  const clock = new FakeClock(new Date(2025, 7, 22, 14, 35));
+  // The stored session belongs to another mock server; sign in from scratch
+  test.use({ storageState: EMPTY_STORAGE_STATE });
+
+  let server: Server;
+  let baseUrl: string;
+  let excelPage: ExcelOnlinePageClean;
+
+  test.beforeAll(async () => {
+    server = createMockExcelServer({ clock });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test.beforeEach(async ({ page }) => {
+    excelPage = new ExcelOnlinePageClean(page, clock, baseUrl);
+    await excelPage.login({ username: 'test.user@example.com', password: 'not-a-real-password' });
+    await excelPage.createNewWorkbook();
+  });
+
+  test('should select cells through the Name Box', async () => {
+    await excelPage.selectCell('$c$7');
+
+    expect(await excelPage.getActiveCell()).toBe('C7');
+  });
+
+  test('should enter values and read them back', async () => {
+    await excelPage.enterValue('3.14', 'B2');
+    await excelPage.enterValue('hello');
+
+    expect(await excelPage.getActiveCell()).toBe('B4');
+    expect(await excelPage.getCellValue('B2')).toBe('3.14');
+    expect(await excelPage.getCellValue('B3')).toBe('hello');
+    expect(await excelPage.getCellValue('B4')).toBe('');
+    expect(await excelPage.getCellFormula('B2')).toBeNull();
+  });
+
+  const formulaCases: Array<{ formula: string; result: string; resultType: 'date' | 'number' | 'text' | 'error' }> = [
+    { formula: '=TODAY()', result: '8/22/2025', resultType: 'date' },
+    { formula: '=EDATE(TODAY(),1)', result: '9/22/2025', resultType: 'date' },
+    { formula: '=2^10', result: '1024', resultType: 'number' },
+    { formula: '=UPPER("velixo")', result: 'VELIXO', resultType: 'text' },
+    { formula: '=1/0', result: '#DIV/0!', resultType: 'error' }
+  ];
+
+  formulaCases.forEach(({ formula, result, resultType }) => {
+    test(`should return ${formula} as a ${resultType}`, async () => {
+      expect(await excelPage.enterFormula(formula, 'D4')).toEqual({
+        cellAddress: 'D4',
+        formula,
+        result,
+        resultType
+      });
+    });
+  });
+
+  test('should report formulas Excel refuses', async () => {
+    await expect(excelPage.enterFormula('=SUM(1', 'A1')).rejects.toThrow("There's a problem with this formula");
+  });
+
+  test('should write and read ranges as rows', async () => {
+    await excelPage.setRangeValues('A1', [
+      ['1', '2'],
+      ['=A1+B1', '=A2*10']
+    ]);
+
+    expect(await excelPage.getRangeValues('A1:B2')).toEqual([
+      ['1', '2'],
+      ['3', '30']
+    ]);
+    expect(await excelPage.getCellFormula('B2')).toBe('=A2*10');
+  });
+});
@@ -0,0 +1,46 @@
+import { test, expect, Page } from '@playwright/test';
+import { ExcelOnlinePageClean } from '../helpers/excel-page-clean';
+import { TestUtils } from '../helpers/test-utils';
+import { checkFormulaResult, formulaCell, loadFormulaCatalogue } from '../helpers/formula-catalogue';
+import { systemClock } from '../../../core';
+
+/**
+ * One test per entry of tests/fixtures/formula-catalogue.json. The entries
+ * share a single signed-in workbook and run in order, each in its own cell.
+ */
+const catalogue = loadFormulaCatalogue();
+
+test.describe('Formula catalogue', () => {
+  test.describe.configure({ mode: 'serial' });
+
+  let page: Page;
+  let excelPage: ExcelOnlinePageClean;
+
+  test.beforeAll(async ({ browser }) => {
+    await TestUtils.validateTestEnvironment();
+    page = await browser.newPage();
+    excelPage = await TestUtils.createExcelPage(page);
+    await TestUtils.authenticateExcelOnline(excelPage, page.context());
+    await TestUtils.setupTestWorkbook(excelPage);
+  });
+
+  test.afterAll(async () => {
+    await excelPage.cleanup();
+    await page.close();
+  });
+
+  catalogue.forEach((entry, index) => {
+    test(entry.name ?? entry.formula, async () => {
+      for (const [address, value] of Object.entries(entry.inputs ?? {})) {
+        await excelPage.enterValue(value, address);
+      }
+
+      const before = systemClock.now();
+      const result = await excelPage.enterFormula(entry.formula, formulaCell(entry, index));
+      const check = checkFormulaResult(entry, result, { before, after: systemClock.now() });
+
+      console.log(`${check.isValid ? '✅' : '❌'} ${check.message}`);
+      expect(check.isValid, check.message).toBe(true);
+    });
+  });
+});
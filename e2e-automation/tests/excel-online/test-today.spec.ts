@@ -1,28 +1,25 @@
 import { test, expect } from '@playwright/test';
 import { ExcelOnlinePageClean } from '../helpers/excel-page-clean';
 import { TestUtils } from '../helpers/test-utils';
-import { BrowserUtils } from '../helpers/browser-utils';
+import { DateUtils } from '../helpers/date-utils';
+import { ConfigLoader } from '../helpers/config-loader';
+import { systemClock } from '../../../core';
 
 test.describe('Clean TODAY() Function Tests', () => {
   let excelPage: ExcelOnlinePageClean;
 
-  test.beforeEach(async ({ page, browser }) => {
+  // The page starts from the session global-setup.ts stored
+  test.beforeEach(async ({ page }) => {
     await TestUtils.validateTestEnvironment();
-    const context = await BrowserUtils.createIncognitoContext(browser);
-    const newPage = await context.newPage();
-    excelPage = new ExcelOnlinePageClean(newPage);
+    excelPage = new ExcelOnlinePageClean(page, systemClock, ConfigLoader.getInstance().getExcelBaseUrl());
   });
 
-  test('should test TODAY() function with clean implementation', async () => {
+  test('should test TODAY() function with clean implementation', async ({ page }) => {
     console.log('🧪 Starting clean TODAY() function test...');
     
-    // Get credentials from config
-    const { ConfigLoader } = await import('../helpers/config-loader');
-    const config = ConfigLoader.getInstance().getExcelConfig();
-    
-    // Authenticate
+    // Authenticate, only if the stored session has expired
     console.log('🔐 Authenticating...');
-    await excelPage.login(config.credentials);
+    await TestUtils.authenticateExcelOnline(excelPage, page.context());
     
     // Create workbook
     console.log('📊 Creating workbook...');
@@ -30,12 +27,12 @@ test.describe('Clean TODAY() Function Tests', () => {
     
     // Test TODAY() function
     console.log('📅 Testing TODAY() function...');
-    const result = await excelPage.getTodayFunctionResult();
+    const { result, window } = await DateUtils.withTimeWindow(() => excelPage.getTodayFunctionResult());
     
     console.log(`📊 TODAY() result: "${result}"`);
     
     // Verify the result
-    const validation = excelPage.verifyDateFormat(result);
+    const validation = excelPage.verifyDateFormat(result, window);
     console.log('🔍 Validation result:', validation);
     
     // Basic assertions
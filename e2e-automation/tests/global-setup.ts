@@ -1,13 +1,54 @@
 import { chromium, FullConfig } from '@playwright/test';
+import { ConfigLoader } from './helpers/config-loader';
+import { ExcelOnlinePageClean } from './helpers/excel-page-clean';
+import { TestUtils } from './helpers/test-utils';
+import {
+  EMPTY_STORAGE_STATE,
+  readStorageState,
+  saveStorageState,
+  writeStorageState
+} from './helpers/session-state';
+import { systemClock } from '../../core';
 
+/**
+ * Sign in to Excel Online once for the whole run and store the session
+ * (see helpers/session-state.ts). A session stored by an earlier run is
+ * reused while it is still valid.
+ */
 async function globalSetup(config: FullConfig) {
   console.log('🚀 Starting global setup for E2E tests...');
   
   // Verify browser installation
   const browser = await chromium.launch();
-  await browser.close();
+
+  try {
+    // Without credentials, tests start signed out and report the problem themselves
+    try {
+      await TestUtils.validateTestEnvironment();
+    } catch {
+      console.warn('⚠️ Test credentials are not configured, skipping sign-in');
+      writeStorageState(EMPTY_STORAGE_STATE);
+      return;
+    }
+
+    const configLoader = ConfigLoader.getInstance();
+    const context = await browser.newContext({ storageState: readStorageState() });
+    const excelPage = new ExcelOnlinePageClean(await context.newPage(), systemClock, configLoader.getExcelBaseUrl());
+
+    console.log('🔐 Signing in once for all tests...');
+    try {
+      await excelPage.ensureSignedIn(configLoader.getExcelConfig().credentials);
+    } catch (error) {
+      // Every project loads the state file, so leave one that starts signed out
+      writeStorageState(EMPTY_STORAGE_STATE);
+      throw error;
+    }
+    await saveStorageState(context);
+  } finally {
+    await browser.close();
+  }
   
   console.log('✅ Global setup completed successfully');
 }
 
-export default globalSetup;
\ No newline at end of file
+export default globalSetup;
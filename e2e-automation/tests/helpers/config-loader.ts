@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { TestConfiguration } from './types';
+import { MOCK_EXCEL_URL } from '../../mock-server/server';
 
 /**
  * Configuration loader with environment variable support
@@ -89,6 +90,11 @@ export class ConfigLoader {
       overriddenConfig.excel.credentials.password = process.env.EXCEL_PASSWORD;
     }
 
+    // Local Excel Online mock instead of office.com
+    if (process.env['EXCEL_MOCK']) {
+      overriddenConfig.excel.mock = process.env['EXCEL_MOCK'].toLowerCase() === 'true';
+    }
+
     // Browser settings from environment
     if (process.env.HEADLESS) {
       overriddenConfig.browser.headless = process.env.HEADLESS.toLowerCase() === 'true';
@@ -149,6 +155,19 @@ export class ConfigLoader {
     return this.loadConfig().excel;
   }
 
+  /**
+   * Where Excel Online is opened: the local mock server when the `mock`
+   * switch is on, otherwise the configured base URL
+   */
+  getExcelBaseUrl(): string {
+    const config = this.getExcelConfig();
+    return config.mock ? MOCK_EXCEL_URL : config.baseUrl;
+  }
+
+  isMockExcel(): boolean {
+    return this.getExcelConfig().mock === true;
+  }
+
   getBrowserConfig() {
     return this.loadConfig().browser;
   }
@@ -1,89 +1,131 @@
+import {
+  Clock,
+  DateFunctionArg,
+  DateFunctionContext,
+  DateFunctionName,
+  DateParseOptions,
+  DateSystem,
+  dateToSerial,
+  formatExcelDate,
+  isSameDay,
+  serialToDate,
+  systemClock,
+  TimeWindow,
+  validateNowInWindow,
+  validateTodayDate,
+  validateTodayInWindow,
+  validateTodaySerial,
+  validateDateFunction,
+  ZonedDateOptions
+} from '../../../core';
 import { DateValidationResult } from './types';
 
 /**
  * Utility functions for date validation and comparison
  */
 export class DateUtils {
+  /**
+   * How the test account's Excel Online displays dates. Passed explicitly so
+   * that a value like 3/4/2026 is never guessed to be US or European. The
+   * workbook's time zone comes from EXCEL_TIME_ZONE when set.
+   */
+  static readonly EXCEL_DATE_OPTIONS: ZonedDateOptions = process.env['EXCEL_TIME_ZONE']
+    ? { locale: 'en-US', timeZone: process.env['EXCEL_TIME_ZONE'] }
+    : { locale: 'en-US' };
+
   /**
    * Compare two dates and return validation result
    */
-  static validateTodayFunction(actualValue: string): DateValidationResult {
-    try {
-      const today = new Date();
-      const expectedDate = today.toLocaleDateString();
-      
-      // Clean the actual value
-      const cleanValue = actualValue.trim();
-      
-      // Try multiple date parsing approaches
-      let parsedDate: Date | null = null;
-      
-      // Approach 1: Direct parsing
-      parsedDate = new Date(cleanValue);
-      
-      // Approach 2: If direct parsing fails, try common Excel date formats
-      if (isNaN(parsedDate.getTime())) {
-        // Try MM/DD/YYYY format
-        const mmddyyyy = cleanValue.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-        if (mmddyyyy) {
-          parsedDate = new Date(parseInt(mmddyyyy[3]), parseInt(mmddyyyy[1]) - 1, parseInt(mmddyyyy[2]));
-        }
-        
-        // Try DD/MM/YYYY format
-        if (isNaN(parsedDate.getTime())) {
-          const ddmmyyyy = cleanValue.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-          if (ddmmyyyy) {
-            parsedDate = new Date(parseInt(ddmmyyyy[3]), parseInt(ddmmyyyy[2]) - 1, parseInt(ddmmyyyy[1]));
-          }
-        }
-        
-        // Try YYYY-MM-DD format
-        if (isNaN(parsedDate.getTime())) {
-          const yyyymmdd = cleanValue.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
-          if (yyyymmdd) {
-            parsedDate = new Date(parseInt(yyyymmdd[1]), parseInt(yyyymmdd[2]) - 1, parseInt(yyyymmdd[3]));
-          }
-        }
-      }
-      
-      // Check if parsing was successful
-      if (!parsedDate || isNaN(parsedDate.getTime())) {
-        return {
-          isValid: false,
-          expectedDate,
-          actualDate: cleanValue,
-          message: `Unable to parse date: ${cleanValue}`
-        };
-      }
-      
-      // Compare dates (ignore time component)
-      const isToday = this.isSameDate(parsedDate, today);
-      
-      return {
-        isValid: isToday,
-        expectedDate,
-        actualDate: cleanValue,
-        message: isToday 
-          ? 'TODAY() function returned correct current date' 
-          : `Date mismatch: expected ${expectedDate}, got ${cleanValue}`
-      };
-    } catch (error) {
-      return {
-        isValid: false,
-        expectedDate: new Date().toLocaleDateString(),
-        actualDate: actualValue,
-        message: `Date validation error: ${error}`
-      };
-    }
+  static validateTodayFunction(
+    actualValue: string,
+    options: DateParseOptions = DateUtils.EXCEL_DATE_OPTIONS,
+    clock: Clock = systemClock
+  ): DateValidationResult {
+    return validateTodayDate(actualValue, clock.now(), options);
+  }
+
+  /**
+   * Run `action` and capture the time window around it, for validating
+   * TODAY() or NOW() results that `action` produced
+   */
+  static async withTimeWindow<T>(
+    action: () => Promise<T>,
+    clock: Clock = systemClock
+  ): Promise<{ result: T; window: TimeWindow }> {
+    const before = clock.now();
+    const result = await action();
+    return { result, window: { before, after: clock.now() } };
+  }
+
+  /**
+   * Validate TODAY() against every calendar day the workbook's time zone saw
+   * between `window.before` (captured before entering the formula) and
+   * `window.after` (captured after reading the result)
+   */
+  static validateTodayInWindow(
+    actualValue: string,
+    window: TimeWindow,
+    options: ZonedDateOptions = DateUtils.EXCEL_DATE_OPTIONS
+  ): DateValidationResult {
+    return validateTodayInWindow(actualValue, window, options);
+  }
+
+  /**
+   * Validate a NOW() value such as "8/22/2025 14:35" against the same window
+   */
+  static validateNowInWindow(
+    actualValue: string,
+    window: TimeWindow,
+    options: ZonedDateOptions = DateUtils.EXCEL_DATE_OPTIONS
+  ): DateValidationResult {
+    return validateNowInWindow(actualValue, window, options);
+  }
+
+  /**
+   * Validate the result of any catalogued date function, e.g.
+   * validateDateFunction('EDATE', [new Date(2025, 0, 31), 1], '45716').
+   * TODAY() and NOW() are checked against `context.window` when given.
+   */
+  static validateDateFunction(
+    name: DateFunctionName,
+    args: readonly DateFunctionArg[],
+    actualValue: string,
+    context: DateFunctionContext = DateUtils.EXCEL_DATE_OPTIONS
+  ): DateValidationResult {
+    return validateDateFunction(name, args, actualValue, context);
+  }
+
+  /**
+   * Compare the raw serial of =TODAY()*1 or =VALUE(TODAY()) with today,
+   * independently of the grid's date format
+   */
+  static validateTodaySerial(
+    actualValue: string,
+    system: DateSystem = '1900',
+    clock: Clock = systemClock
+  ): DateValidationResult {
+    return validateTodaySerial(actualValue, clock.now(), system);
+  }
+
+  /**
+   * Convert a JS date to an Excel serial number (time of day as the fraction)
+   */
+  static toExcelSerial(date: Date, system: DateSystem = '1900'): number {
+    return dateToSerial(date, system);
+  }
+
+  /**
+   * Convert an Excel serial number to a JS date
+   */
+  static fromExcelSerial(serial: number, system: DateSystem = '1900'): Date {
+    return serialToDate(serial, system);
   }
 
   /**
    * Check if two dates represent the same day (ignoring time)
    */
   static isSameDate(date1: Date, date2: Date): boolean {
-    return date1.getFullYear() === date2.getFullYear() &&
-           date1.getMonth() === date2.getMonth() &&
-           date1.getDate() === date2.getDate();
+    return isSameDay(date1, date2);
   }
 
   /**
@@ -100,10 +142,10 @@ export class DateUtils {
   /**
    * Get current date in various formats for testing
    */
-  static getCurrentDateFormats() {
-    const today = new Date();
+  static getCurrentDateFormats(clock: Clock = systemClock) {
+    const today = clock.now();
     return {
-      iso: today.toISOString().split('T')[0], // YYYY-MM-DD
+      iso: formatExcelDate(today, { format: 'yyyy-mm-dd' }), // YYYY-MM-DD, local date
       us: today.toLocaleDateString('en-US'), // MM/DD/YYYY
       uk: today.toLocaleDateString('en-GB'), // DD/MM/YYYY
       long: today.toLocaleDateString('en-US', { 
@@ -0,0 +1,47 @@
+import { Clock, systemClock } from '../../../core';
+import { DateUtils } from './date-utils';
+
+/**
+ * Create test assertions for Excel results. Kept apart from TestUtils so the
+ * assertions can be unit-tested without a browser.
+ *
+ * @param clock - Source of "today" for toBeTodaysDate (default: system time)
+ */
+export function createExcelAssertions(clock: Clock = systemClock) {
+  return {
+    /**
+     * Assert that a value looks like a date
+     */
+    async toBeValidDate(received: string) {
+      const isValid = DateUtils.looksLikeDate(received);
+      return {
+        message: () => `Expected "${received}" to be a valid date format`,
+        pass: isValid
+      };
+    },
+
+    /**
+     * Assert that a date matches today
+     */
+    async toBeTodaysDate(received: string) {
+      const validation = DateUtils.validateTodayFunction(received, DateUtils.EXCEL_DATE_OPTIONS, clock);
+      return {
+        message: () => validation.message,
+        pass: validation.isValid
+      };
+    },
+
+    /**
+     * Assert that Excel formula result is correct
+     */
+    async toMatchExcelResult(received: string, expected: string) {
+      const normalizedReceived = received.trim().toLowerCase();
+      const normalizedExpected = expected.trim().toLowerCase();
+      
+      return {
+        message: () => `Expected Excel result "${received}" to match "${expected}"`,
+        pass: normalizedReceived === normalizedExpected
+      };
+    }
+  };
+}
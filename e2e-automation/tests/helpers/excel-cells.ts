@@ -0,0 +1,67 @@
+import { tryParseExcelDate } from '../../../core';
+import { DateUtils } from './date-utils';
+import { FormulaResult } from './types';
+
+/**
+ * Reading cells from what Excel Online exposes to screen readers. Kept apart
+ * from the page object so the parsing can be unit-tested without a browser.
+ */
+
+export interface CellLabel {
+  /** The value as the grid shows it; empty for an empty cell */
+  display: string;
+  hasFormula: boolean;
+}
+
+const ERROR_VALUES = /^#(?:DIV\/0!|VALUE!|NAME\?|REF!|NUM!|N\/A|NULL!|SPILL!|CALC!|GETTING_DATA)$/;
+const NUMBER_DISPLAY = /^[-+]?(?:\d{1,3}(?:,\d{3})+|\d*)(?:\.\d+)?(?:E[-+]\d+)?%?$/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Accessible name of the textbox of the cell at `address`, e.g.
+ * "8/22/2025 . A1 . Contains Formula ." or "A1 ." for an empty cell
+ */
+export function cellLabelPattern(address: string): RegExp {
+  return new RegExp(`(?:^| \\. )${escapeRegExp(address)} \\.`);
+}
+
+/**
+ * Split a cell's label into the shown value and the formula marker. The
+ * value may itself contain dots, as in "3.14 . B2 .".
+ *
+ * @returns null when the label is not the one of `address`
+ */
+export function parseCellLabel(ariaLabel: string, address: string): CellLabel | null {
+  const match = cellLabelPattern(address).exec(ariaLabel);
+  if (!match) {
+    return null;
+  }
+  return {
+    display: ariaLabel.slice(0, match.index).trim(),
+    hasFormula: ariaLabel.slice(match.index + match[0].length).includes('Contains Formula')
+  };
+}
+
+/**
+ * Kind of value a cell shows. The grid only exposes the formatted text, so
+ * dates are recognized by the workbook's date format. TRUE, FALSE and empty
+ * cells count as text.
+ */
+export function inferResultType(display: string): FormulaResult['resultType'] {
+  const text = display.trim();
+  if (ERROR_VALUES.test(text)) {
+    return 'error';
+  }
+  if (/\d/.test(text) && NUMBER_DISPLAY.test(text)) {
+    return 'number';
+  }
+  // Dates with a time, as NOW() shows them: "8/22/2025 14:35"
+  const [day = '', time] = text.split(/\s+/);
+  if ((time === undefined || /^\d{1,2}:\d{2}(?::\d{2})?$/.test(time)) && tryParseExcelDate(day, DateUtils.EXCEL_DATE_OPTIONS).ok) {
+    return 'date';
+  }
+  return 'text';
+}
@@ -1,4 +1,8 @@
-import { Page } from '@playwright/test';
+import { expect, FrameLocator, Page } from '@playwright/test';
+import { DateUtils } from './date-utils';
+import { cellLabelPattern, inferResultType, parseCellLabel } from './excel-cells';
+import { Clock, MAX_ROWS, offsetAddress, parseAddress, rangeAddresses, systemClock, TimeWindow } from '../../../core';
+import { DateValidationResult, FormulaResult } from './types';
 
 /**
  * Clean Excel Online Page Helper
@@ -7,16 +11,24 @@ import { Page } from '@playwright/test';
 export class ExcelOnlinePageClean {
   private page: Page;
   private workbookName: string = '';
+  private clock: Clock;
+  private baseUrl: string;
 
-  constructor(page: Page) {
+  /**
+   * @param baseUrl - Where Excel Online is opened; ConfigLoader.getExcelBaseUrl()
+   *   points it at the local mock when the `mock` switch is on
+   */
+  constructor(page: Page, clock: Clock = systemClock, baseUrl: string = 'https://www.office.com') {
     this.page = page;
+    this.clock = clock;
+    this.baseUrl = baseUrl;
   }
 
   /**
-   * Navigate to Excel Online
+   * Navigate to Excel Online, or to the local mock when it is switched on
    */
   async navigateToExcel(): Promise<void> {
-    await this.page.goto('https://www.office.com/launch/excel', {
+    await this.page.goto(new URL('/launch/excel', this.baseUrl).toString(), {
       waitUntil: 'networkidle',
       timeout: 60000
     });
@@ -31,38 +43,12 @@ export class ExcelOnlinePageClean {
       console.log('🔐 Starting authentication...');
       
       await this.navigateToExcel();
+      await this.submitCredentials(credentials);
 
-      // Handle email input
-      const emailInput = this.page.locator('input[type="email"], input[name="loginfmt"]').first();
-      if (await emailInput.isVisible({ timeout: 10000 })) {
-        await emailInput.fill(credentials.username);
-        
-        const nextButton = this.page.locator('button:has-text("Next"), input[type="submit"]').first();
-        if (await nextButton.isVisible({ timeout: 5000 })) {
-          await nextButton.click();
-          await this.page.waitForTimeout(3000);
-        }
-      }
-
-      // Handle password input
-      const passwordInput = this.page.locator('input[type="password"]').first();
-      if (await passwordInput.isVisible({ timeout: 10000 })) {
-        await passwordInput.fill(credentials.password);
-        
-        const submitButton = this.page.locator('button:has-text("Next"), button:has-text("Sign in"), input[type="submit"]').first();
-        if (await submitButton.isVisible({ timeout: 5000 })) {
-          await submitButton.click();
-          await this.page.waitForTimeout(5000);
-        }
-      }
-
-      // Handle "too many requests" error by refreshing until resolved
-      await this.handleTooManyRequestsError();
-
-      // Handle "Stay signed in" prompt
-      const staySignedInButton = this.page.locator('button:has-text("Yes"), button:has-text("No")').first();
-      if (await staySignedInButton.isVisible({ timeout: 15000 })) {
-        await staySignedInButton.click();
+      // An expired session sends us back to the sign-in form once more
+      if (await this.isSignInRequired()) {
+        console.log('⚠️ Session expired during sign-in, signing in again...');
+        await this.submitCredentials(credentials);
       }
 
       console.log('✅ Authentication successful');
@@ -72,6 +58,99 @@ export class ExcelOnlinePageClean {
     }
   }
 
+  /**
+   * Open Excel Online with the session the browser context already has, e.g.
+   * the storageState saved by global-setup.ts, and sign in only when that
+   * session is missing or has expired
+   *
+   * @returns true when the credentials had to be entered
+   */
+  async ensureSignedIn(credentials: { username: string; password: string }): Promise<boolean> {
+    await this.navigateToExcel();
+    if (await this.isSignedIn()) {
+      console.log('✅ Reusing the stored session');
+      return false;
+    }
+
+    console.log('⚠️ Stored session is missing or expired, signing in...');
+    await this.login(credentials);
+    return true;
+  }
+
+  /**
+   * Whether the page shows Excel Online signed in: the start page with its
+   * "Blank workbook" entry point, or an open workbook. An error page or a page
+   * that never finishes loading does not count.
+   */
+  async isSignedIn(): Promise<boolean> {
+    const excel = this.page
+      .locator('[data-automation-id="new-blank-workbook"], [aria-label*="Blank workbook"], iframe[name*="WacFrame"]')
+      .first();
+    const signInForm = this.page.locator('input[type="email"], input[name="loginfmt"]').first();
+    try {
+      await excel.or(signInForm).first().waitFor({ state: 'visible', timeout: 30000 });
+    } catch {
+      return false;
+    }
+    return excel.isVisible();
+  }
+
+  /**
+   * Whether the page shows the Microsoft sign-in form instead of Excel
+   */
+  async isSignInRequired(): Promise<boolean> {
+    return this.page.locator('input[type="email"], input[name="loginfmt"]').first().isVisible();
+  }
+
+  /**
+   * Go through the Microsoft sign-in pages once: account name, password,
+   * throttling and the "Stay signed in" prompt
+   */
+  private async submitCredentials(credentials: { username: string; password: string }): Promise<void> {
+    // Handle email input
+    const emailInput = this.page.locator('input[type="email"], input[name="loginfmt"]').first();
+    if (await emailInput.isVisible({ timeout: 10000 })) {
+      await emailInput.fill(credentials.username);
+      
+      const nextButton = this.page.locator('button:has-text("Next"), input[type="submit"]').first();
+      if (await nextButton.isVisible({ timeout: 5000 })) {
+        await nextButton.click();
+        await this.page.waitForTimeout(3000);
+      }
+    }
+
+    // Handle password input
+    const passwordInput = this.page.locator('input[type="password"]').first();
+    if (await passwordInput.isVisible({ timeout: 10000 })) {
+      await passwordInput.fill(credentials.password);
+      
+      const submitButton = this.page.locator('button:has-text("Next"), button:has-text("Sign in"), input[type="submit"]').first();
+      if (await submitButton.isVisible({ timeout: 5000 })) {
+        await submitButton.click();
+        await this.page.waitForTimeout(5000);
+      }
+    }
+
+    // Fail fast on pages no amount of waiting gets past
+    const passwordError = this.page.locator('#passwordError').first();
+    if (await passwordError.isVisible()) {
+      throw new Error(`Sign-in refused: ${(await passwordError.textContent())?.trim()}`);
+    }
+    if (await this.page.getByText(/Verify your identity|Approve sign in request/).first().isVisible()) {
+      throw new Error('Multi-factor authentication is required; use a test account without MFA');
+    }
+
+    // Handle "too many requests" error by refreshing until resolved
+    await this.handleTooManyRequestsError();
+
+    // Handle "Stay signed in" prompt
+    const staySignedInButton = this.page.locator('button:has-text("Yes"), button:has-text("No")').first();
+    if (await staySignedInButton.isVisible({ timeout: 15000 })) {
+      await staySignedInButton.click();
+      await this.page.waitForLoadState('networkidle');
+    }
+  }
+
   /**
    * Handle "too many requests" error by refreshing until resolved
    */
@@ -268,6 +347,170 @@ export class ExcelOnlinePageClean {
     await this.page.waitForTimeout(5000);
   }
 
+  /**
+   * The workbook grid, Name Box and formula bar live in this iframe
+   */
+  private excelFrame(): FrameLocator {
+    return this.page.locator('iframe[name*="WacFrame"], iframe[name*="Excel"]').first().contentFrame();
+  }
+
+  /**
+   * Make a cell active by typing its address into the Name Box
+   *
+   * @throws CellAddressError for invalid addresses
+   */
+  async selectCell(address: string): Promise<void> {
+    const cell = parseAddress(address).address;
+    const frame = this.excelFrame();
+
+    const nameBox = frame.getByRole('combobox', { name: /Name Box/ });
+    await nameBox.click();
+    await nameBox.fill(cell);
+    await nameBox.press('Enter');
+
+    await frame.getByRole('textbox', { name: cellLabelPattern(cell) }).waitFor({ timeout: 10000 });
+  }
+
+  /**
+   * Type a value or a formula into a cell through the formula bar and press
+   * Enter, as a user would. Without an address the active cell is used.
+   *
+   * Enter moves the selection down a row, which is how the commit is
+   * detected. On the last row the selection stays put, so there the cell's
+   * label changing shows the commit instead.
+   *
+   * @throws Error when Excel refuses the input ("There's a problem with this formula")
+   */
+  async enterValue(value: string, address?: string): Promise<void> {
+    const frame = this.excelFrame();
+    const nameBox = frame.getByRole('combobox', { name: /Name Box/ });
+    if (address) {
+      await this.selectCell(address);
+    }
+    const parsed = parseAddress(await nameBox.inputValue());
+    const cell = parsed.address;
+    const cellBox = frame.getByRole('textbox', { name: cellLabelPattern(cell) }).first();
+
+    const formulaBar = frame.getByRole('textbox', { name: 'formula bar' });
+    const unchanged = (await formulaBar.inputValue()) === value;
+    const labelBefore = await cellBox.getAttribute('aria-label');
+    await formulaBar.click();
+    await formulaBar.fill(value);
+    await formulaBar.press('Enter');
+
+    // Enter commits and moves down a row, unless Excel refuses the input
+    const refusal = frame.getByText(/There's a problem with this formula/).first();
+    const committed =
+      parsed.row < MAX_ROWS
+        ? async () => (await nameBox.inputValue()) === offsetAddress(cell, { rows: 1 }).address
+        : async () => unchanged || (await cellBox.getAttribute('aria-label')) !== labelBefore;
+    await expect
+      .poll(async () => (await refusal.isVisible()) || (await committed()), {
+        message: `Timed out entering "${value}" in ${cell}`,
+        timeout: 10000
+      })
+      .toBe(true);
+
+    if (await refusal.isVisible()) {
+      throw new Error(`Excel refused "${value}" in ${cell}: ${(await refusal.textContent())?.trim()}`);
+    }
+    console.log(`✅ Entered "${value}" in ${cell}`);
+  }
+
+  /**
+   * Enter a formula and read back what the cell shows
+   *
+   * @throws RangeError when `formula` does not start with "="
+   */
+  async enterFormula(formula: string, address?: string): Promise<FormulaResult> {
+    if (!formula.trim().startsWith('=')) {
+      throw new RangeError(`Formulas start with "=", got "${formula}"`);
+    }
+    const cell = address ? parseAddress(address).address : await this.getActiveCell();
+    await this.enterValue(formula, cell);
+    return this.getFormulaResult(cell);
+  }
+
+  /**
+   * Address shown in the Name Box
+   */
+  async getActiveCell(): Promise<string> {
+    const nameBox = this.excelFrame().getByRole('combobox', { name: /Name Box/ });
+    return parseAddress(await nameBox.inputValue()).address;
+  }
+
+  /**
+   * The value a cell shows, e.g. "8/22/2025"; empty for an empty cell
+   */
+  async getCellValue(address: string): Promise<string> {
+    return (await this.readCell(address)).display;
+  }
+
+  /**
+   * The formula of a cell, or null when it holds a constant or nothing
+   */
+  async getCellFormula(address: string): Promise<string | null> {
+    const { formula } = await this.readCell(address);
+    return formula || null;
+  }
+
+  /**
+   * Address, formula, shown value and kind of value of a cell. `formula` is
+   * empty for constants.
+   */
+  async getFormulaResult(address: string): Promise<FormulaResult> {
+    const cell = parseAddress(address).address;
+    const { display, formula } = await this.readCell(cell);
+    return {
+      cellAddress: cell,
+      formula,
+      result: display,
+      resultType: inferResultType(display)
+    };
+  }
+
+  /**
+   * Shown values of a rectangular range, row by row: 'A1:B2' gives
+   * [[A1, B1], [A2, B2]]
+   */
+  async getRangeValues(range: string): Promise<string[][]> {
+    const values: string[][] = [];
+    for (const row of rangeAddresses(range)) {
+      const rowValues: string[] = [];
+      for (const address of row) {
+        rowValues.push(await this.getCellValue(address));
+      }
+      values.push(rowValues);
+    }
+    return values;
+  }
+
+  /**
+   * Enter rows of values or formulas with their top-left cell at `topLeft`
+   */
+  async setRangeValues(topLeft: string, values: readonly (readonly string[])[]): Promise<void> {
+    for (const [rowIndex, row] of values.entries()) {
+      for (const [columnIndex, value] of row.entries()) {
+        await this.enterValue(value, offsetAddress(topLeft, { rows: rowIndex, columns: columnIndex }).address);
+      }
+    }
+  }
+
+  // Select the cell, then read its label and the formula bar
+  private async readCell(address: string): Promise<{ display: string; formula: string }> {
+    const cell = parseAddress(address).address;
+    await this.selectCell(cell);
+    const frame = this.excelFrame();
+
+    const ariaLabel = await frame.getByRole('textbox', { name: cellLabelPattern(cell) }).first().getAttribute('aria-label');
+    const label = parseCellLabel(ariaLabel ?? '', cell);
+    if (!label) {
+      throw new Error(`Could not read cell ${cell} from label "${ariaLabel}"`);
+    }
+    const input = await frame.getByRole('textbox', { name: 'formula bar' }).inputValue();
+    return { display: label.display, formula: label.hasFormula ? input : '' };
+  }
+
   /**
    * Enter TODAY() function and get result (MCP-tested approach)
    */
@@ -453,70 +696,15 @@ export class ExcelOnlinePageClean {
   }
 
   /**
-   * Verify if a date string matches expected format and current date
+   * Verify if a date string matches expected format and current date. With a
+   * window captured around the formula entry, any day it spans is accepted.
    */
-  verifyDateFormat(dateValue: string): { isValid: boolean; expectedDate: string; actualDate: string; message: string } {
-    try {
-      const today = new Date();
-      const expectedDate = today.toLocaleDateString();
-      
-      const cleanDateValue = dateValue.trim();
-      console.log(`🔍 Validating date: "${cleanDateValue}" against expected: "${expectedDate}"`);
-      
-      // Handle Excel's MM/DD/YYYY format (like "8/22/2025")
-      const excelDateMatch = cleanDateValue.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-      if (excelDateMatch && excelDateMatch[1] && excelDateMatch[2] && excelDateMatch[3]) {
-        const [, month, day, year] = excelDateMatch;
-        const parsedDate = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-        
-        if (!isNaN(parsedDate.getTime())) {
-          const isToday = parsedDate.toDateString() === today.toDateString();
-          console.log(`📅 Parsed Excel date: ${parsedDate.toDateString()}, Today: ${today.toDateString()}, Match: ${isToday}`);
-          
-          return {
-            isValid: isToday,
-            expectedDate,
-            actualDate: cleanDateValue,
-            message: isToday ? 'Date matches current date' : `Date is ${parsedDate.toDateString()}, expected ${today.toDateString()}`
-          };
-        }
-      }
-      
-      // Fallback: try other date parsing approaches
-      const dateFormats = [
-        new Date(cleanDateValue),
-        new Date(cleanDateValue.replace(/(\d{1,2})\/(\d{1,2})\/(\d{4})/, '$1/$2/$3')),
-        new Date(cleanDateValue.replace(/(\d{1,2})\/(\d{1,2})\/(\d{4})/, '$3-$1-$2'))
-      ];
-      
-      for (const parsedDate of dateFormats) {
-        if (!isNaN(parsedDate.getTime())) {
-          const isToday = parsedDate.toDateString() === today.toDateString();
-          if (isToday) {
-            return {
-              isValid: true,
-              expectedDate,
-              actualDate: cleanDateValue,
-              message: 'Date matches current date'
-            };
-          }
-        }
-      }
-      
-      return {
-        isValid: false,
-        expectedDate,
-        actualDate: cleanDateValue,
-        message: `Date "${cleanDateValue}" does not match current date "${expectedDate}" or invalid format`
-      };
-    } catch (error) {
-      return {
-        isValid: false,
-        expectedDate: new Date().toLocaleDateString(),
-        actualDate: dateValue,
-        message: `Date validation error: ${error}`
-      };
-    }
+  verifyDateFormat(dateValue: string, window?: TimeWindow): DateValidationResult {
+    const validation = window
+      ? DateUtils.validateTodayInWindow(dateValue, window)
+      : DateUtils.validateTodayFunction(dateValue, DateUtils.EXCEL_DATE_OPTIONS, this.clock);
+    console.log(`🔍 Validating date: "${validation.actualDate}" against expected: "${validation.expectedDate}"`);
+    return validation;
   }
 
   /**
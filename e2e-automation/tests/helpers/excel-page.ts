@@ -1,4 +1,5 @@
 import { Page, Locator, expect } from '@playwright/test';
+import { DateUtils } from './date-utils';
 import { LoginCredentials, DateValidationResult, CellReference, FormulaResult } from './types';
 
 /**
@@ -391,38 +392,7 @@ export class ExcelOnlinePage {
    * Verify if a date string matches expected format and current date
    */
   verifyDateFormat(dateValue: string): DateValidationResult {
-    try {
-      const today = new Date();
-      const expectedDate = today.toLocaleDateString();
-      
-      const cleanDateValue = dateValue.trim();
-      const parsedDate = new Date(cleanDateValue);
-      
-      if (isNaN(parsedDate.getTime())) {
-        return {
-          isValid: false,
-          expectedDate,
-          actualDate: cleanDateValue,
-          message: 'Invalid date format'
-        };
-      }
-      
-      const isToday = parsedDate.toDateString() === today.toDateString();
-      
-      return {
-        isValid: isToday,
-        expectedDate,
-        actualDate: cleanDateValue,
-        message: isToday ? 'Date matches current date' : 'Date does not match current date'
-      };
-    } catch (error) {
-      return {
-        isValid: false,
-        expectedDate: new Date().toLocaleDateString(),
-        actualDate: dateValue,
-        message: `Date validation error: ${error}`
-      };
-    }
+    return DateUtils.validateTodayFunction(dateValue);
   }
 
   /**
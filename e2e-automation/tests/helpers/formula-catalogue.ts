@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATE_FUNCTIONS, parseAddress, TimeWindow } from '../../../core';
+import { DateUtils } from './date-utils';
+import {
+  ComputedExpectation,
+  DateValidationResult,
+  FormulaCatalogueEntry,
+  FormulaCheckResult,
+  FormulaResult
+} from './types';
+
+/**
+ * Catalogue of formulas for the data-driven spec
+ * (tests/excel-online/formula-catalogue.spec.ts): loading and checking the
+ * entries needs no browser, so it lives here and is unit-tested.
+ */
+
+export const DEFAULT_CATALOGUE_PATH = path.join(__dirname, '../fixtures/formula-catalogue.json');
+
+/** Column for formulas of entries without a `cell` */
+export const FORMULA_COLUMN = 'H';
+
+const RESULT_TYPES: readonly FormulaResult['resultType'][] = ['date', 'number', 'text', 'error'];
+
+/**
+ * Validators for computed expectations. Each gets the shown result and the
+ * time window around the formula entry.
+ */
+export const FORMULA_VALIDATORS: {
+  readonly [Name in ComputedExpectation['validator']]: (
+    actual: string,
+    expected: Extract<ComputedExpectation, { validator: Name }>,
+    window: TimeWindow,
+    tolerance: number | undefined
+  ) => DateValidationResult;
+} = {
+  today: (actual, _expected, window) => DateUtils.validateTodayInWindow(actual, window),
+  now: (actual, _expected, window) => DateUtils.validateNowInWindow(actual, window),
+  dateFunction: (actual, expected, window, tolerance) =>
+    DateUtils.validateDateFunction(expected.function, expected.args, actual, {
+      ...DateUtils.EXCEL_DATE_OPTIONS,
+      window,
+      ...(tolerance !== undefined && { toleranceMs: tolerance })
+    })
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Reason an entry cannot run, or null when it is well-formed
+function entryProblem(entry: Record<string, unknown>): string | null {
+  const { name, formula, inputs, cell, expected, tolerance, resultType } = entry;
+
+  if (typeof formula !== 'string' || !formula.trim().startsWith('=')) {
+    return 'formula must be a string starting with "="';
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    return 'name must be a string';
+  }
+  if (!RESULT_TYPES.includes(resultType as FormulaResult['resultType'])) {
+    return `resultType must be one of ${RESULT_TYPES.join(', ')}`;
+  }
+  if (tolerance !== undefined && (typeof tolerance !== 'number' || !(tolerance >= 0))) {
+    return 'tolerance must be a non-negative number';
+  }
+  if (inputs !== undefined && (!isRecord(inputs) || Object.values(inputs).some(value => typeof value !== 'string'))) {
+    return 'inputs must map addresses to strings';
+  }
+  try {
+    Object.keys(inputs ?? {}).forEach(address => parseAddress(address));
+    if (cell !== undefined) {
+      parseAddress(String(cell));
+    }
+  } catch (error) {
+    return (error as Error).message;
+  }
+
+  if (typeof expected === 'string' || typeof expected === 'number') {
+    return null;
+  }
+  if (!isRecord(expected) || !Object.keys(FORMULA_VALIDATORS).includes(String(expected['validator']))) {
+    return `expected must be a string, a number or { "validator": ${Object.keys(FORMULA_VALIDATORS).join(' | ')} }`;
+  }
+  if (expected['validator'] === 'dateFunction') {
+    if (!Object.prototype.hasOwnProperty.call(DATE_FUNCTIONS, String(expected['function']))) {
+      return `unknown date function "${String(expected['function'])}"`;
+    }
+    if (!Array.isArray(expected['args'])) {
+      return 'dateFunction validators need an "args" array';
+    }
+  }
+  return null;
+}
+
+/**
+ * Read and check a catalogue of formula test entries
+ *
+ * @throws Error naming the first malformed entry
+ */
+export function loadFormulaCatalogue(file: string = DEFAULT_CATALOGUE_PATH): FormulaCatalogueEntry[] {
+  const catalogue: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(catalogue)) {
+    throw new Error(`Formula catalogue ${file} must be an array of entries`);
+  }
+  catalogue.forEach((entry: unknown, index) => {
+    const problem = isRecord(entry) ? entryProblem(entry) : 'entry must be an object';
+    if (problem) {
+      throw new Error(`Formula catalogue entry ${index + 1}: ${problem}`);
+    }
+  });
+  return catalogue as FormulaCatalogueEntry[];
+}
+
+/**
+ * Cell an entry's formula goes into: its own `cell`, or row `index + 1` of
+ * FORMULA_COLUMN
+ */
+export function formulaCell(entry: FormulaCatalogueEntry, index: number): string {
+  return parseAddress(entry.cell ?? `${FORMULA_COLUMN}${index + 1}`).address;
+}
+
+function checkLiteral(entry: FormulaCatalogueEntry, actual: string, expected: string | number): FormulaCheckResult {
+  if (typeof expected === 'number') {
+    const tolerance = entry.tolerance ?? 0;
+    const value = Number(actual.replace(/,/g, ''));
+    const isValid = actual.trim() !== '' && Math.abs(value - expected) <= tolerance;
+    return {
+      isValid,
+      expected: tolerance ? `${expected} ± ${tolerance}` : String(expected),
+      actual,
+      message: isValid
+        ? `${entry.formula} = ${actual} as expected`
+        : `${entry.formula} mismatch: expected ${expected}${tolerance ? ` ± ${tolerance}` : ''}, got ${actual}`
+    };
+  }
+
+  // Shown values compare like toMatchExcelResult: trimmed, any case
+  const isValid = actual.trim().toLowerCase() === expected.trim().toLowerCase();
+  return {
+    isValid,
+    expected,
+    actual,
+    message: isValid
+      ? `${entry.formula} = ${actual} as expected`
+      : `${entry.formula} mismatch: expected ${expected}, got ${actual}`
+  };
+}
+
+/**
+ * Compare what a cell shows with a catalogue entry
+ *
+ * @param window - Captured before entering the formula and after reading it,
+ *   for the volatile date functions
+ */
+export function checkFormulaResult(
+  entry: FormulaCatalogueEntry,
+  result: FormulaResult,
+  window: TimeWindow
+): FormulaCheckResult {
+  const actual = result.result;
+  if (result.resultType !== entry.resultType) {
+    return {
+      isValid: false,
+      expected: `a ${entry.resultType}`,
+      actual,
+      message: `${entry.formula} shows a ${result.resultType} (${actual}), expected a ${entry.resultType}`
+    };
+  }
+
+  const { expected } = entry;
+  if (typeof expected === 'string' || typeof expected === 'number') {
+    return checkLiteral(entry, actual, expected);
+  }
+
+  const validate = FORMULA_VALIDATORS[expected.validator] as (
+    actual: string,
+    expected: ComputedExpectation,
+    window: TimeWindow,
+    tolerance: number | undefined
+  ) => DateValidationResult;
+  const validation = validate(actual, expected, window, entry.tolerance);
+  return {
+    isValid: validation.isValid,
+    expected: validation.expectedDate,
+    actual: validation.actualDate,
+    message: `${entry.formula}: ${validation.message}`
+  };
+}
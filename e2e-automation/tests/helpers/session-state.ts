@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BrowserContext } from '@playwright/test';
+
+/**
+ * Signed-in browser state shared by all tests. global-setup.ts signs in once
+ * and saves it; every project in playwright.config.ts starts its browser
+ * contexts from it, so tests only sign in again when it has expired.
+ */
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/** Where the shared state is kept; git-ignored, as it holds session cookies */
+export const STORAGE_STATE_PATH = path.join(__dirname, '../../.auth/excel-session.json');
+
+/** State of a browser that never signed in */
+export const EMPTY_STORAGE_STATE: StorageState = { cookies: [], origins: [] };
+
+function isStorageState(value: unknown): value is StorageState {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as Record<string, unknown>)['cookies']) &&
+    Array.isArray((value as Record<string, unknown>)['origins'])
+  );
+}
+
+/**
+ * Read a saved state
+ *
+ * @returns EMPTY_STORAGE_STATE when the file is missing or not a storageState
+ */
+export function readStorageState(file: string = STORAGE_STATE_PATH): StorageState {
+  try {
+    const state: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (isStorageState(state)) {
+      return state;
+    }
+    console.warn(`⚠️ Ignoring ${file}: not a Playwright storageState`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`⚠️ Ignoring ${file}: ${(error as Error).message}`);
+    }
+  }
+  return EMPTY_STORAGE_STATE;
+}
+
+/**
+ * Write a state through a temporary file, so workers creating contexts at the
+ * same time never read it half-written
+ */
+export function writeStorageState(state: StorageState, file: string = STORAGE_STATE_PATH): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(state, null, 2));
+  fs.renameSync(temporary, file);
+}
+
+/**
+ * Save the cookies and local storage of a signed-in context for the tests
+ * that follow
+ */
+export async function saveStorageState(context: BrowserContext, file: string = STORAGE_STATE_PATH): Promise<void> {
+  writeStorageState(await context.storageState(), file);
+  console.log(`💾 Session saved to ${path.relative(process.cwd(), file)}`);
+}
@@ -1,8 +1,11 @@
 import { Page, BrowserContext, expect } from '@playwright/test';
-import { ExcelOnlinePage } from './excel-page';
+import { ExcelOnlinePageClean } from './excel-page-clean';
 import { ConfigLoader } from './config-loader';
+import { Clock, systemClock } from '../../../core';
 import { DateUtils } from './date-utils';
+import { createExcelAssertions } from './excel-assertions';
 import { BrowserUtils } from './browser-utils';
+import { saveStorageState } from './session-state';
 import * as testData from '../fixtures/test-data.json';
 
 /**
@@ -14,36 +17,45 @@ export class TestUtils {
   /**
    * Create and configure an Excel Online page instance
    */
-  static async createExcelPage(page: Page): Promise<ExcelOnlinePage> {
+  static async createExcelPage(page: Page): Promise<ExcelOnlinePageClean> {
     // Set up console logging and dialog handlers
     BrowserUtils.setupConsoleLogging(page);
     BrowserUtils.setupDialogHandlers(page);
 
-    // Create Excel page instance
-    const excelPage = new ExcelOnlinePage(page);
+    // Create Excel page instance, pointed at the mock when it is switched on
+    const excelPage = new ExcelOnlinePageClean(page, systemClock, this.configLoader.getExcelBaseUrl());
     
     return excelPage;
   }
 
   /**
-   * Perform complete Excel Online authentication flow
+   * Make sure the page is signed in to Excel Online. Browser contexts start
+   * from the session global-setup.ts stored, so the credentials are only
+   * entered when that session is missing or has expired.
+   *
+   * @param context - Context of the page; a new session is stored from it for
+   *   the tests that follow
    */
-  static async authenticateExcelOnline(excelPage: ExcelOnlinePage): Promise<void> {
+  static async authenticateExcelOnline(excelPage: ExcelOnlinePageClean, context?: BrowserContext): Promise<void> {
     const config = this.configLoader.getExcelConfig();
     
-    // Check if credentials are properly configured
-    if (config.credentials.username.includes('example.com') || 
-        config.credentials.username.includes('YOUR_REAL')) {
+    // Check if credentials are properly configured; the mock accepts any
+    if (!this.configLoader.isMockExcel() &&
+        (config.credentials.username.includes('example.com') || 
+         config.credentials.username.includes('YOUR_REAL'))) {
       throw new Error('Please configure real Microsoft credentials in test-config.json. Template credentials will not work.');
     }
     
-    await excelPage.login(config.credentials);
+    const signedInAgain = await excelPage.ensureSignedIn(config.credentials);
+    if (signedInAgain && context) {
+      await saveStorageState(context);
+    }
   }
 
   /**
    * Set up a new workbook for testing
    */
-  static async setupTestWorkbook(excelPage: ExcelOnlinePage): Promise<void> {
+  static async setupTestWorkbook(excelPage: ExcelOnlinePageClean): Promise<void> {
     await excelPage.createNewWorkbook();
     
     // Wait for Excel interface to be ready and stable
@@ -62,7 +74,7 @@ export class TestUtils {
   /**
    * Test TODAY() function and validate result
    */
-  static async testTodayFunction(excelPage: ExcelOnlinePage): Promise<{
+  static async testTodayFunction(excelPage: ExcelOnlinePageClean): Promise<{
     success: boolean;
     result: string;
     validation: any;
@@ -109,7 +121,7 @@ export class TestUtils {
    * Clean up test environment
    */
   static async cleanupTest(
-    excelPage: ExcelOnlinePage, 
+    excelPage: ExcelOnlinePageClean, 
     page: Page, 
     context?: BrowserContext
   ): Promise<void> {
@@ -148,44 +160,11 @@ export class TestUtils {
 
   /**
    * Create test assertions for Excel results
+   *
+   * @param clock - Source of "today" for toBeTodaysDate (default: system time)
    */
-  static createExcelAssertions() {
-    return {
-      /**
-       * Assert that a value looks like a date
-       */
-      async toBeValidDate(received: string) {
-        const isValid = DateUtils.looksLikeDate(received);
-        return {
-          message: () => `Expected "${received}" to be a valid date format`,
-          pass: isValid
-        };
-      },
-
-      /**
-       * Assert that a date matches today
-       */
-      async toBeTodaysDate(received: string) {
-        const validation = DateUtils.validateTodayFunction(received);
-        return {
-          message: () => validation.message,
-          pass: validation.isValid
-        };
-      },
-
-      /**
-       * Assert that Excel formula result is correct
-       */
-      async toMatchExcelResult(received: string, expected: string) {
-        const normalizedReceived = received.trim().toLowerCase();
-        const normalizedExpected = expected.trim().toLowerCase();
-        
-        return {
-          message: () => `Expected Excel result "${received}" to match "${expected}"`,
-          pass: normalizedReceived === normalizedExpected
-        };
-      }
-    };
+  static createExcelAssertions(clock: Clock = systemClock) {
+    return createExcelAssertions(clock);
   }
 
   /**
@@ -228,6 +207,12 @@ export class TestUtils {
    */
   static async validateTestEnvironment(): Promise<void> {
     const config = this.configLoader.loadConfig();
+
+    // The mock accepts any credentials
+    if (this.configLoader.isMockExcel()) {
+      console.log(`🧪 Using the local Excel Online mock at ${this.configLoader.getExcelBaseUrl()}`);
+      return;
+    }
     
     // Check if credentials are properly configured
     const invalidCredentials = [
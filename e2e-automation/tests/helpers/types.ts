@@ -2,6 +2,8 @@
  * Type definitions for Excel Online E2E testing
  */
 
+import type { DateFunctionArg, DateFunctionName } from '../../../core';
+
 export interface LoginCredentials {
   username: string;
   password: string;
@@ -10,6 +12,8 @@ export interface LoginCredentials {
 export interface TestConfiguration {
   excel: {
     baseUrl: string;
+    /** Run against the local mock server instead of baseUrl */
+    mock?: boolean;
     credentials: LoginCredentials;
     timeouts: {
       navigation: number;
@@ -24,22 +28,47 @@ export interface TestConfiguration {
   };
 }
 
-export interface DateValidationResult {
-  isValid: boolean;
-  expectedDate: string;
-  actualDate: string;
-  message: string;
-}
-
-export interface CellReference {
-  address: string;
-  row: number;
-  column: string;
-}
+export type { CellReference, DateValidationResult } from '../../../core';
 
 export interface FormulaResult {
   cellAddress: string;
   formula: string;
   result: string;
   resultType: 'date' | 'number' | 'text' | 'error';
-}
\ No newline at end of file
+}
+
+/**
+ * Expected value worked out when the test runs, by a validator of
+ * FORMULA_VALIDATORS in formula-catalogue.ts
+ */
+export type ComputedExpectation =
+  | { validator: 'today' | 'now' }
+  | { validator: 'dateFunction'; function: DateFunctionName; args: DateFunctionArg[] };
+
+/**
+ * One entry of tests/fixtures/formula-catalogue.json
+ */
+export interface FormulaCatalogueEntry {
+  /** Test title (default: the formula) */
+  name?: string;
+  formula: string;
+  /** Values or formulas entered first, by address: { "A1": "1/31/2025" } */
+  inputs?: Record<string, string>;
+  /** Cell the formula goes into (default: one row per entry in column H) */
+  cell?: string;
+  /** The shown value, a number, or a validator that computes it */
+  expected: string | number | ComputedExpectation;
+  /**
+   * Allowed difference: absolute for numbers, milliseconds around the entry
+   * time for the volatile date functions
+   */
+  tolerance?: number;
+  resultType: FormulaResult['resultType'];
+}
+
+export interface FormulaCheckResult {
+  isValid: boolean;
+  expected: string;
+  actual: string;
+  message: string;
+}
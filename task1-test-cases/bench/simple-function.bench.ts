@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  createIncrementer,
+  parseIdentifier,
+  stringIncrement,
+  tryStringIncrement,
+} from '../src/simple-function';
+
+/**
+ * Throughput benchmark for the identifier functions.
+ *
+ * Each case is warmed up, then timed over several fixed-length samples; the
+ * median operations per second is reported, with the spread between the
+ * slowest and fastest sample as a noise indicator. Results are printed and
+ * written to `bench-results/simple-function.json` so runs can be compared.
+ *
+ * Usage: npm run bench [-- --sample-ms 500 --samples 7]
+ */
+
+interface BenchmarkCase {
+  name: string;
+  run: () => unknown;
+}
+
+interface BenchmarkOptions {
+  warmupMs: number;
+  sampleMs: number;
+  samples: number;
+}
+
+interface BenchmarkResult {
+  name: string;
+  /** Median operations per second across samples */
+  opsPerSecond: number;
+  /** (fastest - slowest) / median, as a percentage */
+  spreadPercent: number;
+  samples: number;
+  /** Output of the last call, to check the case does what its name says */
+  output: string;
+}
+
+const carrying = createIncrementer({ overflow: 'carry' });
+
+const cases: BenchmarkCase[] = [
+  { name: 'increment A1', run: () => stringIncrement('A1') },
+  { name: 'increment FX001 (padded)', run: () => stringIncrement('FX001') },
+  { name: 'increment A99 (expansion)', run: () => stringIncrement('A99') },
+  { name: 'increment A9999 (overflow)', run: () => stringIncrement('A9999') },
+  {
+    name: 'increment ABCD1234 (maximum)',
+    run: () => stringIncrement('ABCD1234'),
+  },
+  { name: 'increment INVALID', run: () => stringIncrement('INVALID') },
+  { name: 'increment empty string', run: () => stringIncrement('') },
+  { name: 'tryStringIncrement FX001', run: () => tryStringIncrement('FX001') },
+  { name: 'carry AZ9999', run: () => carrying.increment('AZ9999') },
+  { name: 'parseIdentifier FxYz123', run: () => parseIdentifier('FxYz123') },
+];
+
+/** Results are consumed here so the engine cannot drop the calls */
+let sink: unknown;
+
+/**
+ * Run `bench` in batches until `durationMs` has elapsed; returns ops/sec
+ */
+function runFor(bench: BenchmarkCase, durationMs: number): number {
+  const batch = 1000;
+  const deadline = process.hrtime.bigint() + BigInt(durationMs) * 1_000_000n;
+  const start = process.hrtime.bigint();
+  let operations = 0;
+  let now = start;
+  while (now < deadline) {
+    for (let i = 0; i < batch; i++) {
+      sink = bench.run();
+    }
+    operations += batch;
+    now = process.hrtime.bigint();
+  }
+  return operations / (Number(now - start) / 1e9);
+}
+
+function measure(
+  bench: BenchmarkCase,
+  options: BenchmarkOptions
+): BenchmarkResult {
+  runFor(bench, options.warmupMs);
+  const samples = Array.from({ length: options.samples }, () =>
+    runFor(bench, options.sampleMs)
+  ).sort((a, b) => a - b);
+  const median = samples[Math.floor(samples.length / 2)] as number;
+  const spread =
+    (samples[samples.length - 1] as number) - (samples[0] as number);
+
+  return {
+    name: bench.name,
+    opsPerSecond: Math.round(median),
+    spreadPercent: Number(((spread / median) * 100).toFixed(1)),
+    samples: samples.length,
+    output: JSON.stringify(sink),
+  };
+}
+
+function parseOptions(argv: string[]): BenchmarkOptions {
+  const options: BenchmarkOptions = {
+    warmupMs: 200,
+    sampleMs: 250,
+    samples: 5,
+  };
+  for (let i = 0; i < argv.length; i += 2) {
+    const value = Number(argv[i + 1]);
+    if (!Number.isInteger(value) || value < 1) {
+      throw new RangeError(`Expected a positive integer after ${argv[i]}`);
+    }
+    switch (argv[i]) {
+      case '--warmup-ms':
+        options.warmupMs = value;
+        break;
+      case '--sample-ms':
+        options.sampleMs = value;
+        break;
+      case '--samples':
+        options.samples = value;
+        break;
+      default:
+        throw new RangeError(`Unknown option: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseOptions(process.argv.slice(2));
+  const results = cases.map(bench => measure(bench, options));
+
+  console.table(
+    results.map(({ name, opsPerSecond, spreadPercent }) => ({
+      case: name,
+      'ops/sec': opsPerSecond.toLocaleString('en-US'),
+      spread: `${spreadPercent}%`,
+    }))
+  );
+
+  const outputPath = path.join(
+    __dirname,
+    '..',
+    'bench-results',
+    'simple-function.json'
+  );
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(
+    outputPath,
+    `${JSON.stringify(
+      {
+        recordedAt: new Date().toISOString(),
+        node: process.version,
+        options,
+        results,
+      },
+      null,
+      2
+    )}\n`
+  );
+  console.log(`Results written to ${outputPath}`);
+}
+
+main().catch((error: unknown) => {
+  console.error(error);
+  process.exitCode = 1;
+});
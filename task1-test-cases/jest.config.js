@@ -1,25 +1,25 @@
 module.exports = {
-  // Use ts-jest preset for TypeScript support
-  preset: 'ts-jest',
-  
   // Test environment
   testEnvironment: 'node',
   
-  // Root directory for tests and modules
-  rootDir: '.',
+  // Root directory for tests and modules: the workspace, so that the shared
+  // core package tested from here is also measured for coverage
+  rootDir: '..',
+  roots: ['<rootDir>/task1-test-cases', '<rootDir>/core'],
   
   // Test file patterns
   testMatch: [
-    '<rootDir>/tests/**/*.test.ts',
-    '<rootDir>/tests/**/*.spec.ts'
+    '<rootDir>/task1-test-cases/tests/**/*.test.ts',
+    '<rootDir>/task1-test-cases/tests/**/*.spec.ts'
   ],
   
   // Module file extensions
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
   
-  // Transform files with ts-jest (modern approach)
+  // Transform files with ts-jest (modern approach); resolved from this
+  // package because rootDir points at the workspace
   transform: {
-    '^.+\\.ts$': ['ts-jest', {
+    '^.+\\.ts$': [require.resolve('ts-jest'), {
       tsconfig: {
         target: 'es2020',
         module: 'commonjs',
@@ -36,14 +36,21 @@ module.exports = {
   // Coverage configuration
   collectCoverage: true,
   collectCoverageFrom: [
-    'src/**/*.ts',
-    '!src/**/*.d.ts',
-    '!src/**/*.test.ts',
-    '!src/**/*.spec.ts'
+    'task1-test-cases/src/**/*.ts',
+    'core/src/**/*.ts',
+    'e2e-automation/tests/helpers/date-utils.ts',
+    'e2e-automation/tests/helpers/excel-assertions.ts',
+    'e2e-automation/tests/helpers/excel-cells.ts',
+    'e2e-automation/tests/helpers/formula-catalogue.ts',
+    'e2e-automation/tests/helpers/session-state.ts',
+    'e2e-automation/mock-server/**/*.ts',
+    '!**/*.d.ts',
+    '!**/*.test.ts',
+    '!**/*.spec.ts'
   ],
   
   // Coverage output directory
-  coverageDirectory: 'coverage',
+  coverageDirectory: '<rootDir>/task1-test-cases/coverage',
   
   // Coverage reporters
   coverageReporters: [
@@ -0,0 +1,241 @@
+import * as readline from 'readline';
+import {
+  IdentifierBlock,
+  IncrementFailure,
+  range,
+  tryParseIdentifier,
+  tryStringIncrement,
+} from '../../core';
+
+/**
+ * Streams the CLI reads from and writes to; `process` streams in production,
+ * in-memory streams in tests
+ */
+export interface CliIO {
+  stdin: NodeJS.ReadableStream;
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+}
+
+/** Exit code when every input was processed successfully */
+export const EXIT_OK = 0;
+/** Exit code when at least one input was rejected */
+export const EXIT_INVALID_INPUT = 1;
+/** Exit code for unknown subcommands, options or a wrong number of arguments */
+export const EXIT_USAGE = 2;
+
+export const USAGE = `Usage: string-increment <command> [--json] [ids...]
+
+Commands:
+  increment [ids...]   Print the successor of each identifier
+  validate [ids...]    Check that each identifier is well-formed
+  range <start> <end>  Print every identifier from start to end inclusive
+
+Identifiers are read from stdin, one per line, when none are given as
+arguments (blank lines are skipped). Invalid input is reported on stderr
+with its line number, and the exit code is 1.
+
+Options:
+  --json               Write results to stdout as JSON
+  -h, --help           Show this help
+`;
+
+const COMMANDS = ['increment', 'validate', 'range'] as const;
+type Command = (typeof COMMANDS)[number];
+
+function isCommand(value: string): value is Command {
+  return (COMMANDS as readonly string[]).includes(value);
+}
+
+/**
+ * One input identifier together with where it came from
+ */
+interface InputLine {
+  /** 1-based stdin line number, or argument position */
+  line: number;
+  value: string;
+}
+
+/**
+ * Outcome for one input, as written in JSON mode
+ */
+interface LineReport {
+  line: number;
+  input: string;
+  ok: boolean;
+  output?: string;
+  error?: Omit<IncrementFailure, 'ok'>;
+}
+
+function errorDetails({
+  code,
+  message,
+  position,
+}: IncrementFailure): Omit<IncrementFailure, 'ok'> {
+  return position === undefined
+    ? { code, message }
+    : { code, message, position };
+}
+
+async function readLines(stdin: NodeJS.ReadableStream): Promise<InputLine[]> {
+  const lines: InputLine[] = [];
+  const reader = readline.createInterface({
+    input: stdin,
+    crlfDelay: Infinity,
+  });
+  let line = 0;
+  for await (const value of reader) {
+    line++;
+    if (value.trim() !== '') {
+      lines.push({ line, value });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Run the `increment` or `validate` subcommand over every input, reporting
+ * failures without stopping at the first one
+ */
+function processLines(
+  command: 'increment' | 'validate',
+  inputs: InputLine[],
+  label: string,
+  json: boolean,
+  io: CliIO
+): number {
+  const reports = inputs.map(({ line, value }): LineReport => {
+    if (command === 'validate') {
+      const parsed = tryParseIdentifier(value);
+      return parsed.ok
+        ? { line, input: value, ok: true }
+        : { line, input: value, ok: false, error: errorDetails(parsed) };
+    }
+    const result = tryStringIncrement(value);
+    return result.ok
+      ? { line, input: value, ok: true, output: result.value }
+      : { line, input: value, ok: false, error: errorDetails(result) };
+  });
+
+  for (const report of reports) {
+    if (report.error) {
+      io.stderr.write(
+        `${label} ${report.line}: "${report.input}": ${report.error.message}\n`
+      );
+    } else if (!json) {
+      io.stdout.write(`${report.output ?? `${report.input}: valid`}\n`);
+    }
+  }
+  if (json) {
+    io.stdout.write(`${JSON.stringify(reports, null, 2)}\n`);
+  }
+
+  return reports.every(report => report.ok) ? EXIT_OK : EXIT_INVALID_INPUT;
+}
+
+function processRange(
+  start: InputLine,
+  end: InputLine,
+  json: boolean,
+  io: CliIO
+): number {
+  for (const { line, value } of [start, end]) {
+    const parsed = tryParseIdentifier(value);
+    if (!parsed.ok) {
+      io.stderr.write(`argument ${line}: "${value}": ${parsed.message}\n`);
+      return EXIT_INVALID_INPUT;
+    }
+  }
+
+  let block: IdentifierBlock;
+  try {
+    block = range(start.value, end.value);
+  } catch (error) {
+    // Both ends are valid, so this is a prefix mismatch or a reversed range
+    io.stderr.write(`range: ${(error as Error).message}\n`);
+    return EXIT_INVALID_INPUT;
+  }
+
+  if (json) {
+    io.stdout.write(
+      `${JSON.stringify({ start: block.first, end: block.last, size: block.size, ids: [...block] }, null, 2)}\n`
+    );
+  } else {
+    for (const id of block) {
+      io.stdout.write(`${id}\n`);
+    }
+  }
+  return EXIT_OK;
+}
+
+function usageError(io: CliIO, message: string): number {
+  io.stderr.write(`${message}\n\n${USAGE}`);
+  return EXIT_USAGE;
+}
+
+/**
+ * Entry point of the identifier CLI. All identifier handling goes through
+ * the library (`tryStringIncrement`, `tryParseIdentifier`, `range`), so the
+ * CLI accepts exactly what `stringIncrement` accepts.
+ *
+ * @example
+ * ```bash
+ * npm run cli -- increment FX001 A9999     # FX002, A0000
+ * cat ids.txt | npm run cli -- validate --json
+ * npm run cli -- range INV0001 INV0005
+ * ```
+ *
+ * @param argv - Arguments after the script name
+ * @returns The process exit code
+ */
+export async function main(argv: string[], io: CliIO): Promise<number> {
+  let json = false;
+  const positional: string[] = [];
+  let optionsEnded = false;
+
+  for (const arg of argv) {
+    if (optionsEnded || !arg.startsWith('-')) {
+      positional.push(arg);
+    } else if (arg === '--') {
+      optionsEnded = true;
+    } else if (arg === '--json') {
+      json = true;
+    } else if (arg === '-h' || arg === '--help') {
+      io.stdout.write(USAGE);
+      return EXIT_OK;
+    } else {
+      return usageError(io, `Unknown option: ${arg}`);
+    }
+  }
+
+  const [command, ...ids] = positional;
+  if (command === undefined) {
+    return usageError(io, 'Missing command');
+  }
+  if (!isCommand(command)) {
+    return usageError(io, `Unknown command: ${command}`);
+  }
+
+  const args = ids.map((value, index) => ({ line: index + 1, value }));
+  if (command === 'range') {
+    const [start, end, ...extra] = args;
+    if (start === undefined || end === undefined || extra.length > 0) {
+      return usageError(io, 'range expects exactly two identifiers');
+    }
+    return processRange(start, end, json, io);
+  }
+  return args.length > 0
+    ? processLines(command, args, 'argument', json, io)
+    : processLines(command, await readLines(io.stdin), 'line', json, io);
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2), process)
+    .then(code => {
+      process.exitCode = code;
+    })
+    .catch((error: unknown) => {
+      process.stderr.write(`${String(error)}\n`);
+      process.exitCode = EXIT_INVALID_INPUT;
+    });
+}
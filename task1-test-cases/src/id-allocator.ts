@@ -0,0 +1,380 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createIncrementer, IncrementError, Incrementer } from '../../core';
+
+/**
+ * Allocation record for one series (letter prefix). Every identifier from
+ * `first` up to `last`, in increment order, has been handed out.
+ */
+export interface SeriesState {
+  /** Identifier the series started from */
+  first: string;
+  /** Most recently issued identifier (the high-water mark) */
+  last: string;
+}
+
+/**
+ * Persisted allocator state, keyed by series prefix
+ */
+export type AllocatorState = Record<string, SeriesState>;
+
+/**
+ * Persistence for `IdAllocator`. `load` must return a copy the allocator may
+ * mutate; `save` replaces the whole state.
+ */
+export interface AllocatorStore {
+  load(): Promise<AllocatorState>;
+  save(state: AllocatorState): Promise<void>;
+}
+
+export interface IdAllocatorOptions {
+  /** Where high-water marks are kept (default: a new InMemoryAllocatorStore) */
+  store?: AllocatorStore;
+  /** Identifier format and overflow strategy (default: the stringIncrement format) */
+  incrementer?: Incrementer;
+  /** Number a new series starts from (default 1) */
+  start?: number;
+  /** Digit width of a new series (default: the format's minDigits) */
+  width?: number;
+}
+
+function cloneState(state: AllocatorState): AllocatorState {
+  const copy: AllocatorState = {};
+  for (const [prefix, { first, last }] of Object.entries(state)) {
+    copy[prefix] = { first, last };
+  }
+  return copy;
+}
+
+function isSeriesState(value: unknown): value is SeriesState {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { first, last } = value as Record<string, unknown>;
+  return typeof first === 'string' && typeof last === 'string';
+}
+
+/**
+ * Store that keeps state in process memory; useful for tests and for
+ * allocators whose identifiers do not need to survive a restart
+ */
+export class InMemoryAllocatorStore implements AllocatorStore {
+  private state: AllocatorState;
+
+  constructor(initialState: AllocatorState = {}) {
+    this.state = cloneState(initialState);
+  }
+
+  load(): Promise<AllocatorState> {
+    return Promise.resolve(cloneState(this.state));
+  }
+
+  save(state: AllocatorState): Promise<void> {
+    this.state = cloneState(state);
+    return Promise.resolve();
+  }
+}
+
+// Whether a process id belongs to a process that is still running
+function isRunning(pid: number): boolean {
+  if (!Number.isSafeInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Store that persists state as JSON. A missing file is an empty state; writes
+ * go to a temporary file that is renamed over the target, so a crash mid-write
+ * never leaves a truncated file behind.
+ *
+ * A file belongs to one process at a time. The first `save` claims it with a
+ * `<file>.lock` holding the process id, and saves from any other process fail
+ * while that process is running, instead of silently overwriting each other's
+ * high-water marks. Call `release` when done; a lock left by a process that
+ * has exited is taken over.
+ */
+export class JsonFileAllocatorStore implements AllocatorStore {
+  private claimed = false;
+
+  constructor(private readonly filePath: string) {}
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  async load(): Promise<AllocatorState> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Failed to parse allocator state ${this.filePath}: ${String(error)}`
+      );
+    }
+
+    if (
+      typeof parsed !== 'object' ||
+      parsed === null ||
+      Array.isArray(parsed) ||
+      !Object.values(parsed).every(isSeriesState)
+    ) {
+      throw new Error(
+        `Invalid allocator state in ${this.filePath}: expected an object of { first, last } entries`
+      );
+    }
+    return cloneState(parsed as AllocatorState);
+  }
+
+  /**
+   * @throws Error when another running process owns the file
+   */
+  async save(state: AllocatorState): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.claim();
+    // Unique per call: allocators sharing the file may save at the same time
+    const tempPath = `${this.filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, `${JSON.stringify(state, null, 2)}\n`);
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Give the file up, so another process may save to it
+   */
+  async release(): Promise<void> {
+    if (!this.claimed) {
+      return;
+    }
+    this.claimed = false;
+    const owner = await fs.readFile(this.lockPath, 'utf-8').catch(() => '');
+    if (Number(owner) === process.pid) {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  private async claim(): Promise<void> {
+    if (this.claimed) {
+      return;
+    }
+    try {
+      await fs.writeFile(this.lockPath, String(process.pid), { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      const owner = Number(await fs.readFile(this.lockPath, 'utf-8'));
+      if (owner !== process.pid && isRunning(owner)) {
+        throw new Error(
+          `Allocator state ${this.filePath} is in use by process ${owner}; a JSON file store serves one process at a time`
+        );
+      }
+      // Left by this process or by one that has exited
+      await fs.writeFile(this.lockPath, String(process.pid));
+    }
+    this.claimed = true;
+  }
+}
+
+/**
+ * Hands out identifiers without collisions by keeping a per-prefix
+ * high-water mark, instead of incrementing "the last ID we saw".
+ *
+ * Operations on one allocator run one at a time (load, compute, save), so
+ * concurrent `allocate` calls from several async workers never receive the
+ * same identifier. Share a single allocator per store; a JSON file store
+ * refuses saves from a second process rather than coordinating with it.
+ *
+ * An identifier that has already been issued is never handed out again: once
+ * a `wrap` format cycles back to the start of its series, allocation fails with
+ * `ID_IN_USE` instead of reusing it.
+ *
+ * @example
+ * ```typescript
+ * const allocator = new IdAllocator({
+ *   store: new JsonFileAllocatorStore('state/invoices.json'),
+ *   incrementer: createIncrementer({ minLetters: 3, maxLetters: 3, minDigits: 6, maxDigits: 6 }),
+ * });
+ * await allocator.allocate('INV');          // 'INV000001'
+ * await allocator.allocateBatch('INV', 3);  // ['INV000002', 'INV000003', 'INV000004']
+ * ```
+ */
+export class IdAllocator {
+  private readonly store: AllocatorStore;
+  private readonly incrementer: Incrementer;
+  private readonly start: number;
+  private readonly width: number;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(options: IdAllocatorOptions = {}) {
+    this.store = options.store ?? new InMemoryAllocatorStore();
+    this.incrementer = options.incrementer ?? createIncrementer();
+    this.start = options.start ?? 1;
+    this.width = options.width ?? this.incrementer.spec.minDigits;
+
+    if (!Number.isSafeInteger(this.start) || this.start < 0) {
+      throw new RangeError(
+        `Start must be a non-negative safe integer, got ${String(this.start)}`
+      );
+    }
+    if (!Number.isInteger(this.width) || this.width < 1) {
+      throw new RangeError(
+        `Width must be a positive integer, got ${String(this.width)}`
+      );
+    }
+  }
+
+  /**
+   * Issue the next identifier of a series
+   *
+   * @throws IncrementError for an invalid prefix, on overflow, or with
+   *         ID_IN_USE when the next identifier was already issued
+   */
+  async allocate(prefix: string): Promise<string> {
+    const ids = await this.allocateBatch(prefix, 1);
+    const [id] = ids;
+    if (id === undefined) {
+      throw new Error(
+        `Expected one identifier for "${prefix}", got ${ids.length}`
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Issue the next `count` identifiers of a series atomically: either all of
+   * them are recorded, or (on any failure) none are.
+   *
+   * @throws IncrementError as for `allocate`
+   * @throws RangeError when `count` is not a positive safe integer
+   */
+  async allocateBatch(prefix: string, count: number): Promise<string[]> {
+    if (!Number.isSafeInteger(count) || count < 1) {
+      throw new RangeError(
+        `Count must be a positive safe integer, got ${String(count)}`
+      );
+    }
+
+    return this.exclusive(async () => {
+      const { origin, key } = this.seriesOrigin(prefix);
+      const state = await this.store.load();
+      const series = state[key];
+      const first = series?.first ?? origin;
+
+      const ids: string[] = [];
+      let next = series ? this.incrementer.add(series.last, 1) : origin;
+      while (ids.length < count) {
+        // A `carry` format moves on to the next prefix, which is another series
+        if (this.incrementer.parse(next).prefix !== key) {
+          throw new IncrementError({
+            ok: false,
+            code: 'OVERFLOW',
+            message: `Identifier "${next}" belongs to series "${this.incrementer.parse(next).prefix}"; series "${key}" is exhausted`,
+          });
+        }
+        if ((series || ids.length > 0) && this.isSameId(next, first)) {
+          throw new IncrementError({
+            ok: false,
+            code: 'ID_IN_USE',
+            message: `Identifier "${next}" has already been issued; series "${key}" is exhausted`,
+          });
+        }
+        ids.push(next);
+        if (ids.length < count) {
+          next = this.incrementer.add(next, 1);
+        }
+      }
+
+      state[key] = { first, last: next };
+      await this.store.save(state);
+      return ids;
+    });
+  }
+
+  /**
+   * Record an identifier that was issued elsewhere, so it and everything
+   * before it in its series are treated as in use. Never lowers an existing
+   * high-water mark.
+   *
+   * @throws IncrementError for invalid identifiers
+   */
+  async seed(lastIssued: string): Promise<void> {
+    await this.exclusive(async () => {
+      const parts = this.incrementer.parse(lastIssued);
+      const id = this.incrementer.format(parts);
+      const state = await this.store.load();
+      const series = state[parts.prefix];
+
+      if (!series) {
+        const first =
+          parts.number < this.start
+            ? id
+            : this.incrementer.format({ ...parts, number: this.start });
+        state[parts.prefix] = { first, last: id };
+      } else {
+        const ahead = this.incrementer.tryDistance(series.last, id);
+        if (!ahead.ok || ahead.value <= 0) {
+          return;
+        }
+        series.last = id;
+      }
+      await this.store.save(state);
+    });
+  }
+
+  /**
+   * Most recently issued identifier of a series, or undefined if none was issued
+   *
+   * @throws IncrementError for an invalid prefix
+   */
+  async highWaterMark(prefix: string): Promise<string | undefined> {
+    return this.exclusive(async () => {
+      const { key } = this.seriesOrigin(prefix);
+      const state = await this.store.load();
+      return state[key]?.last;
+    });
+  }
+
+  /**
+   * First identifier of a series and the state key it is recorded under:
+   * the prefix as the incrementer normalizes it
+   */
+  private seriesOrigin(prefix: string): { origin: string; key: string } {
+    const origin = this.incrementer.format({
+      prefix,
+      number: this.start,
+      width: this.width,
+    });
+    return { origin, key: this.incrementer.parse(origin).prefix };
+  }
+
+  private isSameId(a: string, b: string): boolean {
+    const x = this.incrementer.parse(a);
+    const y = this.incrementer.parse(b);
+    return x.prefix === y.prefix && x.number === y.number;
+  }
+
+  /**
+   * Run `task` after every previously queued operation has settled
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+}
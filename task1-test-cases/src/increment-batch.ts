@@ -0,0 +1,211 @@
+import { StringDecoder } from 'string_decoder';
+import { Transform, TransformCallback } from 'stream';
+import {
+  createIncrementer,
+  IncrementErrorCode,
+  Incrementer,
+  IncrementResult,
+} from '../../core';
+
+// Built once: the identifier regex is compiled when the incrementer is
+// created, so batches and streams never recompile it per item
+const defaultIncrementer = createIncrementer();
+
+/**
+ * Outcome for one input: the increment result plus where the input came from
+ */
+export type LineResult = IncrementResult & {
+  /** 1-based position of the input (line number for streams) */
+  line: number;
+  input: string;
+};
+
+/**
+ * Counts over a batch, with failures broken down by error code
+ */
+export interface IncrementSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Failure counts per error code; codes that did not occur are absent */
+  byCode: Partial<Record<IncrementErrorCode, number>>;
+}
+
+export interface IncrementBatch {
+  results: LineResult[];
+  summary: IncrementSummary;
+}
+
+/**
+ * Incrementally built summary, shared by the batch and stream APIs
+ */
+class SummaryCounter {
+  private total = 0;
+  private succeeded = 0;
+  private readonly byCode: Partial<Record<IncrementErrorCode, number>> = {};
+
+  add(result: IncrementResult): void {
+    this.total++;
+    if (result.ok) {
+      this.succeeded++;
+    } else {
+      this.byCode[result.code] = (this.byCode[result.code] ?? 0) + 1;
+    }
+  }
+
+  snapshot(): IncrementSummary {
+    return {
+      total: this.total,
+      succeeded: this.succeeded,
+      failed: this.total - this.succeeded,
+      byCode: { ...this.byCode },
+    };
+  }
+}
+
+function incrementLine(
+  input: string,
+  line: number,
+  incrementer: Incrementer,
+  counter: SummaryCounter
+): LineResult {
+  const result = incrementer.tryIncrement(input);
+  counter.add(result);
+  return { ...result, line, input };
+}
+
+/**
+ * Increment every identifier of `inputs`, collecting one typed result per
+ * item instead of stopping at (or hiding) the first failure.
+ *
+ * @example
+ * ```typescript
+ * const { results, summary } = incrementMany(['FX001', 'A-1', 'A9']);
+ * // results[1] → { ok: false, code: 'INVALID_CHAR', ..., line: 2, input: 'A-1' }
+ * // summary    → { total: 3, succeeded: 2, failed: 1, byCode: { INVALID_CHAR: 1 } }
+ * ```
+ *
+ * @param inputs - Any iterable (array, Set, generator) of identifiers
+ * @param incrementer - Format and overflow strategy to apply (default: stringIncrement's)
+ */
+export function incrementMany(
+  inputs: Iterable<string>,
+  incrementer: Incrementer = defaultIncrementer
+): IncrementBatch {
+  const counter = new SummaryCounter();
+  const results: LineResult[] = [];
+  let line = 0;
+  for (const input of inputs) {
+    results.push(incrementLine(input, ++line, incrementer, counter));
+  }
+  return { results, summary: counter.snapshot() };
+}
+
+export interface IncrementStreamOptions {
+  /** Format and overflow strategy to apply (default: stringIncrement's) */
+  incrementer?: Incrementer;
+  /**
+   * 'object' (default) pushes LineResult objects; 'ndjson' pushes one JSON
+   * line per result, ready to pipe into a file or another process
+   */
+  output?: 'object' | 'ndjson';
+}
+
+/**
+ * Transform stream from text (one identifier per line, LF or CRLF) to one
+ * result per line. Every line counts, so line numbers match the source file;
+ * blank lines fail with EMPTY. The final newline does not start a new line.
+ *
+ * `summary` is available at any point and is emitted as a 'summary' event
+ * once the input ends.
+ *
+ * @example
+ * ```typescript
+ * const increments = new IncrementStream({ output: 'ndjson' });
+ * increments.on('summary', summary => console.log(summary));
+ * await pipeline(fs.createReadStream('ids.txt'), increments, fs.createWriteStream('out.ndjson'));
+ * ```
+ */
+export class IncrementStream extends Transform {
+  private readonly incrementer: Incrementer;
+  private readonly output: 'object' | 'ndjson';
+  private readonly counter = new SummaryCounter();
+  private readonly decoder = new StringDecoder('utf8');
+  private pending = '';
+  private line = 0;
+  /** Continues a chunk whose lines did not all fit in the readable buffer */
+  private continueChunk: (() => void) | undefined;
+
+  constructor(options: IncrementStreamOptions = {}) {
+    const output = options.output ?? 'object';
+    super({ readableObjectMode: output === 'object' });
+    this.incrementer = options.incrementer ?? defaultIncrementer;
+    this.output = output;
+  }
+
+  get summary(): IncrementSummary {
+    return this.counter.snapshot();
+  }
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    const lines = (this.pending + this.decoder.write(chunk)).split('\n');
+    this.pending = lines.pop() ?? '';
+    this.pushLines(lines, 0, callback);
+  }
+
+  override _read(size: number): void {
+    const continueChunk = this.continueChunk;
+    if (continueChunk) {
+      this.continueChunk = undefined;
+      continueChunk();
+    } else {
+      super._read(size);
+    }
+  }
+
+  /**
+   * Push results until the readable buffer is full, then wait for the
+   * consumer before going on, so a slow consumer holds back the input
+   */
+  private pushLines(
+    lines: readonly string[],
+    from: number,
+    callback: TransformCallback
+  ): void {
+    for (let index = from; index < lines.length; ) {
+      const hasRoom = this.pushLine(lines[index++] ?? '');
+      if (!hasRoom && index < lines.length) {
+        this.continueChunk = () => this.pushLines(lines, index, callback);
+        return;
+      }
+    }
+    callback();
+  }
+
+  override _flush(callback: TransformCallback): void {
+    const rest = this.pending + this.decoder.end();
+    if (rest !== '') {
+      this.pushLine(rest);
+    }
+    this.emit('summary', this.summary);
+    callback();
+  }
+
+  /** @returns false when the readable buffer is full */
+  private pushLine(text: string): boolean {
+    const input = text.endsWith('\r') ? text.slice(0, -1) : text;
+    const result = incrementLine(
+      input,
+      ++this.line,
+      this.incrementer,
+      this.counter
+    );
+    return this.push(
+      this.output === 'object' ? result : `${JSON.stringify(result)}\n`
+    );
+  }
+}
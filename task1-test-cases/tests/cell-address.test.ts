@@ -0,0 +1,254 @@
+import {
+  CellAddressError,
+  CellAddressErrorCode,
+  columnToNumber,
+  fromR1C1,
+  incrementColumn,
+  incrementRow,
+  MAX_COLUMNS,
+  MAX_ROWS,
+  numberToColumn,
+  offsetAddress,
+  parseAddress,
+  rangeAddresses,
+  toR1C1,
+} from '../../core';
+
+/**
+ * Test data for data-driven testing of column letters
+ */
+const columnTestCases = [
+  { letters: 'A', number: 1 },
+  { letters: 'Z', number: 26 },
+  { letters: 'AA', number: 27 },
+  { letters: 'AZ', number: 52 },
+  { letters: 'BA', number: 53 },
+  { letters: 'ZZ', number: 702 },
+  { letters: 'AAA', number: 703 },
+  { letters: 'XFD', number: MAX_COLUMNS },
+];
+
+const incrementColumnTestCases = [
+  { letters: 'A', n: 1, expected: 'B' },
+  { letters: 'Z', n: 1, expected: 'AA' },
+  { letters: 'AZ', n: 1, expected: 'BA' },
+  { letters: 'ZZ', n: 1, expected: 'AAA' },
+  { letters: 'xfc', n: 1, expected: 'XFD' },
+  { letters: 'AA', n: -1, expected: 'Z' },
+  { letters: 'A', n: 25, expected: 'Z' },
+];
+
+const invalidTestCases: Array<{
+  run: () => unknown;
+  code: CellAddressErrorCode;
+  description: string;
+}> = [
+  {
+    run: () => incrementColumn('XFD'),
+    code: 'COLUMN_OUT_OF_RANGE',
+    description: 'increment past XFD',
+  },
+  {
+    run: () => incrementColumn('A', -1),
+    code: 'COLUMN_OUT_OF_RANGE',
+    description: 'decrement before A',
+  },
+  {
+    run: () => columnToNumber('XFE'),
+    code: 'COLUMN_OUT_OF_RANGE',
+    description: 'column past XFD',
+  },
+  {
+    run: () => columnToNumber('ABCD'),
+    code: 'INVALID_ADDRESS',
+    description: 'four column letters',
+  },
+  {
+    run: () => numberToColumn(0),
+    code: 'COLUMN_OUT_OF_RANGE',
+    description: 'column number 0',
+  },
+  {
+    run: () => parseAddress('B0'),
+    code: 'ROW_OUT_OF_RANGE',
+    description: 'row 0',
+  },
+  {
+    run: () => parseAddress('A1048577'),
+    code: 'ROW_OUT_OF_RANGE',
+    description: 'row past the last',
+  },
+  {
+    run: () => parseAddress('7B'),
+    code: 'INVALID_ADDRESS',
+    description: 'row before column',
+  },
+  {
+    run: () => parseAddress('B7:C8'),
+    code: 'INVALID_ADDRESS',
+    description: 'range instead of a cell',
+  },
+  {
+    run: () => rangeAddresses('A1:B2:C3'),
+    code: 'INVALID_ADDRESS',
+    description: 'range with three corners',
+  },
+  {
+    run: () => rangeAddresses('A1:'),
+    code: 'INVALID_ADDRESS',
+    description: 'range without an end',
+  },
+  {
+    run: () => incrementRow('A1048576'),
+    code: 'ROW_OUT_OF_RANGE',
+    description: 'increment past the last row',
+  },
+  {
+    run: () => offsetAddress('B7', { columns: -2 }),
+    code: 'COLUMN_OUT_OF_RANGE',
+    description: 'offset left of column A',
+  },
+  {
+    run: () => offsetAddress('B7', { rows: 0.5 }),
+    code: 'ROW_OUT_OF_RANGE',
+    description: 'fractional offset',
+  },
+  {
+    run: () => fromR1C1('R[1]C[-1]'),
+    code: 'INVALID_ADDRESS',
+    description: 'relative R1C1',
+  },
+  {
+    run: () => fromR1C1('R1C16385'),
+    code: 'COLUMN_OUT_OF_RANGE',
+    description: 'R1C1 column past XFD',
+  },
+];
+
+describe('cell addresses', () => {
+  describe('column letters', () => {
+    columnTestCases.forEach(({ letters, number }) => {
+      it(`should map column ${letters} to ${number} and back`, () => {
+        expect(columnToNumber(letters)).toBe(number);
+        expect(columnToNumber(letters.toLowerCase())).toBe(number);
+        expect(numberToColumn(number)).toBe(letters);
+      });
+    });
+
+    incrementColumnTestCases.forEach(({ letters, n, expected }) => {
+      it(`should move column ${letters} by ${n} to ${expected}`, () => {
+        expect(incrementColumn(letters, n)).toBe(expected);
+      });
+    });
+
+    it('should round-trip every column', () => {
+      for (let column = 1; column <= MAX_COLUMNS; column++) {
+        if (columnToNumber(numberToColumn(column)) !== column) {
+          throw new Error(`Column ${column} does not round-trip`);
+        }
+      }
+    });
+  });
+
+  describe('addresses', () => {
+    it('should parse A1 addresses into CellReference', () => {
+      expect(parseAddress('B7')).toEqual({
+        address: 'B7',
+        row: 7,
+        column: 'B',
+      });
+      expect(parseAddress('$b$7')).toEqual({
+        address: 'B7',
+        row: 7,
+        column: 'B',
+      });
+      expect(parseAddress(`xfd${MAX_ROWS}`).address).toBe(`XFD${MAX_ROWS}`);
+    });
+
+    it('should offset by columns and rows', () => {
+      expect(offsetAddress('B7', { columns: 3 })).toEqual({
+        address: 'E7',
+        row: 7,
+        column: 'E',
+      });
+      expect(offsetAddress('Z1', { columns: 1, rows: 9 }).address).toBe('AA10');
+      expect(offsetAddress('C3', { columns: -2, rows: -2 }).address).toBe('A1');
+      expect(offsetAddress('C3', {}).address).toBe('C3');
+    });
+
+    it('should increment rows', () => {
+      expect(incrementRow('B7')).toEqual({
+        address: 'B8',
+        row: 8,
+        column: 'B',
+      });
+      expect(incrementRow('B7', -6).address).toBe('B1');
+    });
+  });
+
+  describe('ranges', () => {
+    [
+      {
+        range: 'A1:B2',
+        rows: [
+          ['A1', 'B1'],
+          ['A2', 'B2'],
+        ],
+      },
+      {
+        range: 'B2:A1',
+        rows: [
+          ['A1', 'B1'],
+          ['A2', 'B2'],
+        ],
+      },
+      {
+        range: 'A2:B1',
+        rows: [
+          ['A1', 'B1'],
+          ['A2', 'B2'],
+        ],
+      },
+      { range: '$Z$1:aa1', rows: [['Z1', 'AA1']] },
+      { range: 'C3', rows: [['C3']] },
+      { range: 'C3:C5', rows: [['C3'], ['C4'], ['C5']] },
+    ].forEach(({ range, rows }) => {
+      it(`should expand ${range} row by row`, () => {
+        expect(rangeAddresses(range)).toEqual(rows);
+      });
+    });
+  });
+
+  describe('R1C1 notation', () => {
+    [
+      { a1: 'A1', r1c1: 'R1C1' },
+      { a1: 'B7', r1c1: 'R7C2' },
+      { a1: 'AA10', r1c1: 'R10C27' },
+      { a1: `XFD${MAX_ROWS}`, r1c1: `R${MAX_ROWS}C${MAX_COLUMNS}` },
+    ].forEach(({ a1, r1c1 }) => {
+      it(`should convert ${a1} to ${r1c1} and back`, () => {
+        expect(toR1C1(a1)).toBe(r1c1);
+        expect(fromR1C1(r1c1).address).toBe(a1);
+        expect(fromR1C1(r1c1.toLowerCase()).address).toBe(a1);
+      });
+    });
+  });
+
+  describe('errors', () => {
+    invalidTestCases.forEach(({ run, code, description }) => {
+      it(`should throw ${code} (${description})`, () => {
+        expect(run).toThrow(CellAddressError);
+        expect(run).toThrow(expect.objectContaining({ code }));
+      });
+    });
+
+    it('should explain the accepted notation', () => {
+      expect(() => parseAddress('B')).toThrow(
+        'Invalid cell address "B": expected A1 notation such as B7'
+      );
+      expect(() => incrementColumn('XFD')).toThrow(
+        'Column 16385 is outside 1..16384 (A..XFD)'
+      );
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { Readable } from 'stream';
+import {
+  EXIT_INVALID_INPUT,
+  EXIT_OK,
+  EXIT_USAGE,
+  main,
+  USAGE,
+} from '../src/cli';
+
+/**
+ * Run the CLI against in-memory streams
+ */
+async function run(argv: string[], stdin = '') {
+  let stdout = '';
+  let stderr = '';
+  const code = await main(argv, {
+    stdin: Readable.from([stdin]),
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+  });
+  return { code, stdout, stderr };
+}
+
+/**
+ * Test data for data-driven testing of the text output
+ */
+const textTestCases: Array<{
+  argv: string[];
+  stdin?: string;
+  stdout: string;
+  description: string;
+}> = [
+  {
+    argv: ['increment', 'FX001', 'A9999', 'ZZ100'],
+    stdout: 'FX002\nA0000\nZZ101\n',
+    description: 'increment arguments',
+  },
+  {
+    argv: ['increment'],
+    stdin: 'A1\r\n\nINV0099\n',
+    stdout: 'A2\nINV0100\n',
+    description: 'increment stdin lines, skipping blanks',
+  },
+  {
+    argv: ['validate', 'FX001'],
+    stdout: 'FX001: valid\n',
+    description: 'validate arguments',
+  },
+  {
+    argv: ['range', 'INV0008', 'INV0011'],
+    stdout: 'INV0008\nINV0009\nINV0010\nINV0011\n',
+    description: 'range',
+  },
+  {
+    argv: ['--', 'increment', 'A1'],
+    stdout: 'A2\n',
+    description: 'options terminator',
+  },
+];
+
+const usageTestCases: Array<{ argv: string[]; message: string }> = [
+  { argv: [], message: 'Missing command' },
+  { argv: ['decrement', 'A1'], message: 'Unknown command: decrement' },
+  { argv: ['increment', '--xml'], message: 'Unknown option: --xml' },
+  { argv: ['range', 'A1'], message: 'range expects exactly two identifiers' },
+];
+
+describe('cli', () => {
+  textTestCases.forEach(({ argv, stdin, stdout, description }) => {
+    it(`should print plain text for ${argv.join(' ')} (${description})`, async () => {
+      const result = await run(argv, stdin);
+
+      expect(result).toEqual({ code: EXIT_OK, stdout, stderr: '' });
+    });
+  });
+
+  usageTestCases.forEach(({ argv, message }) => {
+    it(`should exit with a usage error for "${argv.join(' ')}"`, async () => {
+      const result = await run(argv);
+
+      expect(result.code).toBe(EXIT_USAGE);
+      expect(result.stdout).toBe('');
+      expect(result.stderr).toBe(`${message}\n\n${USAGE}`);
+    });
+  });
+
+  it('should print help', async () => {
+    expect(await run(['--help'])).toEqual({
+      code: EXIT_OK,
+      stdout: USAGE,
+      stderr: '',
+    });
+  });
+
+  it('should name the failing stdin line and keep going', async () => {
+    const result = await run(['increment'], 'A1\n\nA-1\nB2\n');
+
+    expect(result.code).toBe(EXIT_INVALID_INPUT);
+    expect(result.stdout).toBe('A2\nB3\n');
+    expect(result.stderr).toBe(
+      'line 3: "A-1": Invalid character "-" at position 1\n'
+    );
+  });
+
+  it('should name the failing argument', async () => {
+    const result = await run(['validate', 'A1', 'ABCDE1']);
+
+    expect(result.code).toBe(EXIT_INVALID_INPUT);
+    expect(result.stderr).toMatch(/^argument 2: "ABCDE1": /);
+  });
+
+  it('should report every line as JSON', async () => {
+    const result = await run(['increment', '--json'], 'A9\nA-1\n');
+
+    expect(result.code).toBe(EXIT_INVALID_INPUT);
+    expect(JSON.parse(result.stdout)).toEqual([
+      { line: 1, input: 'A9', ok: true, output: 'A10' },
+      {
+        line: 2,
+        input: 'A-1',
+        ok: false,
+        error: {
+          code: 'INVALID_CHAR',
+          message: 'Invalid character "-" at position 1',
+          position: 1,
+        },
+      },
+    ]);
+  });
+
+  it('should omit the position of errors without one', async () => {
+    const result = await run(['validate', '--json', 'FX1', '']);
+
+    expect(JSON.parse(result.stdout)).toEqual([
+      { line: 1, input: 'FX1', ok: true },
+      {
+        line: 2,
+        input: '',
+        ok: false,
+        error: { code: 'EMPTY', message: expect.any(String) },
+      },
+    ]);
+  });
+
+  it('should print a range as JSON', async () => {
+    const result = await run(['range', '--json', 'A9', 'A11']);
+
+    expect(result.code).toBe(EXIT_OK);
+    expect(JSON.parse(result.stdout)).toEqual({
+      start: 'A9',
+      end: 'A11',
+      size: 3,
+      ids: ['A9', 'A10', 'A11'],
+    });
+  });
+
+  [
+    {
+      argv: ['range', 'INV1', 'IN-2'],
+      stderr: /^argument 2: "IN-2": Invalid character/,
+    },
+    {
+      argv: ['range', 'INV1', 'ABC2'],
+      stderr: /^range: .*prefix/i,
+    },
+    {
+      argv: ['range', 'A5', 'A1'],
+      stderr: /^range: Range end "A1" comes before start "A5"/,
+    },
+  ].forEach(({ argv, stderr }) => {
+    it(`should reject ${argv.join(' ')}`, async () => {
+      const result = await run(argv);
+
+      expect(result.code).toBe(EXIT_INVALID_INPUT);
+      expect(result.stdout).toBe('');
+      expect(result.stderr).toMatch(stderr);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { FakeClock, systemClock } from '../../core';
+
+describe('clocks', () => {
+  it('should read the system time', () => {
+    const before = Date.now();
+    const now = systemClock.now().getTime();
+
+    expect(now).toBeGreaterThanOrEqual(before);
+    expect(now).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should stay fixed until moved', () => {
+    const clock = new FakeClock('2025-12-31T23:59:30Z');
+
+    expect(clock.now().toISOString()).toBe('2025-12-31T23:59:30.000Z');
+    expect(clock.now().toISOString()).toBe('2025-12-31T23:59:30.000Z');
+  });
+
+  it('should advance and jump', () => {
+    const clock = new FakeClock(new Date(2025, 11, 31, 23, 59, 30));
+
+    expect(clock.advance(60000)).toEqual(new Date(2026, 0, 1, 0, 0, 30));
+    expect(clock.advance(-30000)).toEqual(new Date(2026, 0, 1));
+    expect(clock.set(0).getTime()).toBe(0);
+    expect(clock.now().getTime()).toBe(0);
+  });
+
+  it('should hand out copies, not its own state', () => {
+    const clock = new FakeClock(0);
+    clock.now().setFullYear(2000);
+
+    expect(clock.now().getTime()).toBe(0);
+  });
+
+  it('should reject invalid times', () => {
+    expect(() => new FakeClock('not a date')).toThrow(
+      'Invalid clock time: not a date'
+    );
+    expect(() => new FakeClock(0).set(NaN)).toThrow(RangeError);
+    expect(() => new FakeClock(0).advance(Infinity)).toThrow(
+      'Clock can only advance by a finite amount: Infinity'
+    );
+  });
+});
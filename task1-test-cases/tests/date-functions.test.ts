@@ -0,0 +1,491 @@
+import {
+  DATE_FUNCTIONS,
+  DateFunctionArg,
+  DateFunctionName,
+  expectedDateFunctionValue,
+  ExpectedValue,
+  FakeClock,
+  formatDateFunctionCall,
+  validateDateFunction,
+} from '../../core';
+
+const date = (year: number, month: number, day: number) =>
+  new Date(year, month - 1, day);
+
+/**
+ * Test data for data-driven testing, mostly the examples Microsoft documents
+ * for each function
+ */
+const calculationTestCases: Array<{
+  name: DateFunctionName;
+  args: DateFunctionArg[];
+  expected: number | ExpectedValue;
+  description: string;
+}> = [
+  {
+    name: 'DATE',
+    args: [2024, 1, 1],
+    expected: 45292,
+    description: 'plain date',
+  },
+  {
+    name: 'DATE',
+    args: [108, 1, 2],
+    expected: 39449,
+    description: 'year 108 is 2008',
+  },
+  {
+    name: 'DATE',
+    args: [2008, 14, 2],
+    expected: 39846,
+    description: 'month 14 rolls into 2009',
+  },
+  {
+    name: 'DATE',
+    args: [2008, 1, 35],
+    expected: 39482,
+    description: 'day 35 rolls into February',
+  },
+  {
+    name: 'DATE',
+    args: [2024, 3.9, 1.5],
+    expected: 45352,
+    description: 'fractions are truncated',
+  },
+  {
+    name: 'DATE',
+    args: [1900, 2, 29],
+    expected: 60,
+    description: 'the fake leap day',
+  },
+  {
+    name: 'DATE',
+    args: [1900, 3, 0],
+    expected: 60,
+    description: 'day 0 of March 1900',
+  },
+  {
+    name: 'DATE',
+    args: [-1, 1, 1],
+    expected: { error: '#NUM!' },
+    description: 'negative year',
+  },
+  {
+    name: 'DATE',
+    args: [10000, 1, 1],
+    expected: { error: '#NUM!' },
+    description: 'year 10000',
+  },
+  {
+    name: 'DATE',
+    args: [1900, 1, -1],
+    expected: { error: '#NUM!' },
+    description: 'before serial 0',
+  },
+  {
+    name: 'EDATE',
+    args: [date(2011, 1, 15), 1],
+    expected: 40589,
+    description: 'one month later',
+  },
+  {
+    name: 'EDATE',
+    args: [date(2011, 1, 15), -1],
+    expected: 40527,
+    description: 'one month earlier',
+  },
+  {
+    name: 'EDATE',
+    args: [date(2025, 1, 31), 1],
+    expected: 45716,
+    description: 'January 31 to February 28',
+  },
+  {
+    name: 'EDATE',
+    args: [date(2024, 1, 31), 1],
+    expected: 45351,
+    description: 'January 31 to February 29 in a leap year',
+  },
+  {
+    name: 'EDATE',
+    args: [60, 1],
+    expected: 89,
+    description: 'from the fake leap day',
+  },
+  {
+    name: 'EDATE',
+    args: [1, -1],
+    expected: { error: '#NUM!' },
+    description: 'before 1900',
+  },
+  {
+    name: 'EOMONTH',
+    args: [date(2011, 1, 1), 1],
+    expected: 40602,
+    description: 'end of next month',
+  },
+  {
+    name: 'EOMONTH',
+    args: [date(2011, 1, 1), -3],
+    expected: 40482,
+    description: 'end of October 2010',
+  },
+  {
+    name: 'EOMONTH',
+    args: [date(1900, 1, 15), 1],
+    expected: 60,
+    description: 'February 1900 has 29 days',
+  },
+  {
+    name: 'EOMONTH',
+    args: [-1, 0],
+    expected: { error: '#NUM!' },
+    description: 'negative start',
+  },
+  {
+    name: 'WEEKDAY',
+    args: [date(2008, 2, 14)],
+    expected: 5,
+    description: 'Thursday, Sunday is 1',
+  },
+  {
+    name: 'WEEKDAY',
+    args: [date(2008, 2, 14), 2],
+    expected: 4,
+    description: 'Thursday, Monday is 1',
+  },
+  {
+    name: 'WEEKDAY',
+    args: [date(2008, 2, 14), 3],
+    expected: 3,
+    description: 'Thursday, Monday is 0',
+  },
+  {
+    name: 'WEEKDAY',
+    args: [date(2008, 2, 14), 14],
+    expected: 1,
+    description: 'Thursday, Thursday is 1',
+  },
+  {
+    name: 'WEEKDAY',
+    args: [date(2008, 2, 14), 17],
+    expected: 5,
+    description: 'Thursday, Sunday is 1 (17)',
+  },
+  {
+    name: 'WEEKDAY',
+    args: [1],
+    expected: 1,
+    description: 'Excel calls 1900-01-01 a Sunday',
+  },
+  {
+    name: 'WEEKDAY',
+    args: [date(2008, 2, 14), 4],
+    expected: { error: '#NUM!' },
+    description: 'unknown return type',
+  },
+  {
+    name: 'NETWORKDAYS',
+    args: [date(2012, 10, 1), date(2013, 3, 1)],
+    expected: 110,
+    description: 'without holidays',
+  },
+  {
+    name: 'NETWORKDAYS',
+    args: [date(2012, 10, 1), date(2013, 3, 1), [date(2012, 11, 22)]],
+    expected: 109,
+    description: 'one holiday',
+  },
+  {
+    name: 'NETWORKDAYS',
+    args: [
+      date(2012, 10, 1),
+      date(2013, 3, 1),
+      [date(2012, 11, 22), date(2012, 12, 4), date(2013, 1, 21)],
+    ],
+    expected: 107,
+    description: 'three holidays',
+  },
+  {
+    name: 'NETWORKDAYS',
+    args: [date(2013, 3, 1), date(2012, 10, 1)],
+    expected: -110,
+    description: 'reversed dates',
+  },
+  {
+    name: 'NETWORKDAYS',
+    args: [date(2025, 8, 22), date(2025, 8, 25), date(2025, 8, 23)],
+    expected: 2,
+    description: 'weekend holiday',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2001, 1, 1), date(2003, 1, 1), 'Y'],
+    expected: 2,
+    description: 'whole years',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2001, 6, 1), date(2002, 8, 15), 'D'],
+    expected: 440,
+    description: 'days',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2001, 6, 1), date(2002, 8, 15), 'M'],
+    expected: 14,
+    description: 'whole months',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2001, 6, 1), date(2002, 8, 15), 'YD'],
+    expected: 75,
+    description: 'days ignoring years',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2001, 6, 1), date(2002, 8, 15), 'ym'],
+    expected: 2,
+    description: 'months ignoring years',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2001, 6, 1), date(2002, 8, 15), 'MD'],
+    expected: 14,
+    description: 'days ignoring months',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2025, 1, 31), date(2025, 3, 1), 'MD'],
+    expected: -2,
+    description: 'negative MD, as in Excel',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2024, 12, 20), date(2025, 1, 5), 'YD'],
+    expected: 16,
+    description: 'anniversary in the previous year',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2003, 1, 1), date(2001, 1, 1), 'Y'],
+    expected: { error: '#NUM!' },
+    description: 'start after end',
+  },
+  {
+    name: 'DATEDIF',
+    args: [date(2001, 1, 1), date(2003, 1, 1), 'W'],
+    expected: { error: '#NUM!' },
+    description: 'unknown unit',
+  },
+];
+
+describe('Excel date functions', () => {
+  describe('expected values', () => {
+    calculationTestCases.forEach(({ name, args, expected, description }) => {
+      const value =
+        typeof expected === 'number'
+          ? { min: expected, max: expected }
+          : expected;
+
+      it(`should calculate ${formatDateFunctionCall(name, args)}: ${description}`, () => {
+        expect(expectedDateFunctionValue(name, args)).toEqual(value);
+      });
+    });
+
+    it('should count from 1904-01-01 in the 1904 date system', () => {
+      const system = { system: '1904' as const };
+
+      expect(expectedDateFunctionValue('DATE', [2025, 8, 22], system)).toEqual({
+        min: 44429,
+        max: 44429,
+      });
+      expect(expectedDateFunctionValue('WEEKDAY', [0], system)).toEqual({
+        min: 6,
+        max: 6,
+      });
+      expect(expectedDateFunctionValue('DATE', [1903, 12, 31], system)).toEqual(
+        {
+          error: '#NUM!',
+        }
+      );
+    });
+
+    it('should describe every function in the catalogue', () => {
+      expect(
+        Object.values(DATE_FUNCTIONS)
+          .filter(fn => fn.volatile)
+          .map(fn => fn.name)
+      ).toEqual(['TODAY', 'NOW']);
+      expect(DATE_FUNCTIONS.DATEDIF).toMatchObject({
+        resultType: 'number',
+        arity: [3, 3],
+      });
+    });
+
+    [
+      {
+        name: 'EDATE' as const,
+        args: [1],
+        error: 'EDATE takes 2 arguments, got 1',
+      },
+      {
+        name: 'WEEKDAY' as const,
+        args: [],
+        error: 'WEEKDAY takes 1 to 2 arguments, got 0',
+      },
+      {
+        name: 'NOW' as const,
+        args: [1],
+        error: 'NOW takes 0 arguments, got 1',
+      },
+      {
+        name: 'EDATE' as const,
+        args: ['1/1/2024', 1],
+        error:
+          'EDATE argument 1 must be a finite number or a date, got 1/1/2024',
+      },
+      {
+        name: 'DATE' as const,
+        args: [2024, NaN, 1],
+        error: 'DATE argument 2 must be a finite number or a date, got NaN',
+      },
+      {
+        name: 'DATEDIF' as const,
+        args: [1, 2, 3],
+        error: 'DATEDIF argument 3 must be a unit such as "Y", got 3',
+      },
+      {
+        name: 'BOGUS' as DateFunctionName,
+        args: [],
+        error: 'Unknown date function: BOGUS',
+      },
+    ].forEach(({ name, args, error }) => {
+      it(`should reject ${name} with ${JSON.stringify(args)}`, () => {
+        expect(() => expectedDateFunctionValue(name, args)).toThrow(RangeError);
+        expect(() => expectedDateFunctionValue(name, args)).toThrow(error);
+      });
+    });
+  });
+
+  describe('volatile functions', () => {
+    const window = {
+      before: new Date('2025-12-31T22:59:50Z'),
+      after: new Date('2025-12-31T23:00:10Z'),
+    };
+
+    it('should accept every day of a window that crossed midnight', () => {
+      const context = { window, timeZone: 'Europe/Berlin', toleranceMs: 0 };
+
+      expect(expectedDateFunctionValue('TODAY', [], context)).toEqual({
+        min: 46022,
+        max: 46023,
+      });
+      ['46022', '46023', '12/31/2025'].forEach(value => {
+        expect(
+          validateDateFunction('TODAY', [], value, {
+            ...context,
+            locale: 'en-US',
+          }).isValid
+        ).toBe(true);
+      });
+    });
+
+    it('should widen NOW() by the tolerance', () => {
+      const context = { window, timeZone: 'UTC' };
+      const strict = { ...context, toleranceMs: 0 };
+      // 22:59:00 UTC, 50 seconds before the window
+      const early = String(46022 + (22 * 60 + 59) / 1440);
+
+      expect(validateDateFunction('NOW', [], early, context).isValid).toBe(
+        true
+      );
+      expect(validateDateFunction('NOW', [], early, strict)).toMatchObject({
+        isValid: false,
+        message:
+          'NOW() mismatch: expected 46022.958218 to 46022.958449, got ' +
+          `${early} during the run`,
+      });
+    });
+
+    it('should read the time from the clock without a window', () => {
+      const clock = new FakeClock(new Date(2026, 0, 1, 0, 0, 30));
+
+      expect(
+        validateDateFunction('TODAY', [], '46022', { clock }).isValid
+      ).toBe(true);
+      expect(
+        validateDateFunction('TODAY', [], '46022', { clock, toleranceMs: 0 })
+      ).toEqual({
+        isValid: false,
+        expectedDate: '46023 (1/1/2026)',
+        actualDate: '46022',
+        message:
+          'TODAY() mismatch: expected 46023 (1/1/2026), got 46022 during the run',
+      });
+    });
+
+    it('should reject a negative tolerance', () => {
+      expect(() =>
+        expectedDateFunctionValue('NOW', [], { toleranceMs: -1 })
+      ).toThrow(
+        'Tolerance must be a non-negative number of milliseconds, got -1'
+      );
+    });
+  });
+
+  describe('validateDateFunction', () => {
+    it('should match raw values, shown dates and Excel errors', () => {
+      expect(validateDateFunction('DATE', [2024, 1, 1], '45292')).toEqual({
+        isValid: true,
+        expectedDate: '45292 (1/1/2024)',
+        actualDate: '45292',
+        message: 'DATE(2024,1,1) matches expected value',
+      });
+      expect(
+        validateDateFunction('EOMONTH', [date(2011, 1, 1), 1], '28.02.2011', {
+          locale: 'de-DE',
+        }).isValid
+      ).toBe(true);
+      expect(
+        validateDateFunction(
+          'DATEDIF',
+          [date(2003, 1, 1), date(2001, 1, 1), 'Y'],
+          '#num!'
+        )
+      ).toMatchObject({
+        isValid: true,
+        expectedDate: '#NUM!',
+        message:
+          'DATEDIF(DATE(2003,1,1),DATE(2001,1,1),"Y") returns #NUM! as expected',
+      });
+    });
+
+    it('should explain mismatches', () => {
+      expect(
+        validateDateFunction('EDATE', [date(2011, 1, 15), 1], '2/16/2011', {
+          locale: 'en-US',
+        }).message
+      ).toBe(
+        'EDATE(DATE(2011,1,15),1) mismatch: expected 40589 (2/15/2011), got 2/16/2011'
+      );
+      expect(validateDateFunction('DATEDIF', [2, 1, 'Y'], '0').message).toBe(
+        'DATEDIF(2,1,"Y") mismatch: expected #NUM!, got 0'
+      );
+      expect(
+        validateDateFunction('NETWORKDAYS', [1, 7, [2, 3]], '#VALUE!').message
+      ).toBe(
+        'Unable to parse NETWORKDAYS(1,7,{2,3}) result: "#VALUE!" is not a number'
+      );
+      expect(
+        validateDateFunction('DATE', [2024, 1, 1], '3/4/2026').message
+      ).toContain('Unable to parse DATE(2024,1,1) result: Ambiguous date');
+    });
+
+    it('should not name a date for the fake leap day', () => {
+      expect(
+        validateDateFunction('DATE', [1900, 2, 29], '61').expectedDate
+      ).toBe('60');
+    });
+  });
+});
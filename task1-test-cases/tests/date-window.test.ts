@@ -0,0 +1,280 @@
+import {
+  formatUtcOffset,
+  formatExcelDate,
+  timeZoneOffset,
+  TimeWindow,
+  validateNowInWindow,
+  validateTodayInWindow,
+  ZonedDateOptions,
+} from '../../core';
+
+/**
+ * Window of one minute around `iso` (UTC)
+ */
+function around(iso: string): TimeWindow {
+  const instant = new Date(iso).getTime();
+  return {
+    before: new Date(instant - 30000),
+    after: new Date(instant + 30000),
+  };
+}
+
+const berlin: ZonedDateOptions = { locale: 'en-US', timeZone: 'Europe/Berlin' };
+
+describe('time-zone aware date validation', () => {
+  describe('offsets', () => {
+    [
+      { iso: '2025-08-22T12:00:00Z', zone: 'Europe/Berlin', offset: 120 },
+      { iso: '2025-01-22T12:00:00Z', zone: 'Europe/Berlin', offset: 60 },
+      { iso: '2025-08-22T12:00:00Z', zone: 'America/New_York', offset: -240 },
+      { iso: '2025-08-22T12:00:00Z', zone: 'Asia/Kolkata', offset: 330 },
+      { iso: '2025-08-22T12:00:00Z', zone: 'UTC', offset: 0 },
+    ].forEach(({ iso, zone, offset }) => {
+      it(`should find ${formatUtcOffset(offset)} for ${zone} at ${iso}`, () => {
+        expect(timeZoneOffset(new Date(iso), zone)).toBe(offset);
+      });
+    });
+
+    it('should format offsets like Windows', () => {
+      expect(formatUtcOffset(0)).toBe('UTC+00:00');
+      expect(formatUtcOffset(-570)).toBe('UTC-09:30');
+      expect(formatUtcOffset(345)).toBe('UTC+05:45');
+    });
+  });
+
+  describe('validateTodayInWindow', () => {
+    it('should use the workbook time zone, not the runner one', () => {
+      // 23:30 UTC is already the next day in Berlin
+      const window = around('2025-08-22T23:30:00Z');
+
+      expect(validateTodayInWindow('8/23/2025', window, berlin)).toEqual({
+        isValid: true,
+        expectedDate: '8/23/2025',
+        actualDate: '8/23/2025',
+        message: 'Date matches current date',
+      });
+      expect(
+        validateTodayInWindow('8/22/2025', window, {
+          locale: 'en-US',
+          timeZone: 'America/Los_Angeles',
+        }).isValid
+      ).toBe(true);
+    });
+
+    it('should accept both days of a run that crosses midnight', () => {
+      const window = around('2025-08-22T22:00:00Z');
+
+      ['8/22/2025', '8/23/2025'].forEach(value => {
+        expect(validateTodayInWindow(value, window, berlin)).toMatchObject({
+          isValid: true,
+          expectedDate: '8/22/2025 or 8/23/2025',
+          message: `Date matches ${value}, current in Europe/Berlin during a run that crossed midnight`,
+        });
+      });
+    });
+
+    it('should accept every day of a window spanning several days', () => {
+      const window = {
+        before: new Date('2025-12-30T12:00:00Z'),
+        after: new Date('2026-01-02T12:00:00Z'),
+      };
+
+      expect(
+        validateTodayInWindow('1/1/2026', window, berlin).expectedDate
+      ).toBe('12/30/2025 or 12/31/2025 or 1/1/2026 or 1/2/2026');
+    });
+
+    it('should explain a mismatch in terms of UTC offsets', () => {
+      const window = around('2025-08-22T12:00:00Z');
+
+      expect(
+        validateTodayInWindow('8/23/2025', window, {
+          locale: 'en-US',
+          timeZone: 'America/New_York',
+        })
+      ).toEqual({
+        isValid: false,
+        expectedDate: '8/22/2025',
+        actualDate: '8/23/2025',
+        message:
+          'Date mismatch: expected 8/22/2025 in America/New_York (UTC-04:00), ' +
+          'got 8/23/2025, which was current only at UTC+12:00 to UTC+14:00 ' +
+          "during the run; check the workbook's time zone",
+      });
+      expect(
+        validateTodayInWindow('8/21/2025', window, berlin).message
+      ).toContain('current only at UTC-12:00 to UTC-12:00');
+    });
+
+    it('should say when no time zone saw the shown day', () => {
+      expect(
+        validateTodayInWindow(
+          '8/25/2025',
+          around('2025-08-22T12:00:00Z'),
+          berlin
+        ).message
+      ).toContain(
+        'got 8/25/2025, which was not the current date in any time zone during the run'
+      );
+    });
+
+    it('should report values that are not dates', () => {
+      expect(
+        validateTodayInWindow('#NAME?', around('2025-08-22T12:00:00Z'), berlin)
+      ).toMatchObject({
+        isValid: false,
+        message: expect.stringMatching(/^Unable to parse date: /),
+      });
+    });
+
+    it('should default to the runner time zone', () => {
+      const now = new Date();
+
+      expect(
+        validateTodayInWindow(
+          formatExcelDate(now),
+          { before: now, after: now },
+          { locale: 'en-US' }
+        ).isValid
+      ).toBe(true);
+    });
+  });
+
+  describe('validateNowInWindow', () => {
+    const window = around('2025-08-22T12:00:00Z');
+
+    [
+      { value: '8/22/2025 14:00', description: '24-hour clock' },
+      { value: '8/22/2025 13:59', description: 'start of the window' },
+      { value: '8/22/2025 2:00 PM', description: '12-hour clock' },
+      { value: '8/22/2025 14:00:29', description: 'with seconds' },
+    ].forEach(({ value, description }) => {
+      it(`should accept "${value}" (${description})`, () => {
+        expect(validateNowInWindow(value, window, berlin)).toMatchObject({
+          isValid: true,
+          message: 'Time matches current time',
+        });
+      });
+    });
+
+    it('should describe the window with the shown precision', () => {
+      expect(
+        validateNowInWindow('8/22/2025 14:00', window, berlin).expectedDate
+      ).toBe('8/22/2025 13:59 to 8/22/2025 14:00');
+      expect(
+        validateNowInWindow('8/22/2025 14:00:00', window, berlin).expectedDate
+      ).toBe('8/22/2025 13:59:30 to 8/22/2025 14:00:30');
+    });
+
+    it('should reject seconds outside the window', () => {
+      expect(
+        validateNowInWindow('8/22/2025 14:00:31', window, berlin).isValid
+      ).toBe(false);
+      expect(
+        validateNowInWindow('8/22/2025 13:59:28', window, berlin).isValid
+      ).toBe(false);
+    });
+
+    it('should name the UTC offset a shifted time corresponds to', () => {
+      expect(validateNowInWindow('8/22/2025 12:00', window, berlin)).toEqual({
+        isValid: false,
+        expectedDate: '8/22/2025 13:59 to 8/22/2025 14:00',
+        actualDate: '8/22/2025 12:00',
+        message:
+          'Time mismatch: expected 8/22/2025 13:59 to 8/22/2025 14:00 in ' +
+          'Europe/Berlin (UTC+02:00), got 8/22/2025 12:00, 118 minutes ' +
+          "behind the window; that is the time at UTC+00:00, check the workbook's time zone",
+      });
+      expect(
+        validateNowInWindow('8/22/2025 7:30 PM', window, berlin).message
+      ).toContain(
+        '330 minutes ahead of the window; that is the time at UTC+07:30'
+      );
+    });
+
+    it('should not blame the time zone for a small drift', () => {
+      expect(
+        validateNowInWindow('8/22/2025 14:05', window, berlin).message
+      ).toMatch(/5 minutes ahead of the window$/);
+    });
+
+    it('should report values without a time of day', () => {
+      expect(validateNowInWindow('8/22/2025', window, berlin)).toMatchObject({
+        isValid: false,
+        message:
+          'Unable to parse date and time: "8/22/2025" has no time of day',
+      });
+      expect(
+        validateNowInWindow('22.08.2025 14:00', window, berlin).message
+      ).toBe(
+        'Unable to parse date and time: "22.08.2025" does not match date format ' +
+          'm/d/yyyy, mmmm d, yyyy, dddd, mmmm d, yyyy, mmm d, yyyy, yyyy-mm-dd'
+      );
+    });
+
+    it('should accept both sides of a fall-back DST change', () => {
+      // Berlin clocks go from 03:00 CEST back to 02:00 CET at 01:00 UTC
+      const dst = {
+        before: new Date('2025-10-26T00:59:00Z'),
+        after: new Date('2025-10-26T01:01:00Z'),
+      };
+
+      ['10/26/2025 2:59', '10/26/2025 2:00', '10/26/2025 2:01'].forEach(
+        value => {
+          expect(validateNowInWindow(value, dst, berlin).isValid).toBe(true);
+        }
+      );
+      // Only 02:59-03:00 CEST and 02:00-02:01 CET were on the clock
+      expect(validateNowInWindow('10/26/2025 2:30', dst, berlin).isValid).toBe(
+        false
+      );
+    });
+
+    it('should reject a time skipped by a spring-forward DST change', () => {
+      // Berlin clocks jump from 02:00 CET to 03:00 CEST at 01:00 UTC
+      const dst = {
+        before: new Date('2025-03-30T00:59:00Z'),
+        after: new Date('2025-03-30T01:01:00Z'),
+      };
+
+      expect(validateNowInWindow('3/30/2025 1:59', dst, berlin).isValid).toBe(
+        true
+      );
+      expect(validateNowInWindow('3/30/2025 3:00', dst, berlin).isValid).toBe(
+        true
+      );
+      expect(validateNowInWindow('3/30/2025 2:30', dst, berlin).isValid).toBe(
+        false
+      );
+    });
+  });
+
+  describe('window checks', () => {
+    it('should reject a window that ends before it starts', () => {
+      const window = {
+        before: new Date('2025-08-22T12:00:00Z'),
+        after: new Date('2025-08-22T11:00:00Z'),
+      };
+
+      expect(() => validateTodayInWindow('8/22/2025', window, berlin)).toThrow(
+        'Time window ends (2025-08-22T11:00:00.000Z) before it starts (2025-08-22T12:00:00.000Z)'
+      );
+      expect(() =>
+        validateNowInWindow('8/22/2025 12:00', window, berlin)
+      ).toThrow(RangeError);
+    });
+
+    it('should reject invalid dates and unknown time zones', () => {
+      const invalid = { before: new Date(NaN), after: new Date() };
+
+      expect(() => validateTodayInWindow('8/22/2025', invalid)).toThrow(
+        'Time window needs two valid dates'
+      );
+      expect(() =>
+        validateTodayInWindow('8/22/2025', around('2025-08-22T12:00:00Z'), {
+          timeZone: 'Mars/Olympus_Mons',
+        })
+      ).toThrow(RangeError);
+    });
+  });
+});
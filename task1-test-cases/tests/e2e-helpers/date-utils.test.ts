@@ -0,0 +1,211 @@
+import { FakeClock } from '../../../core';
+import { DateUtils } from '../../../e2e-automation/tests/helpers/date-utils';
+
+describe('DateUtils', () => {
+  describe('validateTodayFunction', () => {
+    it('should validate against the injected clock', () => {
+      const clock = new FakeClock(new Date(2025, 7, 22, 9, 0));
+
+      expect(
+        DateUtils.validateTodayFunction(
+          '8/22/2025',
+          DateUtils.EXCEL_DATE_OPTIONS,
+          clock
+        )
+      ).toEqual({
+        isValid: true,
+        expectedDate: '8/22/2025',
+        actualDate: '8/22/2025',
+        message: 'Date matches current date',
+      });
+    });
+
+    it('should move to the new year exactly at midnight', () => {
+      const clock = new FakeClock(new Date(2025, 11, 31, 23, 59, 59, 999));
+      const validate = (value: string) =>
+        DateUtils.validateTodayFunction(
+          value,
+          DateUtils.EXCEL_DATE_OPTIONS,
+          clock
+        ).isValid;
+
+      expect(validate('12/31/2025')).toBe(true);
+      expect(validate('1/1/2026')).toBe(false);
+
+      clock.advance(1);
+
+      expect(validate('12/31/2025')).toBe(false);
+      expect(validate('1/1/2026')).toBe(true);
+    });
+
+    it('should read dates in the Excel Online locale, not guess', () => {
+      const clock = new FakeClock(new Date(2026, 2, 4));
+
+      expect(
+        DateUtils.validateTodayFunction(
+          '3/4/2026',
+          DateUtils.EXCEL_DATE_OPTIONS,
+          clock
+        ).isValid
+      ).toBe(true);
+      expect(
+        DateUtils.validateTodayFunction('3/4/2026', {}, clock).message
+      ).toContain('Ambiguous date');
+    });
+  });
+
+  describe('time windows', () => {
+    it('should capture the clock around an action', async () => {
+      const clock = new FakeClock('2025-12-31T22:59:50Z');
+
+      const { result, window } = await DateUtils.withTimeWindow(async () => {
+        clock.advance(20000);
+        return '1/1/2026';
+      }, clock);
+
+      expect(result).toBe('1/1/2026');
+      expect(window).toEqual({
+        before: new Date('2025-12-31T22:59:50Z'),
+        after: new Date('2025-12-31T23:00:10Z'),
+      });
+      // The action crossed midnight in Berlin: both years are today
+      ['12/31/2025', '1/1/2026'].forEach(value => {
+        expect(
+          DateUtils.validateTodayInWindow(value, window, {
+            locale: 'en-US',
+            timeZone: 'Europe/Berlin',
+          }).isValid
+        ).toBe(true);
+      });
+    });
+
+    it('should validate NOW() across a spring-forward DST change', () => {
+      // New York clocks jump from 02:00 to 03:00 EDT at 07:00 UTC
+      const window = {
+        before: new Date('2026-03-08T06:59:00Z'),
+        after: new Date('2026-03-08T07:01:00Z'),
+      };
+      const newYork = { locale: 'en-US', timeZone: 'America/New_York' };
+
+      expect(
+        DateUtils.validateNowInWindow('3/8/2026 1:59 AM', window, newYork)
+          .isValid
+      ).toBe(true);
+      expect(
+        DateUtils.validateNowInWindow('3/8/2026 3:00 AM', window, newYork)
+          .isValid
+      ).toBe(true);
+      expect(
+        DateUtils.validateNowInWindow('3/8/2026 2:30 AM', window, newYork)
+          .isValid
+      ).toBe(false);
+    });
+
+    it('should keep the calendar day across a fall-back DST change', () => {
+      const clock = new FakeClock('2025-11-02T05:30:00Z'); // 01:30 EDT
+      const newYork = { locale: 'en-US', timeZone: 'America/New_York' };
+
+      const before = clock.now();
+      const after = clock.advance(60 * 60 * 1000); // 01:30 EST again
+
+      expect(
+        DateUtils.validateTodayInWindow('11/2/2025', { before, after }, newYork)
+      ).toMatchObject({ isValid: true, expectedDate: '11/2/2025' });
+    });
+  });
+
+  describe('date functions', () => {
+    it('should validate any catalogued function in the Excel Online locale', () => {
+      expect(
+        DateUtils.validateDateFunction(
+          'EOMONTH',
+          [new Date(2025, 0, 15), 1],
+          '2/28/2025'
+        ).isValid
+      ).toBe(true);
+      expect(
+        DateUtils.validateDateFunction('WEEKDAY', [45891, 2], '5').isValid
+      ).toBe(true);
+    });
+
+    it('should validate NOW() serials against a captured window', async () => {
+      const clock = new FakeClock('2025-08-22T12:00:00Z');
+      const { result, window } = await DateUtils.withTimeWindow(async () => {
+        clock.advance(5000);
+        return '45891.5';
+      }, clock);
+
+      expect(
+        DateUtils.validateDateFunction('NOW', [], result, {
+          window,
+          timeZone: 'UTC',
+        }).isValid
+      ).toBe(true);
+      expect(
+        DateUtils.validateDateFunction('NOW', [], result, {
+          window,
+          timeZone: 'Europe/Berlin',
+        }).isValid
+      ).toBe(false);
+    });
+  });
+
+  describe('serials', () => {
+    it('should validate the raw TODAY() serial against the clock', () => {
+      const clock = new FakeClock(new Date(2025, 11, 31, 23, 0));
+
+      expect(
+        DateUtils.validateTodaySerial('46022', '1900', clock).isValid
+      ).toBe(true);
+      expect(
+        DateUtils.validateTodaySerial('44560', '1904', clock).isValid
+      ).toBe(true);
+      expect(
+        DateUtils.validateTodaySerial('46023', '1900', clock).isValid
+      ).toBe(false);
+    });
+
+    it('should convert in both directions', () => {
+      const date = new Date(2026, 0, 1, 6);
+
+      expect(DateUtils.toExcelSerial(date)).toBe(46023.25);
+      expect(DateUtils.fromExcelSerial(46023.25)).toEqual(date);
+      expect(DateUtils.fromExcelSerial(44561.25, '1904')).toEqual(date);
+    });
+  });
+
+  describe('formats', () => {
+    it('should report the current date in the local time zone', () => {
+      const clock = new FakeClock(new Date(2025, 11, 31, 23, 30));
+
+      expect(DateUtils.getCurrentDateFormats(clock)).toEqual({
+        iso: '2025-12-31',
+        us: '12/31/2025',
+        uk: '31/12/2025',
+        long: 'Wednesday, December 31, 2025',
+        timestamp: new Date(2025, 11, 31, 23, 30).getTime(),
+      });
+    });
+
+    it('should format dates for display and compare days', () => {
+      expect(DateUtils.formatDateForDisplay(new Date(2026, 0, 2))).toBe(
+        '01/02/2026'
+      );
+      expect(
+        DateUtils.isSameDate(new Date(2026, 0, 1), new Date(2026, 0, 1, 23))
+      ).toBe(true);
+    });
+
+    [
+      { value: '8/22/2025', expected: true },
+      { value: '2025-08-22', expected: true },
+      { value: '22-08-2025', expected: true },
+      { value: 'August 22, 2025', expected: true },
+      { value: '#VALUE!', expected: false },
+    ].forEach(({ value, expected }) => {
+      it(`should say "${value}" ${expected ? 'looks' : 'does not look'} like a date`, () => {
+        expect(DateUtils.looksLikeDate(value)).toBe(expected);
+      });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { FakeClock } from '../../../core';
+import { createExcelAssertions } from '../../../e2e-automation/tests/helpers/excel-assertions';
+import { ExcelOnlinePageClean } from '../../../e2e-automation/tests/helpers/excel-page-clean';
+
+// verifyDateFormat never touches the page
+const noPage = {} as ConstructorParameters<typeof ExcelOnlinePageClean>[0];
+
+describe('Excel date assertions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('toBeTodaysDate', () => {
+    it('should pass for the clock date and fail the day after', async () => {
+      const clock = new FakeClock(new Date(2025, 11, 31, 23, 59, 59));
+      const { toBeTodaysDate } = createExcelAssertions(clock);
+
+      expect((await toBeTodaysDate('12/31/2025')).pass).toBe(true);
+
+      clock.advance(1000);
+      const result = await toBeTodaysDate('12/31/2025');
+
+      expect(result.pass).toBe(false);
+      expect(result.message()).toBe(
+        'Date mismatch: expected 1/1/2026, got 12/31/2025'
+      );
+    });
+
+    it('should default to the system clock', async () => {
+      const now = new Date();
+      const today = `${now.getMonth() + 1}/${now.getDate()}/${now.getFullYear()}`;
+
+      expect((await createExcelAssertions().toBeTodaysDate(today)).pass).toBe(
+        true
+      );
+    });
+  });
+
+  describe('other assertions', () => {
+    it('should check date-like values and normalized results', async () => {
+      const assertions = createExcelAssertions(new FakeClock(0));
+
+      expect((await assertions.toBeValidDate('8/22/2025')).pass).toBe(true);
+      expect((await assertions.toBeValidDate('n/a')).message()).toBe(
+        'Expected "n/a" to be a valid date format'
+      );
+      expect((await assertions.toMatchExcelResult(' TRUE ', 'true')).pass).toBe(
+        true
+      );
+      expect((await assertions.toMatchExcelResult('2', '3')).message()).toBe(
+        'Expected Excel result "2" to match "3"'
+      );
+    });
+  });
+
+  describe('ExcelOnlinePageClean.verifyDateFormat', () => {
+    it('should use the clock the page was created with', () => {
+      const page = new ExcelOnlinePageClean(
+        noPage,
+        new FakeClock(new Date(2024, 1, 29, 12))
+      );
+
+      expect(page.verifyDateFormat('2/29/2024')).toMatchObject({
+        isValid: true,
+        expectedDate: '2/29/2024',
+      });
+      expect(page.verifyDateFormat('3/1/2024').isValid).toBe(false);
+    });
+
+    it('should accept either day of a window that crossed midnight', () => {
+      const page = new ExcelOnlinePageClean(noPage, new FakeClock(0));
+      const window = {
+        before: new Date(2025, 11, 31, 23, 59, 50),
+        after: new Date(2026, 0, 1, 0, 0, 10),
+      };
+
+      expect(page.verifyDateFormat('12/31/2025', window).isValid).toBe(true);
+      expect(page.verifyDateFormat('1/1/2026', window).isValid).toBe(true);
+      expect(page.verifyDateFormat('1/2/2026', window).isValid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  cellLabelPattern,
+  inferResultType,
+  parseCellLabel,
+} from '../../../e2e-automation/tests/helpers/excel-cells';
+import { ExcelOnlinePageClean } from '../../../e2e-automation/tests/helpers/excel-page-clean';
+
+// Argument checks happen before the page is touched
+const noPage = {} as ConstructorParameters<typeof ExcelOnlinePageClean>[0];
+
+/**
+ * Test data for data-driven testing: labels Excel Online gives cell textboxes
+ */
+const labelTestCases = [
+  {
+    label: '8/22/2025 . A1 . Contains Formula .',
+    address: 'A1',
+    expected: { display: '8/22/2025', hasFormula: true },
+  },
+  {
+    label: '3.14 . B2 .',
+    address: 'B2',
+    expected: { display: '3.14', hasFormula: false },
+  },
+  {
+    label: 'Total . A10 . C3 .',
+    address: 'C3',
+    expected: { display: 'Total . A10', hasFormula: false },
+  },
+  {
+    label: 'A1 .',
+    address: 'A1',
+    expected: { display: '', hasFormula: false },
+  },
+  {
+    label: 'A1 . Contains Formula .',
+    address: 'A1',
+    expected: { display: '', hasFormula: true },
+  },
+  { label: '5 . A10 .', address: 'A1', expected: null },
+  { label: '5 . BA1 .', address: 'A1', expected: null },
+];
+
+const resultTypeTestCases: Array<{
+  display: string;
+  resultType: ReturnType<typeof inferResultType>;
+}> = [
+  { display: '8/22/2025', resultType: 'date' },
+  { display: '12/31/2025 23:59', resultType: 'date' },
+  { display: '45891', resultType: 'number' },
+  { display: '-3.5', resultType: 'number' },
+  { display: '.5', resultType: 'number' },
+  { display: '1,234,567.89', resultType: 'number' },
+  { display: '1.23456789E+11', resultType: 'number' },
+  { display: '45%', resultType: 'number' },
+  { display: '#DIV/0!', resultType: 'error' },
+  { display: '#NAME?', resultType: 'error' },
+  { display: '#N/A', resultType: 'error' },
+  { display: 'VELIXO', resultType: 'text' },
+  { display: 'TRUE', resultType: 'text' },
+  { display: '', resultType: 'text' },
+  { display: '-', resultType: 'text' },
+  { display: '13/45/2025', resultType: 'text' },
+  { display: '8/22/2025 noon', resultType: 'text' },
+  { display: '#HASHTAG', resultType: 'text' },
+];
+
+describe('Excel cell labels', () => {
+  describe('parseCellLabel', () => {
+    labelTestCases.forEach(({ label, address, expected }) => {
+      it(`should read "${label}" for ${address}`, () => {
+        expect(parseCellLabel(label, address)).toEqual(expected);
+      });
+    });
+
+    it('should match only the exact address', () => {
+      expect(cellLabelPattern('A1').test('A1 .')).toBe(true);
+      expect(cellLabelPattern('A1').test('x . A1 .')).toBe(true);
+      expect(cellLabelPattern('A1').test('x . A11 .')).toBe(false);
+      expect(cellLabelPattern('A1').test('formula bar')).toBe(false);
+    });
+  });
+
+  describe('inferResultType', () => {
+    resultTypeTestCases.forEach(({ display, resultType }) => {
+      it(`should read "${display}" as ${resultType}`, () => {
+        expect(inferResultType(display)).toBe(resultType);
+      });
+    });
+  });
+
+  describe('ExcelOnlinePageClean.enterFormula', () => {
+    it('should refuse text that is not a formula', async () => {
+      const page = new ExcelOnlinePageClean(noPage);
+
+      await expect(page.enterFormula('TODAY()')).rejects.toThrow(
+        new RangeError('Formulas start with "=", got "TODAY()"')
+      );
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeClock } from '../../../core';
+import { MockWorkbook } from '../../../e2e-automation/mock-server/workbook';
+import { inferResultType } from '../../../e2e-automation/tests/helpers/excel-cells';
+import {
+  checkFormulaResult,
+  formulaCell,
+  loadFormulaCatalogue,
+} from '../../../e2e-automation/tests/helpers/formula-catalogue';
+import {
+  FormulaCatalogueEntry,
+  FormulaResult,
+} from '../../../e2e-automation/tests/helpers/types';
+
+const clock = new FakeClock(new Date(2025, 7, 22, 14, 35, 10));
+const window = { before: clock.now(), after: clock.now() };
+
+function result(
+  display: string,
+  resultType: FormulaResult['resultType'] = inferResultType(display)
+): FormulaResult {
+  return { cellAddress: 'H1', formula: '=X()', result: display, resultType };
+}
+
+/**
+ * Test data for data-driven testing: malformed catalogues and the reason
+ * they are refused
+ */
+const malformedTestCases: Array<{ catalogue: unknown; message: string }> = [
+  { catalogue: {}, message: 'must be an array of entries' },
+  { catalogue: [null], message: 'entry 1: entry must be an object' },
+  {
+    catalogue: [{ formula: '1+1', expected: 2, resultType: 'number' }],
+    message: 'entry 1: formula must be a string starting with "="',
+  },
+  {
+    catalogue: [{ formula: '=1', name: 1, expected: 1, resultType: 'number' }],
+    message: 'name must be a string',
+  },
+  {
+    catalogue: [{ formula: '=1', expected: 1, resultType: 'boolean' }],
+    message: 'resultType must be one of date, number, text, error',
+  },
+  {
+    catalogue: [
+      { formula: '=1', expected: 1, tolerance: -1, resultType: 'number' },
+    ],
+    message: 'tolerance must be a non-negative number',
+  },
+  {
+    catalogue: [
+      { formula: '=A1', inputs: { A1: 1 }, expected: 1, resultType: 'number' },
+    ],
+    message: 'inputs must map addresses to strings',
+  },
+  {
+    catalogue: [
+      { formula: '=1', inputs: { A0: '1' }, expected: 1, resultType: 'number' },
+    ],
+    message: 'Row 0 is outside 1..1048576',
+  },
+  {
+    catalogue: [
+      { formula: '=1', cell: 'H', expected: 1, resultType: 'number' },
+    ],
+    message: 'Invalid cell address "H"',
+  },
+  {
+    catalogue: [{ formula: '=1', expected: null, resultType: 'number' }],
+    message:
+      'expected must be a string, a number or { "validator": today | now | dateFunction }',
+  },
+  {
+    catalogue: [
+      {
+        formula: '=1',
+        expected: { validator: 'dateFunction', function: 'WORKDAY', args: [] },
+        resultType: 'number',
+      },
+    ],
+    message: 'unknown date function "WORKDAY"',
+  },
+  {
+    catalogue: [
+      {
+        formula: '=1',
+        expected: { validator: 'dateFunction', function: 'TODAY' },
+        resultType: 'number',
+      },
+    ],
+    message: 'dateFunction validators need an "args" array',
+  },
+];
+
+describe('Formula catalogue', () => {
+  describe('loadFormulaCatalogue', () => {
+    let directory: string;
+
+    beforeAll(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'catalogue-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    function writeCatalogue(catalogue: unknown): string {
+      const file = path.join(directory, 'catalogue.json');
+      fs.writeFileSync(file, JSON.stringify(catalogue));
+      return file;
+    }
+
+    it('should load the fixture catalogue', () => {
+      const catalogue = loadFormulaCatalogue();
+
+      expect(catalogue.length).toBeGreaterThan(0);
+      expect(catalogue.map(entry => entry.formula)).toContain('=TODAY()');
+    });
+
+    malformedTestCases.forEach(({ catalogue, message }) => {
+      it(`should refuse ${JSON.stringify(catalogue)}`, () => {
+        expect(() => loadFormulaCatalogue(writeCatalogue(catalogue))).toThrow(
+          message
+        );
+      });
+    });
+
+    it('should give each entry its own cell', () => {
+      const entry: FormulaCatalogueEntry = {
+        formula: '=1',
+        expected: 1,
+        resultType: 'number',
+      };
+
+      expect(formulaCell(entry, 0)).toBe('H1');
+      expect(formulaCell(entry, 9)).toBe('H10');
+      expect(formulaCell({ ...entry, cell: '$b$3' }, 0)).toBe('B3');
+    });
+  });
+
+  describe('checkFormulaResult', () => {
+    [
+      {
+        entry: { formula: '=1+1', expected: 2, resultType: 'number' },
+        display: '2',
+        message: '=1+1 = 2 as expected',
+      },
+      {
+        entry: {
+          formula: '=1/3',
+          expected: 0.3333,
+          tolerance: 0.0001,
+          resultType: 'number',
+        },
+        display: '0.3333333333',
+        message: '=1/3 = 0.3333333333 as expected',
+      },
+      {
+        entry: { formula: '=10^6', expected: 1000000, resultType: 'number' },
+        display: '1,000,000',
+        message: '=10^6 = 1,000,000 as expected',
+      },
+      {
+        entry: { formula: '=UPPER("a")', expected: 'A ', resultType: 'text' },
+        display: 'a',
+        message: '=UPPER("a") = a as expected',
+      },
+      {
+        entry: {
+          formula: '=TODAY()',
+          expected: { validator: 'today' },
+          resultType: 'date',
+        },
+        display: '8/22/2025',
+        message: '=TODAY(): Date matches current date',
+      },
+    ].forEach(({ entry, display, message }) => {
+      it(`should accept ${display} for ${entry.formula}`, () => {
+        const check = checkFormulaResult(
+          entry as FormulaCatalogueEntry,
+          result(display),
+          window
+        );
+
+        expect(check).toMatchObject({ isValid: true, actual: display });
+        expect(check.message).toContain(message);
+      });
+    });
+
+    [
+      {
+        entry: {
+          formula: '=1/3',
+          expected: 0.33,
+          tolerance: 0.001,
+          resultType: 'number',
+        },
+        display: '0.3333333333',
+        message: '=1/3 mismatch: expected 0.33 ± 0.001, got 0.3333333333',
+      },
+      {
+        entry: { formula: '=1+1', expected: 3, resultType: 'number' },
+        display: '2',
+        message: '=1+1 mismatch: expected 3, got 2',
+      },
+      {
+        entry: { formula: '="a"', expected: 'b', resultType: 'text' },
+        display: 'a',
+        message: '="a" mismatch: expected b, got a',
+      },
+      {
+        entry: { formula: '=1/0', expected: 0, resultType: 'number' },
+        display: '#DIV/0!',
+        message: '=1/0 shows a error (#DIV/0!), expected a number',
+      },
+      {
+        entry: {
+          formula: '=NOW()',
+          expected: { validator: 'now' },
+          resultType: 'date',
+        },
+        display: '8/21/2025 14:35',
+        message: '=NOW(): Time mismatch',
+      },
+      {
+        entry: {
+          formula: '=EDATE(A1,1)',
+          expected: {
+            validator: 'dateFunction',
+            function: 'EDATE',
+            args: [45688, 1],
+          },
+          resultType: 'date',
+        },
+        display: '3/3/2025',
+        message:
+          '=EDATE(A1,1): EDATE(45688,1) mismatch: expected 45716 (2/28/2025), got 3/3/2025',
+      },
+    ].forEach(({ entry, display, message }) => {
+      it(`should refuse ${display} for ${entry.formula}`, () => {
+        const check = checkFormulaResult(
+          entry as FormulaCatalogueEntry,
+          result(display),
+          window
+        );
+
+        expect(check.isValid).toBe(false);
+        expect(check.message).toContain(message);
+      });
+    });
+
+    it('should let a tolerance widen volatile date functions', () => {
+      const entry: FormulaCatalogueEntry = {
+        formula: '=NOW()*1',
+        expected: { validator: 'dateFunction', function: 'NOW', args: [] },
+        tolerance: 60000,
+        resultType: 'number',
+      };
+      // 14:34:40, half a minute before the window
+      const display = '45891.60740741';
+
+      expect(checkFormulaResult(entry, result(display), window).isValid).toBe(
+        true
+      );
+      expect(
+        checkFormulaResult({ ...entry, tolerance: 0 }, result(display), window)
+          .isValid
+      ).toBe(false);
+    });
+
+    it('should hold for every catalogue entry on the Excel Online mock', () => {
+      const workbook = new MockWorkbook('catalogue', clock);
+
+      loadFormulaCatalogue().forEach((entry, index) => {
+        Object.entries(entry.inputs ?? {}).forEach(([address, value]) =>
+          workbook.setCell(address, value)
+        );
+        const cell = workbook.setCell(formulaCell(entry, index), entry.formula);
+        const check = checkFormulaResult(entry, result(cell.display), window);
+
+        // The whole check is printed on failure, message included
+        expect(check).toMatchObject({ isValid: true });
+      });
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import {
+  LoginScenario,
+  loginScenarioCookie,
+  parseLoginScenario,
+  SESSION_EXPIRED_MESSAGE,
+} from '../../../e2e-automation/mock-server/login';
+import { createMockExcelServer } from '../../../e2e-automation/mock-server/server';
+
+/**
+ * A browser stand-in: follows no redirects and keeps the cookies it is given
+ */
+class Visitor {
+  private readonly cookies = new Map<string, string>();
+
+  constructor(
+    private readonly baseUrl: string,
+    scenario?: string
+  ) {
+    if (scenario) {
+      this.cookies.set('mock-login-scenario', scenario);
+    }
+  }
+
+  async get(path: string): Promise<Response> {
+    return this.keepCookies(
+      await fetch(`${this.baseUrl}${path}`, {
+        redirect: 'manual',
+        headers: { cookie: this.cookieHeader() },
+      })
+    );
+  }
+
+  async post(path: string, form: Record<string, string>): Promise<Response> {
+    return this.keepCookies(
+      await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        redirect: 'manual',
+        headers: {
+          cookie: this.cookieHeader(),
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams(form).toString(),
+      })
+    );
+  }
+
+  /** Account name and password, answered with the scenario's next step */
+  signIn(): Promise<Response> {
+    return this.post('/login/password', {
+      loginfmt: 'user@example.com',
+      passwd: 'secret',
+      return: '/launch/excel',
+    });
+  }
+
+  private cookieHeader(): string {
+    return [...this.cookies]
+      .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+      .join('; ');
+  }
+
+  private keepCookies(response: Response): Response {
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair = ''] = cookie.split(';');
+      const separator = pair.indexOf('=');
+      this.cookies.set(
+        pair.slice(0, separator),
+        decodeURIComponent(pair.slice(separator + 1))
+      );
+    }
+    return response;
+  }
+}
+
+function location(response: Response): string {
+  return response.headers.get('location') ?? '';
+}
+
+describe('Excel Online mock sign-in', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createMockExcelServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('parseLoginScenario', () => {
+    [
+      {
+        value: 'normal',
+        expected: { scenario: 'normal', throttledReloads: 3 },
+      },
+      { value: ' mfa ', expected: { scenario: 'mfa', throttledReloads: 3 } },
+      {
+        value: 'throttled:0',
+        expected: { scenario: 'throttled', throttledReloads: 0 },
+      },
+      {
+        value: 'throttled:12',
+        expected: { scenario: 'throttled', throttledReloads: 12 },
+      },
+    ].forEach(({ value, expected }) => {
+      it(`should read "${value}"`, () => {
+        expect(parseLoginScenario(value)).toEqual(expected);
+      });
+    });
+
+    [
+      { value: 'captcha', message: 'Unknown login scenario "captcha"' },
+      { value: 'throttled:-1', message: 'non-negative integer, got "-1"' },
+      { value: 'throttled:two', message: 'non-negative integer, got "two"' },
+    ].forEach(({ value, message }) => {
+      it(`should refuse "${value}"`, () => {
+        expect(() => parseLoginScenario(value)).toThrow(RangeError);
+        expect(() => parseLoginScenario(value)).toThrow(message);
+      });
+    });
+
+    it('should write the cookie a browser context picks its scenario with', () => {
+      expect(loginScenarioCookie('kmsi')).toEqual({
+        name: 'mock-login-scenario',
+        value: 'kmsi',
+      });
+      expect(loginScenarioCookie('throttled', 5).value).toBe('throttled:5');
+      expect(
+        parseLoginScenario(loginScenarioCookie('throttled').value)
+      ).toEqual({
+        scenario: 'throttled',
+        throttledReloads: 3,
+      });
+    });
+  });
+
+  describe('sign-in pages', () => {
+    it('should ask for the account name, then the password', async () => {
+      const visitor = new Visitor(baseUrl);
+
+      const launch = await visitor.get('/launch/excel');
+      expect(launch.status).toBe(303);
+      expect(location(launch)).toBe('/login?return=%2Flaunch%2Fexcel');
+
+      const email = await visitor.get(location(launch));
+      expect(await email.text()).toContain('name="loginfmt"');
+
+      const next = await visitor.post('/login', {
+        loginfmt: '<b>@example.com',
+        return: '/launch/excel',
+      });
+      expect(location(next)).toBe(
+        '/login/password?username=%3Cb%3E%40example.com&return=%2Flaunch%2Fexcel'
+      );
+
+      const password = await (await visitor.get(location(next))).text();
+      expect(password).toContain('type="password"');
+      expect(password).toContain('&#60;b&#62;@example.com');
+      expect(password).not.toContain('<b>');
+    });
+
+    it('should only return to paths on the mock', async () => {
+      const response = await new Visitor(baseUrl).post('/login', {
+        loginfmt: 'user@example.com',
+        return: '//example.com/phish',
+      });
+
+      expect(location(response)).toContain('return=%2Flaunch%2Fexcel');
+    });
+
+    it('should ask again for an empty password', async () => {
+      const response = await new Visitor(baseUrl).post('/login/password', {
+        loginfmt: 'user@example.com',
+      });
+
+      expect(await response.text()).toContain(
+        '<div id="passwordError" role="alert">Please enter your password.</div>'
+      );
+    });
+
+    it('should refuse an unknown scenario cookie', async () => {
+      const response = await new Visitor(baseUrl, 'captcha').signIn();
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('scenarios', () => {
+    const firstSteps: Array<{
+      scenario: LoginScenario;
+      status: number;
+      next: string | RegExp;
+    }> = [
+      { scenario: 'normal', status: 303, next: '/launch/excel' },
+      {
+        scenario: 'kmsi',
+        status: 303,
+        next: '/login/kmsi?return=%2Flaunch%2Fexcel',
+      },
+      {
+        scenario: 'mfa',
+        status: 303,
+        next: '/login/mfa?return=%2Flaunch%2Fexcel',
+      },
+      {
+        scenario: 'throttled',
+        status: 303,
+        next: '/login/throttled?return=%2Flaunch%2Fexcel',
+      },
+      { scenario: 'session-expired', status: 303, next: '/launch/excel' },
+      {
+        scenario: 'wrong-password',
+        status: 200,
+        next: /Your account or password is incorrect/,
+      },
+    ];
+
+    firstSteps.forEach(({ scenario, status, next }) => {
+      it(`should follow the password with the ${scenario} step`, async () => {
+        const response = await new Visitor(baseUrl, scenario).signIn();
+
+        expect(response.status).toBe(status);
+        if (typeof next === 'string') {
+          expect(location(response)).toBe(next);
+        } else {
+          expect(await response.text()).toMatch(next);
+        }
+      });
+    });
+
+    it('should sign in after the "Stay signed in?" prompt', async () => {
+      const visitor = new Visitor(baseUrl, 'kmsi');
+      await visitor.signIn();
+
+      const prompt = await (
+        await visitor.get('/login/kmsi?return=%2Flaunch%2Fexcel')
+      ).text();
+      expect(prompt).toContain('Stay signed in?');
+      expect(prompt).toContain(
+        '<button type="submit" name="kmsi" value="yes" id="idSIButton9">Yes</button>'
+      );
+
+      const answer = await visitor.post('/login/kmsi', {
+        kmsi: 'no',
+        return: '/launch/excel',
+      });
+      expect(location(answer)).toBe('/launch/excel');
+      expect((await visitor.get('/launch/excel')).status).toBe(200);
+    });
+
+    it('should accept a six-digit verification code only', async () => {
+      const visitor = new Visitor(baseUrl, 'mfa');
+      await visitor.signIn();
+
+      expect(await (await visitor.get('/login/mfa')).text()).toContain(
+        'Verify your identity'
+      );
+
+      const wrong = await visitor.post('/login/mfa', { otc: '12345' });
+      expect(await wrong.text()).toContain('That code didn&#39;t work.');
+      expect((await visitor.get('/launch/excel')).status).toBe(303);
+
+      const right = await visitor.post('/login/mfa', { otc: '123456' });
+      expect(location(right)).toBe('/launch/excel');
+      expect((await visitor.get('/launch/excel')).status).toBe(200);
+    });
+
+    [0, 1, 4].forEach(reloads => {
+      it(`should throttle the first view and ${reloads} reloads`, async () => {
+        const visitor = new Visitor(baseUrl, `throttled:${reloads}`);
+        await visitor.signIn();
+
+        for (let view = 0; view <= reloads; view++) {
+          const page = await visitor.get('/login/throttled');
+          expect(page.status).toBe(429);
+          expect(await page.text()).toContain('Please try again later.');
+        }
+        const cleared = await visitor.get('/login/throttled');
+
+        expect(cleared.status).toBe(303);
+        expect((await visitor.get('/launch/excel')).status).toBe(200);
+      });
+    });
+
+    it('should expire the first session and keep the second', async () => {
+      const visitor = new Visitor(baseUrl, 'session-expired');
+      await visitor.signIn();
+
+      const expired = await visitor.get('/launch/excel');
+      expect(location(expired)).toBe(
+        '/login?return=%2Flaunch%2Fexcel&expired=1'
+      );
+      expect(await (await visitor.get(location(expired))).text()).toContain(
+        SESSION_EXPIRED_MESSAGE
+      );
+
+      await visitor.signIn();
+      expect((await visitor.get('/launch/excel')).status).toBe(200);
+    });
+
+    it('should keep a normal session for every page', async () => {
+      const visitor = new Visitor(baseUrl);
+      await visitor.signIn();
+
+      expect((await visitor.get('/')).status).toBe(200);
+      expect((await visitor.get('/launch/excel')).status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import type { CellSnapshot } from '../../../e2e-automation/mock-server/workbook';
+import { FakeClock } from '../../../core';
+import { createMockExcelServer } from '../../../e2e-automation/mock-server/server';
+
+describe('Excel Online mock server', () => {
+  let server: Server;
+  let baseUrl: string;
+  // Cookie header of a signed-in browser
+  let headers: { cookie: string };
+
+  beforeAll(async () => {
+    server = createMockExcelServer({
+      clock: new FakeClock(new Date(2025, 7, 22, 14, 35)),
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    headers = { cookie: await signIn() };
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function newWorkbook(): Promise<string> {
+    const response = await fetch(`${baseUrl}/excel/new`, {
+      method: 'POST',
+      redirect: 'manual',
+      headers,
+    });
+    expect(response.status).toBe(303);
+    const location = new URL(response.headers.get('location') ?? '', baseUrl);
+    expect(location.pathname).toBe('/excel/doc.aspx');
+    return location.searchParams.get('id') ?? '';
+  }
+
+  async function signIn(): Promise<string> {
+    const response = await fetch(`${baseUrl}/login/password`, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'loginfmt=user%40example.com&passwd=secret',
+    });
+    return response.headers
+      .getSetCookie()
+      .map(cookie => cookie.split(';')[0])
+      .join('; ');
+  }
+
+  function putCell(id: string, address: string, body: unknown) {
+    return fetch(`${baseUrl}/api/workbooks/${id}/cells/${address}`, {
+      method: 'PUT',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  it('should answer the readiness probe', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should serve the pages the page objects rely on', async () => {
+    const launch = await (
+      await fetch(`${baseUrl}/launch/excel`, { headers })
+    ).text();
+    const id = await newWorkbook();
+    const host = await (
+      await fetch(`${baseUrl}/excel/doc.aspx?id=${id}`, { headers })
+    ).text();
+    const frame = await (
+      await fetch(`${baseUrl}/excel/frame?id=${id}`, { headers })
+    ).text();
+
+    expect(launch).toContain('data-automation-id="new-blank-workbook"');
+    expect(host).toContain('name="WacFrame_Excel_0"');
+    expect(frame).toContain('role="combobox" aria-label="Name Box"');
+    expect(frame).toContain('aria-label="formula bar"');
+    expect(frame).toContain(`encodeURIComponent("${id}")`);
+  });
+
+  it('should evaluate entered formulas and recalculate dependents', async () => {
+    const id = await newWorkbook();
+    await putCell(id, 'A1', { input: '=TODAY()' });
+    const response = await putCell(id, 'B1', { input: '=A1+30' });
+    const body = (await response.json()) as {
+      cell: CellSnapshot;
+      cells: CellSnapshot[];
+    };
+
+    expect(response.status).toBe(200);
+    expect(body.cell).toMatchObject({
+      address: 'B1',
+      display: '9/21/2025',
+      ariaLabel: '9/21/2025 . B1 . Contains Formula .',
+    });
+    expect(body.cells).toHaveLength(2);
+
+    const cell = await (
+      await fetch(`${baseUrl}/api/workbooks/${id}/cells/A1`, { headers })
+    ).json();
+    expect(cell).toMatchObject({ formula: '=TODAY()', valueType: 'date' });
+
+    const all = (await (
+      await fetch(`${baseUrl}/api/workbooks/${id}`, { headers })
+    ).json()) as { cells: CellSnapshot[] };
+    expect(all.cells.map(c => c.address)).toEqual(['A1', 'B1']);
+  });
+
+  it('should show #NUM! for dates past 9999-12-31 and keep the workbook readable', async () => {
+    const id = await newWorkbook();
+    await putCell(id, 'A1', { input: '=YEAR(9999999)' });
+    await putCell(id, 'A2', { input: '=HOUR(2958466)' });
+    await putCell(id, 'A3', { input: '=DAY(2958465.5)' });
+
+    const response = await fetch(`${baseUrl}/api/workbooks/${id}`, {
+      headers,
+    });
+    const { cells } = (await response.json()) as { cells: CellSnapshot[] };
+
+    expect(response.status).toBe(200);
+    expect(cells.map(c => [c.address, c.display])).toEqual([
+      ['A1', '#NUM!'],
+      ['A2', '#NUM!'],
+      ['A3', '31'],
+    ]);
+  });
+
+  [
+    {
+      description: 'a formula Excel refuses',
+      body: { input: '=SUM(1' },
+      address: 'A1',
+      status: 400,
+      message: 'There\'s a problem with this formula. Expected ")" in formula',
+    },
+    {
+      description: 'an invalid address',
+      body: { input: '1' },
+      address: 'A0',
+      status: 400,
+      message: 'Row 0 is outside 1..1048576',
+    },
+    {
+      description: 'a body without input',
+      body: { value: 1 },
+      address: 'A1',
+      status: 400,
+      message: 'Expected {"input": "<value or formula>"}',
+    },
+    {
+      description: 'a body that is not JSON',
+      body: 'not json',
+      address: 'A1',
+      status: 400,
+      message: 'Request body must be a JSON object',
+    },
+  ].forEach(({ description, body, address, status, message }) => {
+    it(`should reject ${description}`, async () => {
+      const id = await newWorkbook();
+      const response = await putCell(id, address, body);
+
+      expect(response.status).toBe(status);
+      expect(
+        ((await response.json()) as { message: string }).message
+      ).toContain(message);
+    });
+  });
+
+  it('should send visitors who are not signed in to the sign-in page', async () => {
+    const id = await newWorkbook();
+    const response = await fetch(`${baseUrl}/excel/doc.aspx?id=${id}`, {
+      redirect: 'manual',
+    });
+    const location = new URL(response.headers.get('location') ?? '', baseUrl);
+
+    expect(response.status).toBe(303);
+    expect(location.pathname).toBe('/login');
+    expect(location.searchParams.get('return')).toBe(
+      `/excel/doc.aspx?id=${id}`
+    );
+  });
+
+  [
+    { method: 'POST', path: '/excel/new', returnTo: '/launch/excel' },
+    {
+      method: 'GET',
+      path: '/excel/frame?id=1',
+      returnTo: '/excel/frame?id=1',
+    },
+  ].forEach(({ method, path, returnTo }) => {
+    it(`should send ${method} ${path} without a session to the sign-in page`, async () => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        redirect: 'manual',
+      });
+      const location = new URL(response.headers.get('location') ?? '', baseUrl);
+
+      expect(response.status).toBe(303);
+      expect(location.pathname).toBe('/login');
+      expect(location.searchParams.get('return')).toBe(returnTo);
+    });
+  });
+
+  it('should refuse API calls without a session', async () => {
+    const id = await newWorkbook();
+    const read = await fetch(`${baseUrl}/api/workbooks/${id}`);
+    const write = await fetch(`${baseUrl}/api/workbooks/${id}/cells/A1`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ input: '1' }),
+    });
+
+    expect(read.status).toBe(401);
+    expect(write.status).toBe(401);
+    expect(await read.json()).toEqual({
+      message: 'Sign in to use the workbook API',
+    });
+  });
+
+  it('should answer malformed percent-encoding with 400', async () => {
+    const id = await newWorkbook();
+    const responses = await Promise.all([
+      fetch(`${baseUrl}/api/workbooks/%E0%A4%A`, { headers }),
+      fetch(`${baseUrl}/api/workbooks/${id}/cells/%E0%A4%A`, { headers }),
+      fetch(`${baseUrl}/launch/excel`, {
+        headers: { cookie: `${headers.cookie}; theme=%E0%A4%A` },
+      }),
+    ]);
+
+    for (const response of responses) {
+      expect(response.status).toBe(400);
+      expect(
+        ((await response.json()) as { message: string }).message
+      ).toContain('Malformed percent-encoding in "%E0%A4%A"');
+    }
+  });
+
+  [
+    { method: 'GET', path: '/api/workbooks/missing' },
+    { method: 'GET', path: '/excel/doc.aspx' },
+    { method: 'DELETE', path: '/health' },
+  ].forEach(({ method, path }) => {
+    it(`should answer ${method} ${path} with 404`, async () => {
+      const response = await fetch(`${baseUrl}${path}`, { method, headers });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
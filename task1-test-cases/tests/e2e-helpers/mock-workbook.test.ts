@@ -0,0 +1,277 @@
+import { FakeClock } from '../../../core';
+import {
+  ExcelError,
+  formatGeneral,
+  FormulaSyntaxError,
+  parseFormula,
+  SUPPORTED_FUNCTIONS,
+} from '../../../e2e-automation/mock-server/formula';
+import {
+  cellAriaLabel,
+  CellValueType,
+  MockWorkbook,
+} from '../../../e2e-automation/mock-server/workbook';
+
+// Friday 2025-08-22 14:35 local time, serial 45891.6076...
+const clock = new FakeClock(new Date(2025, 7, 22, 14, 35, 10));
+
+/**
+ * Test data for data-driven testing: formulas over A1 = 10, A2 = 32,
+ * A3 = "text", A4 = 8/1/2025 and B1 = TRUE
+ */
+const formulaTestCases: Array<{
+  formula: string;
+  display: string;
+  valueType: CellValueType;
+}> = [
+  { formula: '=1+2*3', display: '7', valueType: 'number' },
+  { formula: '=(1+2)*3', display: '9', valueType: 'number' },
+  { formula: '=-2^2', display: '4', valueType: 'number' },
+  { formula: '=2^3^2', display: '64', valueType: 'number' },
+  { formula: '=50%', display: '0.5', valueType: 'number' },
+  { formula: '=1/3', display: '0.3333333333', valueType: 'number' },
+  { formula: '=A1+A2', display: '42', valueType: 'number' },
+  { formula: '=$A$1*2', display: '20', valueType: 'number' },
+  { formula: '=A1+C9', display: '10', valueType: 'number' },
+  { formula: '=C9', display: '0', valueType: 'number' },
+  { formula: '=A1/0', display: '#DIV/0!', valueType: 'error' },
+  { formula: '=A3+1', display: '#VALUE!', valueType: 'error' },
+  { formula: '="8/1/2025"+1', display: '45871', valueType: 'number' },
+  { formula: '=FOO(1)', display: '#NAME?', valueType: 'error' },
+  { formula: '=A1:A2', display: '#VALUE!', valueType: 'error' },
+  { formula: '=SUM(A1:A3)', display: '42', valueType: 'number' },
+  { formula: '=SUM(A1:A2,"8",TRUE)', display: '51', valueType: 'number' },
+  { formula: '=AVERAGE(A1:A2)', display: '21', valueType: 'number' },
+  { formula: '=AVERAGE(A3)', display: '#VALUE!', valueType: 'error' },
+  { formula: '=AVERAGE(C1:C3)', display: '#DIV/0!', valueType: 'error' },
+  { formula: '=MIN(A1:A2)', display: '10', valueType: 'number' },
+  { formula: '=MAX(A1:A2,50)', display: '50', valueType: 'number' },
+  { formula: '=MAX(C1:C3)', display: '0', valueType: 'number' },
+  { formula: '=COUNT(A1:B1,A4)', display: '2', valueType: 'number' },
+  { formula: '=COUNTA(A1:C4)', display: '5', valueType: 'number' },
+  { formula: '=ROUND(2.675,2)', display: '2.68', valueType: 'number' },
+  { formula: '=ROUND(-2.5,0)', display: '-3', valueType: 'number' },
+  { formula: '=INT(-1.5)', display: '-2', valueType: 'number' },
+  { formula: '=ABS(-3)', display: '3', valueType: 'number' },
+  { formula: '=MOD(-3,2)', display: '1', valueType: 'number' },
+  { formula: '=MOD(1,0)', display: '#DIV/0!', valueType: 'error' },
+  { formula: '=IF(A1>5,"big","small")', display: 'big', valueType: 'text' },
+  { formula: '=IF(A1>50,"big")', display: 'FALSE', valueType: 'boolean' },
+  { formula: '=IF("yes",1,2)', display: '#VALUE!', valueType: 'error' },
+  { formula: '=IF("true",1,2)', display: '1', valueType: 'number' },
+  { formula: '=IFERROR(A1/0,"none")', display: 'none', valueType: 'text' },
+  { formula: '=IFERROR(A1,"none")', display: '10', valueType: 'number' },
+  { formula: '=IFERROR(C5,"none")', display: 'none', valueType: 'text' },
+  { formula: '=AND(B1,A1>5)', display: 'TRUE', valueType: 'boolean' },
+  { formula: '=OR(FALSE,A1<5)', display: 'FALSE', valueType: 'boolean' },
+  { formula: '=NOT(B1)', display: 'FALSE', valueType: 'boolean' },
+  { formula: '=A3="TEXT"', display: 'TRUE', valueType: 'boolean' },
+  { formula: '=A1<>10', display: 'FALSE', valueType: 'boolean' },
+  { formula: '=A1<=A2', display: 'TRUE', valueType: 'boolean' },
+  { formula: '=A1>=A2', display: 'FALSE', valueType: 'boolean' },
+  { formula: '=A3>A1', display: 'TRUE', valueType: 'boolean' },
+  { formula: '=B1>A3', display: 'TRUE', valueType: 'boolean' },
+  { formula: '=C9=""', display: 'TRUE', valueType: 'boolean' },
+  { formula: '=C9=FALSE', display: 'TRUE', valueType: 'boolean' },
+  { formula: '=C9<1', display: 'TRUE', valueType: 'boolean' },
+  { formula: '="a"&A1&B1&C9', display: 'a10TRUE', valueType: 'text' },
+  { formula: '="say ""hi"""', display: 'say "hi"', valueType: 'text' },
+  { formula: '=LEN(A3)', display: '4', valueType: 'number' },
+  { formula: '=UPPER(A3)&LOWER("AB")', display: 'TEXTab', valueType: 'text' },
+  { formula: '=TRIM("  a   b ")', display: 'a b', valueType: 'text' },
+  { formula: '=CONCAT(A1:A2,"!")', display: '1032!', valueType: 'text' },
+  { formula: '=CONCATENATE(A3,"-",A1)', display: 'text-10', valueType: 'text' },
+  { formula: '=TODAY()', display: '8/22/2025', valueType: 'date' },
+  { formula: '=today()+1', display: '8/23/2025', valueType: 'date' },
+  { formula: '=1+TODAY()', display: '8/23/2025', valueType: 'date' },
+  { formula: '=TODAY()-A4', display: '21', valueType: 'number' },
+  { formula: '=-TODAY()', display: '-45891', valueType: 'number' },
+  { formula: '=TODAY()*1', display: '45891', valueType: 'number' },
+  { formula: '=NOW()', display: '8/22/2025 14:35', valueType: 'date' },
+  {
+    formula: '=HOUR(NOW())&":"&MINUTE(NOW())',
+    display: '14:35',
+    valueType: 'text',
+  },
+  { formula: '=DATE(2024,1,1)', display: '1/1/2024', valueType: 'date' },
+  { formula: '=EDATE(A4,1)', display: '9/1/2025', valueType: 'date' },
+  { formula: '=EDATE("1/31/2025",1)', display: '2/28/2025', valueType: 'date' },
+  { formula: '=EOMONTH(A4,0)', display: '8/31/2025', valueType: 'date' },
+  { formula: '=WEEKDAY(TODAY())', display: '6', valueType: 'number' },
+  {
+    formula: '=NETWORKDAYS(A4,TODAY(),A4:A4)',
+    display: '15',
+    valueType: 'number',
+  },
+  { formula: '=DATEDIF(A4,TODAY(),"d")', display: '21', valueType: 'number' },
+  { formula: '=DATEDIF(TODAY(),A4,"d")', display: '#NUM!', valueType: 'error' },
+  { formula: '=DATE(1900,2,29)', display: '60', valueType: 'date' },
+  {
+    formula: '=YEAR(A4)*100+MONTH(A4)',
+    display: '202508',
+    valueType: 'number',
+  },
+  { formula: '=DAY(-1)', display: '#NUM!', valueType: 'error' },
+  { formula: '=YEAR(9999999)', display: '#NUM!', valueType: 'error' },
+  {
+    formula: '=EDATE(DATE(9999,12,31),1)',
+    display: '#NUM!',
+    valueType: 'error',
+  },
+  { formula: '=10^400', display: '#NUM!', valueType: 'error' },
+  { formula: '=0^-1', display: '#DIV/0!', valueType: 'error' },
+  { formula: '=SUM(A1,C5)', display: '#DIV/0!', valueType: 'error' },
+  { formula: '=1E+21*1000', display: '1E+24', valueType: 'number' },
+];
+
+function sampleWorkbook(): MockWorkbook {
+  const workbook = new MockWorkbook('book', clock);
+  workbook.setCell('A1', '10');
+  workbook.setCell('A2', '32');
+  workbook.setCell('A3', 'text');
+  workbook.setCell('A4', '8/1/2025');
+  workbook.setCell('B1', 'true');
+  workbook.setCell('C5', '=1/0');
+  return workbook;
+}
+
+describe('Excel Online mock', () => {
+  describe('formulas', () => {
+    formulaTestCases.forEach(({ formula, display, valueType }) => {
+      it(`should show ${formula} as "${display}"`, () => {
+        const cell = sampleWorkbook().setCell('D1', formula);
+
+        expect(cell).toMatchObject({ display, valueType, formula });
+      });
+    });
+
+    [
+      { formula: '=', message: 'Formula is empty' },
+      { formula: '=1+', message: 'Formula ends unexpectedly' },
+      { formula: '=(1+2', message: 'Expected ")" in formula' },
+      { formula: '=1 2', message: 'Unexpected "2" in formula' },
+      { formula: '=1+)', message: 'Unexpected ")" in formula' },
+      { formula: '=A1:', message: 'Invalid range after A1:' },
+      { formula: '=1#2', message: 'Unexpected "#2" in formula' },
+      {
+        formula: '=XFE1',
+        message: 'Column 16385 is outside 1..16384 (A..XFD)',
+      },
+      {
+        formula: '=ROUND(1)',
+        message: "You've entered too few arguments for ROUND",
+      },
+      {
+        formula: '=-TODAY(1)',
+        message: "You've entered too many arguments for TODAY",
+      },
+      {
+        formula: '=1+ABS(1,2)',
+        message: "You've entered too many arguments for ABS",
+      },
+    ].forEach(({ formula, message }) => {
+      it(`should refuse ${formula}`, () => {
+        expect(() => parseFormula(formula)).toThrow(FormulaSyntaxError);
+        expect(() => parseFormula(formula)).toThrow(message);
+      });
+    });
+
+    it('should parse functions in any case and ranges in any order', () => {
+      expect(parseFormula(' =sum(b2:a1) ')).toEqual({
+        type: 'call',
+        name: 'SUM',
+        args: [{ type: 'range', from: 'B2', to: 'A1' }],
+      });
+      expect(sampleWorkbook().setCell('D1', '=SUM(A2:A1)').display).toBe('42');
+    });
+
+    it('should list the functions it evaluates', () => {
+      expect(SUPPORTED_FUNCTIONS).toEqual(
+        expect.arrayContaining(['SUM', 'IF', 'TODAY', 'NOW', 'DATEDIF'])
+      );
+    });
+
+    it('should format numbers like the General format', () => {
+      expect(formatGeneral(45891)).toBe('45891');
+      expect(formatGeneral(0.1 + 0.2)).toBe('0.3');
+      expect(formatGeneral(123456789012)).toBe('1.23456789E+11');
+      expect(formatGeneral(-0.00000000012)).toBe('-1.2E-10');
+    });
+
+    it('should keep error values as values', () => {
+      expect(new ExcelError('#N/A')).toMatchObject({
+        code: '#N/A',
+        message: '#N/A',
+        name: 'ExcelError',
+      });
+    });
+  });
+
+  describe('workbook', () => {
+    it('should keep typed constants', () => {
+      const workbook = sampleWorkbook();
+
+      expect(workbook.getCell('A4')).toEqual({
+        address: 'A4',
+        input: '8/1/2025',
+        formula: null,
+        display: '8/1/2025',
+        valueType: 'date',
+        ariaLabel: '8/1/2025 . A4 .',
+      });
+      expect(workbook.setCell('A5', "'123")).toMatchObject({
+        display: '123',
+        valueType: 'text',
+      });
+      expect(workbook.getCell('b1').display).toBe('TRUE');
+    });
+
+    it('should label cells like Excel Online', () => {
+      const workbook = sampleWorkbook();
+
+      expect(workbook.setCell('$A$9', '=TODAY()').ariaLabel).toBe(
+        '8/22/2025 . A9 . Contains Formula .'
+      );
+      expect(workbook.getCell('Z99')).toMatchObject({
+        ariaLabel: 'Z99 .',
+        valueType: 'empty',
+        display: '',
+      });
+      expect(cellAriaLabel('A1', '', true)).toBe('A1 . Contains Formula .');
+    });
+
+    it('should recalculate dependents and follow the clock', () => {
+      const movingClock = new FakeClock(new Date(2025, 11, 31, 23, 59));
+      const workbook = new MockWorkbook('book', movingClock);
+      workbook.setCell('A1', '=NOW()');
+      workbook.setCell('B1', '=A1+1');
+
+      expect(workbook.getCell('B1').display).toBe('1/1/2026 23:59');
+
+      movingClock.advance(60000);
+      workbook.setCell('A2', '5');
+
+      expect(workbook.getCells().map(cell => cell.display)).toEqual([
+        '1/1/2026 0:00',
+        '1/2/2026 0:00',
+        '5',
+      ]);
+    });
+
+    it('should clear cells and show circular references as 0', () => {
+      const workbook = sampleWorkbook();
+      workbook.setCell('E1', '=E2+1');
+      workbook.setCell('E2', '=E1');
+
+      expect(workbook.getCell('E1').display).toBe('1');
+      expect(workbook.setCell('A1', '')).toMatchObject({ valueType: 'empty' });
+      expect(workbook.getCells().map(cell => cell.address)).not.toContain('A1');
+    });
+
+    it('should reject invalid addresses', () => {
+      expect(() => sampleWorkbook().setCell('1A', '1')).toThrow(
+        'Invalid cell address "1A"'
+      );
+    });
+  });
+});
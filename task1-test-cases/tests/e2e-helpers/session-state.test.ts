@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExcelOnlinePageClean } from '../../../e2e-automation/tests/helpers/excel-page-clean';
+import {
+  EMPTY_STORAGE_STATE,
+  readStorageState,
+  saveStorageState,
+  StorageState,
+  writeStorageState,
+} from '../../../e2e-automation/tests/helpers/session-state';
+
+const signedIn: StorageState = {
+  cookies: [
+    {
+      name: 'mock-session',
+      value: 'a1b2c3',
+      domain: '127.0.0.1',
+      path: '/',
+      expires: -1,
+      httpOnly: true,
+      secure: false,
+      sameSite: 'Lax',
+    },
+  ],
+  origins: [],
+};
+
+describe('Stored session', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'session-'));
+    file = path.join(directory, '.auth', 'excel-session.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read back what was written', () => {
+    writeStorageState(signedIn, file);
+
+    expect(readStorageState(file)).toEqual(signedIn);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['excel-session.json']);
+  });
+
+  it('should start signed out without a stored session', () => {
+    expect(readStorageState(file)).toEqual(EMPTY_STORAGE_STATE);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  [
+    { description: 'invalid JSON', content: '{"cookies": [' },
+    { description: 'no storageState', content: '{"cookies": []}' },
+  ].forEach(({ description, content }) => {
+    it(`should ignore a file with ${description}`, () => {
+      fs.mkdirSync(path.dirname(file));
+      fs.writeFileSync(file, content);
+
+      expect(readStorageState(file)).toEqual(EMPTY_STORAGE_STATE);
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining(`Ignoring ${file}`)
+      );
+    });
+  });
+
+  it("should save a context's state", async () => {
+    const context = { storageState: async () => signedIn } as Parameters<
+      typeof saveStorageState
+    >[0];
+
+    await saveStorageState(context, file);
+
+    expect(readStorageState(file)).toEqual(signedIn);
+  });
+});
+
+describe('ExcelOnlinePageClean.ensureSignedIn', () => {
+  type Shown = 'excel' | 'sign-in form' | 'error page';
+
+  interface FakeLocator {
+    first(): FakeLocator;
+    or(other: FakeLocator): { first(): { waitFor(): Promise<void> } };
+    isVisible(): Promise<boolean>;
+  }
+
+  // A page showing Excel, the sign-in form or neither of them
+  function fakePage(shown: Shown) {
+    const locator = (selector: string): FakeLocator => {
+      const visible =
+        (shown === 'excel' && selector.includes('Blank workbook')) ||
+        (shown === 'sign-in form' && selector.includes('loginfmt'));
+      const element: FakeLocator = {
+        first: () => element,
+        or: other => ({
+          first: () => ({
+            waitFor: async () => {
+              if (!visible && !(await other.isVisible())) {
+                throw new Error('Timeout 30000ms exceeded');
+              }
+            },
+          }),
+        }),
+        isVisible: async () => visible,
+      };
+      return element;
+    };
+    const page = { goto: jest.fn(async () => null), locator };
+    return { page, excelPage: new ExcelOnlinePageClean(page as never) };
+  }
+
+  const credentials = { username: 'user', password: 'secret' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reuse a session that is still valid', async () => {
+    const { page, excelPage } = fakePage('excel');
+    const login = jest.spyOn(excelPage, 'login');
+
+    await expect(excelPage.ensureSignedIn(credentials)).resolves.toBe(false);
+    expect(page.goto).toHaveBeenCalledWith(
+      'https://www.office.com/launch/excel',
+      expect.anything()
+    );
+    expect(login).not.toHaveBeenCalled();
+  });
+
+  (['sign-in form', 'error page'] as const).forEach(shown => {
+    it(`should sign in again when Excel shows the ${shown}`, async () => {
+      const { excelPage } = fakePage(shown);
+      const login = jest
+        .spyOn(excelPage, 'login')
+        .mockImplementation(async () => undefined);
+
+      await expect(excelPage.ensureSignedIn(credentials)).resolves.toBe(true);
+      expect(login).toHaveBeenCalledWith(credentials);
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  DATE_LOCALES,
+  DateParseOptions,
+  ExcelDateError,
+  ExcelDateErrorCode,
+  formatExcelDate,
+  isSameDay,
+  parseExcelDate,
+  tryParseExcelDate,
+  validateTodayDate,
+} from '../../core';
+
+/**
+ * Test data for data-driven testing of accepted date formats
+ */
+const parseTestCases: Array<{
+  value: string;
+  options?: DateParseOptions;
+  expected: [number, number, number];
+  format: string;
+}> = [
+  { value: '8/22/2025', expected: [2025, 8, 22], format: 'm/d/yyyy' },
+  { value: ' 12/31/1999 ', expected: [1999, 12, 31], format: 'm/d/yyyy' },
+  { value: '2/29/2024', expected: [2024, 2, 29], format: 'm/d/yyyy' },
+  { value: '2025-08-22', expected: [2025, 8, 22], format: 'yyyy-mm-dd' },
+  { value: 'August 22, 2025', expected: [2025, 8, 22], format: 'mmmm d, yyyy' },
+  { value: 'aug 22, 2025', expected: [2025, 8, 22], format: 'mmm d, yyyy' },
+  {
+    value: 'Friday, August 22, 2025',
+    expected: [2025, 8, 22],
+    format: 'dddd, mmmm d, yyyy',
+  },
+  { value: '22.08.2025', expected: [2025, 8, 22], format: 'dd.mm.yyyy' },
+  {
+    value: 'Freitag, 22. August 2025',
+    expected: [2025, 8, 22],
+    format: 'dddd, d. mmmm yyyy',
+  },
+  { value: '22 August 2025', expected: [2025, 8, 22], format: 'dd mmmm yyyy' },
+  { value: '22 août 2025', expected: [2025, 8, 22], format: 'd mmmm yyyy' },
+  {
+    value: '3/4/2026',
+    options: { locale: 'en-US' },
+    expected: [2026, 3, 4],
+    format: 'm/d/yyyy',
+  },
+  {
+    value: '3/4/2026',
+    options: { locale: 'en-GB' },
+    expected: [2026, 4, 3],
+    format: 'dd/mm/yyyy',
+  },
+  {
+    value: '03.04.26',
+    options: { format: 'dd.mm.yy' },
+    expected: [2026, 4, 3],
+    format: 'dd.mm.yy',
+  },
+  {
+    value: '22-Aug-95',
+    options: { format: '[$-409]dd-mmm-yy' },
+    expected: [1995, 8, 22],
+    format: '[$-409]dd-mmm-yy',
+  },
+  {
+    value: 'the 22 of AUGUST, 2025',
+    options: { format: '"the" d "of" mmmm, yyyy' },
+    expected: [2025, 8, 22],
+    format: '"the" d "of" mmmm, yyyy',
+  },
+];
+
+const invalidTestCases: Array<{
+  value: string;
+  options?: DateParseOptions;
+  code: ExcelDateErrorCode;
+  description: string;
+}> = [
+  { value: '  ', code: 'EMPTY', description: 'blank' },
+  { value: 'No result found', code: 'NO_MATCH', description: 'text' },
+  { value: '2/30/2025', code: 'INVALID_DATE', description: 'past month end' },
+  { value: '2/29/2025', code: 'INVALID_DATE', description: 'common year' },
+  {
+    value: 'Monday, August 22, 2025',
+    code: 'INVALID_DATE',
+    description: 'wrong weekday',
+  },
+  { value: '3/4/2026', code: 'AMBIGUOUS', description: 'no locale' },
+  {
+    value: '22.08.2025',
+    options: { locale: 'en-US' },
+    code: 'NO_MATCH',
+    description: 'other locale',
+  },
+  {
+    value: '13/1/2025',
+    options: { locale: 'en-US' },
+    code: 'INVALID_DATE',
+    description: 'month 13',
+  },
+  {
+    value: '2025-08-22',
+    options: { format: 'd/m/yyyy' },
+    code: 'NO_MATCH',
+    description: 'other format',
+  },
+];
+
+describe('Excel dates', () => {
+  describe('tryParseExcelDate', () => {
+    parseTestCases.forEach(({ value, options, expected, format }) => {
+      it(`should parse "${value}" as ${expected.join('-')} (${format})`, () => {
+        const result = tryParseExcelDate(value, options);
+
+        expect(result).toMatchObject({ ok: true, format });
+        if (result.ok) {
+          const { date } = result;
+          expect([
+            date.getFullYear(),
+            date.getMonth() + 1,
+            date.getDate(),
+          ]).toEqual(expected);
+        }
+      });
+    });
+
+    invalidTestCases.forEach(({ value, options, code, description }) => {
+      it(`should report ${code} for "${value}" (${description})`, () => {
+        expect(tryParseExcelDate(value, options)).toMatchObject({
+          ok: false,
+          code,
+        });
+      });
+    });
+
+    it('should list the competing readings of an ambiguous date', () => {
+      const result = tryParseExcelDate('3/4/2026');
+
+      expect(result).toMatchObject({
+        ok: false,
+        message:
+          'Ambiguous date "3/4/2026" could be 2026-03-04 (m/d/yyyy, en-US) ' +
+          'or 2026-04-03 (dd/mm/yyyy, en-GB); pass a locale or format',
+      });
+      expect(result.ok ? [] : result.candidates?.map(c => c.locale)).toEqual([
+        'en-US',
+        'en-GB',
+      ]);
+    });
+
+    it('should not report a date that reads the same everywhere as ambiguous', () => {
+      expect(tryParseExcelDate('4/4/2026')).toMatchObject({ ok: true });
+      expect(tryParseExcelDate('2026-04-03')).toMatchObject({ ok: true });
+    });
+
+    it('should name the expected formats when nothing matches', () => {
+      expect(tryParseExcelDate('22.08.2025', { format: 'm/d/yyyy' })).toEqual({
+        ok: false,
+        code: 'NO_MATCH',
+        message: '"22.08.2025" does not match date format m/d/yyyy',
+      });
+    });
+
+    it('should reject unknown locales and incomplete formats', () => {
+      expect(() => tryParseExcelDate('1/2/2026', { locale: 'xx-XX' })).toThrow(
+        RangeError
+      );
+      expect(() => tryParseExcelDate('1/2', { format: 'm/d' })).toThrow(
+        'Date format "m/d" must contain exactly one day, month and year'
+      );
+    });
+
+    it('should know every locale it advertises', () => {
+      DATE_LOCALES.forEach(locale => {
+        const today = new Date(2026, 2, 4);
+        const shown = formatExcelDate(today, { locale });
+
+        expect(isSameDay(parseExcelDate(shown, { locale }), today)).toBe(true);
+      });
+    });
+  });
+
+  describe('parseExcelDate', () => {
+    it('should return the date', () => {
+      expect(parseExcelDate('1/2/2026', { locale: 'en-US' })).toEqual(
+        new Date(2026, 0, 2)
+      );
+    });
+
+    it('should throw ExcelDateError with the failure code and candidates', () => {
+      const run = () => parseExcelDate('3/4/2026');
+
+      expect(run).toThrow(ExcelDateError);
+      expect(run).toThrow(
+        expect.objectContaining({
+          code: 'AMBIGUOUS',
+          candidates: expect.arrayContaining([
+            expect.objectContaining({ locale: 'en-GB' }),
+          ]),
+        })
+      );
+      expect(() => parseExcelDate('')).toThrow(
+        expect.objectContaining({ code: 'EMPTY', candidates: [] })
+      );
+    });
+  });
+
+  describe('helpers', () => {
+    it('should compare calendar days ignoring the time', () => {
+      expect(
+        isSameDay(new Date(2025, 7, 22, 0, 0), new Date(2025, 7, 22, 23, 59))
+      ).toBe(true);
+      expect(isSameDay(new Date(2025, 7, 22), new Date(2025, 7, 23))).toBe(
+        false
+      );
+    });
+
+    [
+      { options: {}, expected: '8/2/2025' },
+      { options: { locale: 'en-GB' }, expected: '02/08/2025' },
+      { options: { locale: 'de-DE' }, expected: '02.08.2025' },
+      { options: { format: 'yy-mm-dd' }, expected: '25-08-02' },
+      { options: { format: 'ddd, mmm d yyyy' }, expected: 'Sat, Aug 2 2025' },
+      {
+        options: { format: 'dddd d mmmm yyyy', locale: 'fr-FR' },
+        expected: 'samedi 2 août 2025',
+      },
+      { options: { format: 'd\\-m\\-yyyy' }, expected: '2-8-2025' },
+    ].forEach(({ options, expected }) => {
+      it(`should format dates as ${expected}`, () => {
+        expect(formatExcelDate(new Date(2025, 7, 2), options)).toBe(expected);
+      });
+    });
+  });
+
+  describe('validateTodayDate', () => {
+    const today = new Date(2025, 7, 22, 15, 30);
+
+    it('should accept today in any supported format', () => {
+      ['8/22/2025', '2025-08-22', 'August 22, 2025'].forEach(value => {
+        expect(validateTodayDate(value, today)).toEqual({
+          isValid: true,
+          expectedDate: '8/22/2025',
+          actualDate: value,
+          message: 'Date matches current date',
+        });
+      });
+    });
+
+    it('should report a different day', () => {
+      expect(validateTodayDate('8/21/2025', today)).toEqual({
+        isValid: false,
+        expectedDate: '8/22/2025',
+        actualDate: '8/21/2025',
+        message: 'Date mismatch: expected 8/22/2025, got 8/21/2025',
+      });
+    });
+
+    it('should report values that are not dates', () => {
+      expect(validateTodayDate(' #NAME? ', today)).toEqual({
+        isValid: false,
+        expectedDate: '8/22/2025',
+        actualDate: '#NAME?',
+        message:
+          'Unable to parse date: "#NAME?" does not match any known date format',
+      });
+    });
+
+    it('should reject an ambiguous value unless the locale is given', () => {
+      const march4 = new Date(2026, 2, 4);
+
+      expect(validateTodayDate('3/4/2026', march4)).toMatchObject({
+        isValid: false,
+        message: expect.stringContaining('Ambiguous date "3/4/2026"'),
+      });
+      expect(
+        validateTodayDate('3/4/2026', march4, { locale: 'en-US' }).isValid
+      ).toBe(true);
+      expect(
+        validateTodayDate('04/03/2026', march4, { locale: 'en-GB' })
+      ).toMatchObject({ isValid: true, expectedDate: '04/03/2026' });
+      expect(
+        validateTodayDate('03/04/2026', march4, { locale: 'en-GB' }).message
+      ).toBe('Date mismatch: expected 04/03/2026, got 03/04/2026');
+    });
+
+    it('should default to the current date', () => {
+      expect(
+        validateTodayDate(formatExcelDate(new Date()), undefined, {
+          locale: 'en-US',
+        }).isValid
+      ).toBe(true);
+    });
+  });
+});
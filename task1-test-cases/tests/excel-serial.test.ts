@@ -0,0 +1,202 @@
+import {
+  dateToSerial,
+  DateSystem,
+  MAX_SERIAL,
+  serialToDate,
+  serialToParts,
+  validateTodaySerial,
+} from '../../core';
+
+/**
+ * Test data for data-driven testing of serials as Excel shows them
+ */
+const serialTestCases: Array<{
+  serial: number;
+  system: DateSystem;
+  date: [number, number, number];
+  description: string;
+}> = [
+  { serial: 1, system: '1900', date: [1900, 1, 1], description: 'first day' },
+  {
+    serial: 59,
+    system: '1900',
+    date: [1900, 2, 28],
+    description: 'last real February day',
+  },
+  {
+    serial: 61,
+    system: '1900',
+    date: [1900, 3, 1],
+    description: 'after the fake leap day',
+  },
+  {
+    serial: 25569,
+    system: '1900',
+    date: [1970, 1, 1],
+    description: 'Unix epoch',
+  },
+  { serial: 36526, system: '1900', date: [2000, 1, 1], description: 'Y2K' },
+  { serial: 45891, system: '1900', date: [2025, 8, 22], description: 'recent' },
+  {
+    serial: 2958465,
+    system: '1900',
+    date: [9999, 12, 31],
+    description: 'last day',
+  },
+  { serial: 0, system: '1904', date: [1904, 1, 1], description: 'first day' },
+  { serial: 44429, system: '1904', date: [2025, 8, 22], description: 'recent' },
+  {
+    serial: 2957003,
+    system: '1904',
+    date: [9999, 12, 31],
+    description: 'last day',
+  },
+];
+
+describe('Excel serial dates', () => {
+  describe('conversion', () => {
+    serialTestCases.forEach(({ serial, system, date, description }) => {
+      const [year, month, day] = date;
+      const label = `${year}-${month}-${day}`;
+
+      it(`should map ${system} serial ${serial} to ${label} (${description})`, () => {
+        expect(serialToDate(serial, system)).toEqual(
+          new Date(year, month - 1, day)
+        );
+        expect(dateToSerial(new Date(year, month - 1, day), system)).toBe(
+          serial
+        );
+      });
+    });
+
+    it('should represent the fake 1900-02-29 as serial 60', () => {
+      expect(serialToParts(60)).toEqual({
+        year: 1900,
+        month: 2,
+        day: 29,
+        hours: 0,
+        minutes: 0,
+        seconds: 0,
+        milliseconds: 0,
+      });
+      expect(() => serialToDate(60.25)).toThrow(
+        'Serial 60 is 1900-02-29, which exists only in the Excel 1900 date system'
+      );
+      expect(serialToParts(60, '1904')).toMatchObject({
+        year: 1904,
+        month: 3,
+        day: 1,
+      });
+    });
+
+    it('should map serial 0 of the 1900 system to 1899-12-31 (shown as 1/0/1900)', () => {
+      expect(serialToDate(0)).toEqual(new Date(1899, 11, 31));
+      expect(dateToSerial(new Date(1899, 11, 31, 12))).toBe(0.5);
+    });
+
+    it('should offset the 1904 system by 1462 days', () => {
+      const date = new Date(2026, 2, 4);
+
+      expect(dateToSerial(date, '1900') - dateToSerial(date, '1904')).toBe(
+        1462
+      );
+    });
+
+    it('should carry the time of day as the fraction', () => {
+      expect(dateToSerial(new Date(2025, 7, 22, 12))).toBe(45891.5);
+      expect(dateToSerial(new Date(2025, 7, 22, 18))).toBe(45891.75);
+      expect(serialToDate(45891.75)).toEqual(new Date(2025, 7, 22, 18));
+      expect(serialToParts(45891 + 1 / 86400 + 0.5)).toMatchObject({
+        hours: 12,
+        minutes: 0,
+        seconds: 1,
+        milliseconds: 0,
+      });
+    });
+
+    it('should round a fraction just below midnight up to the next day', () => {
+      expect(serialToDate(45891.9999999999)).toEqual(new Date(2025, 7, 23));
+    });
+
+    it('should round-trip every day of a leap year', () => {
+      for (let day = 0; day < 366; day++) {
+        const date = new Date(2024, 0, 1 + day);
+        const back = serialToDate(dateToSerial(date));
+        if (back.getTime() !== date.getTime()) {
+          throw new Error(`${date.toDateString()} does not round-trip`);
+        }
+      }
+    });
+  });
+
+  describe('range checks', () => {
+    [
+      { run: () => serialToDate(-1), description: 'negative serial' },
+      { run: () => serialToDate(NaN), description: 'NaN serial' },
+      {
+        run: () => serialToDate(MAX_SERIAL['1900'] + 1),
+        description: 'serial after 9999-12-31',
+      },
+      {
+        run: () => dateToSerial(new Date(1899, 11, 30)),
+        description: 'date before the 1900 system',
+      },
+      {
+        run: () => dateToSerial(new Date(1903, 11, 31), '1904'),
+        description: 'date before the 1904 system',
+      },
+      {
+        run: () => dateToSerial(new Date(10000, 0, 1)),
+        description: 'date after 9999-12-31',
+      },
+      {
+        run: () => dateToSerial(new Date(NaN)),
+        description: 'invalid date',
+      },
+    ].forEach(({ run, description }) => {
+      it(`should throw RangeError for ${description}`, () => {
+        expect(run).toThrow(RangeError);
+      });
+    });
+  });
+
+  describe('validateTodaySerial', () => {
+    const today = new Date(2025, 7, 22, 23, 59);
+
+    it('should accept today as a whole or fractional serial', () => {
+      ['45891', ' 45891 ', '45891.99'].forEach(value => {
+        expect(validateTodaySerial(value, today)).toMatchObject({
+          isValid: true,
+          expectedDate: '45891',
+          message: 'Serial matches current date',
+        });
+      });
+      expect(validateTodaySerial('44429', today, '1904').isValid).toBe(true);
+    });
+
+    it('should report a different serial', () => {
+      expect(validateTodaySerial('45890', today)).toEqual({
+        isValid: false,
+        expectedDate: '45891',
+        actualDate: '45890',
+        message:
+          'Serial mismatch: expected 45891, got 45890 in the 1900 date system',
+      });
+    });
+
+    it('should report values that are not numbers', () => {
+      ['8/22/2025', '', '#VALUE!'].forEach(value => {
+        expect(validateTodaySerial(value, today)).toMatchObject({
+          isValid: false,
+          message: `Unable to parse serial: "${value}" is not a number`,
+        });
+      });
+    });
+
+    it('should default to the current date', () => {
+      const serial = Math.floor(dateToSerial(new Date()));
+
+      expect(validateTodaySerial(String(serial)).isValid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,365 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AllocatorState,
+  IdAllocator,
+  InMemoryAllocatorStore,
+  JsonFileAllocatorStore,
+} from '../src/id-allocator';
+import { createIncrementer, IncrementError } from '../../core';
+
+const invoices = createIncrementer({
+  minLetters: 3,
+  maxLetters: 3,
+  minDigits: 6,
+  maxDigits: 6,
+});
+
+describe('IdAllocator', () => {
+  it('should start a new series at 1 with the format minimum width', async () => {
+    const allocator = new IdAllocator({ incrementer: invoices });
+
+    expect(await allocator.allocate('INV')).toBe('INV000001');
+    expect(await allocator.allocate('INV')).toBe('INV000002');
+    expect(await allocator.highWaterMark('INV')).toBe('INV000002');
+  });
+
+  it('should keep a separate high-water mark per prefix', async () => {
+    const allocator = new IdAllocator();
+
+    await allocator.allocateBatch('FX', 3);
+
+    expect(await allocator.allocate('GL')).toBe('GL1');
+    expect(await allocator.allocate('FX')).toBe('FX4');
+    expect(await allocator.highWaterMark('ZZ')).toBeUndefined();
+  });
+
+  it('should find the high-water mark under the normalized prefix', async () => {
+    const allocator = new IdAllocator({
+      incrementer: createIncrementer({ case: 'upper' }),
+    });
+
+    await allocator.allocateBatch('fx', 2);
+
+    expect(await allocator.highWaterMark('fx')).toBe('FX2');
+    expect(await allocator.highWaterMark('FX')).toBe('FX2');
+  });
+
+  it('should honour custom start number and width', async () => {
+    const allocator = new IdAllocator({ start: 100, width: 4 });
+
+    expect(await allocator.allocateBatch('INV', 2)).toEqual([
+      'INV0100',
+      'INV0101',
+    ]);
+  });
+
+  it('should never hand out the same identifier to concurrent callers', async () => {
+    const allocator = new IdAllocator();
+
+    const ids = await Promise.all(
+      Array.from({ length: 50 }, (_, i) =>
+        i % 5 === 0
+          ? allocator.allocateBatch('W', 3)
+          : allocator.allocate('W').then(id => [id])
+      )
+    );
+    const flat = ids.flat();
+
+    expect(flat).toHaveLength(70);
+    expect(new Set(flat).size).toBe(70);
+    expect(await allocator.highWaterMark('W')).toBe('W70');
+  });
+
+  it('should refuse to reuse identifiers after a wrap-around', async () => {
+    const allocator = new IdAllocator({
+      incrementer: createIncrementer({ maxDigits: 1 }),
+    });
+
+    // A1..A9, then the wrap to A0 is still unused
+    expect(await allocator.allocateBatch('A', 10)).toEqual([
+      'A1',
+      'A2',
+      'A3',
+      'A4',
+      'A5',
+      'A6',
+      'A7',
+      'A8',
+      'A9',
+      'A0',
+    ]);
+    await expect(allocator.allocate('A')).rejects.toMatchObject({
+      code: 'ID_IN_USE',
+    });
+  });
+
+  it('should allocate batches atomically', async () => {
+    const store = new InMemoryAllocatorStore();
+    const allocator = new IdAllocator({
+      store,
+      incrementer: createIncrementer({ maxDigits: 1 }),
+    });
+
+    await allocator.allocateBatch('A', 5);
+    await expect(allocator.allocateBatch('A', 6)).rejects.toThrow(
+      IncrementError
+    );
+
+    expect(await store.load()).toEqual({ A: { first: 'A1', last: 'A5' } });
+    expect(await allocator.allocateBatch('A', 5)).toEqual([
+      'A6',
+      'A7',
+      'A8',
+      'A9',
+      'A0',
+    ]);
+  });
+
+  it('should surface the overflow strategy of its incrementer', async () => {
+    const allocator = new IdAllocator({
+      incrementer: createIncrementer({ maxDigits: 1, overflow: 'throw' }),
+    });
+
+    await allocator.allocateBatch('A', 9);
+
+    await expect(allocator.allocate('A')).rejects.toMatchObject({
+      code: 'OVERFLOW',
+    });
+  });
+
+  it('should stop a series where carry moves on to the next prefix', async () => {
+    const store = new InMemoryAllocatorStore();
+    const allocator = new IdAllocator({
+      store,
+      incrementer: createIncrementer({ overflow: 'carry' }),
+    });
+
+    await allocator.seed('A9998');
+
+    await expect(allocator.allocateBatch('A', 3)).rejects.toMatchObject({
+      code: 'OVERFLOW',
+      message:
+        'Identifier "B0000" belongs to series "B"; series "A" is exhausted',
+    });
+    expect(await store.load()).toEqual({
+      A: { first: 'A0001', last: 'A9998' },
+    });
+    expect(await allocator.allocate('A')).toBe('A9999');
+    await expect(allocator.allocate('A')).rejects.toMatchObject({
+      code: 'OVERFLOW',
+    });
+    expect(await allocator.allocateBatch('B', 2)).toEqual(['B1', 'B2']);
+  });
+
+  it('should keep working after a failed operation', async () => {
+    const allocator = new IdAllocator();
+
+    await expect(allocator.allocate('A-')).rejects.toMatchObject({
+      code: 'INVALID_CHAR',
+    });
+    expect(await allocator.allocate('A')).toBe('A1');
+  });
+
+  describe('seed', () => {
+    it('should continue after an identifier issued elsewhere', async () => {
+      const allocator = new IdAllocator();
+
+      await allocator.seed('INV0041');
+
+      expect(await allocator.allocate('INV')).toBe('INV0042');
+    });
+
+    it('should never lower the high-water mark', async () => {
+      const allocator = new IdAllocator();
+
+      await allocator.allocateBatch('INV', 10);
+      await allocator.seed('INV5');
+      await allocator.seed('XYZ-1').catch(() => undefined);
+
+      expect(await allocator.allocate('INV')).toBe('INV11');
+    });
+
+    it('should raise the high-water mark when ahead', async () => {
+      const allocator = new IdAllocator();
+
+      await allocator.allocate('INV');
+      await allocator.seed('INV0100');
+
+      expect(await allocator.allocate('INV')).toBe('INV0101');
+    });
+
+    it('should treat identifiers before the seed as in use after wrapping', async () => {
+      const allocator = new IdAllocator({
+        incrementer: createIncrementer({ maxDigits: 1 }),
+      });
+
+      await allocator.seed('A8');
+
+      expect(await allocator.allocateBatch('A', 2)).toEqual(['A9', 'A0']);
+      await expect(allocator.allocate('A')).rejects.toMatchObject({
+        code: 'ID_IN_USE',
+      });
+    });
+
+    it('should start the series at the seed when it is below the start number', async () => {
+      const store = new InMemoryAllocatorStore();
+      const allocator = new IdAllocator({ store });
+
+      await allocator.seed('A0');
+
+      expect(await store.load()).toEqual({ A: { first: 'A0', last: 'A0' } });
+    });
+
+    it('should reject invalid identifiers', async () => {
+      await expect(new IdAllocator().seed('ABCDE1')).rejects.toMatchObject({
+        code: 'TOO_MANY_LETTERS',
+      });
+    });
+  });
+
+  describe('options', () => {
+    it('should reject allocation counts that are not positive integers', async () => {
+      const allocator = new IdAllocator();
+
+      await expect(allocator.allocateBatch('A', 0)).rejects.toThrow(RangeError);
+      await expect(allocator.allocateBatch('A', 1.5)).rejects.toThrow(
+        'Count must be a positive safe integer, got 1.5'
+      );
+    });
+
+    it('should reject invalid start numbers and widths', () => {
+      expect(() => new IdAllocator({ start: -1 })).toThrow(
+        'Start must be a non-negative safe integer, got -1'
+      );
+      expect(() => new IdAllocator({ width: 0 })).toThrow(
+        'Width must be a positive integer, got 0'
+      );
+    });
+  });
+});
+
+describe('InMemoryAllocatorStore', () => {
+  it('should not share state objects with callers', async () => {
+    const initial: AllocatorState = { A: { first: 'A1', last: 'A3' } };
+    const store = new InMemoryAllocatorStore(initial);
+
+    const loaded = await store.load();
+    loaded['A'] = { first: 'A1', last: 'A9' };
+    initial['A'] = { first: 'A1', last: 'A8' };
+
+    expect(await store.load()).toEqual({ A: { first: 'A1', last: 'A3' } });
+  });
+});
+
+describe('JsonFileAllocatorStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'id-allocator-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should treat a missing file as empty state', async () => {
+    const store = new JsonFileAllocatorStore(path.join(directory, 'none.json'));
+
+    expect(await store.load()).toEqual({});
+  });
+
+  it('should persist high-water marks across allocator instances', async () => {
+    const filePath = path.join(directory, 'nested', 'state.json');
+
+    const store = new JsonFileAllocatorStore(filePath);
+    await new IdAllocator({ store }).allocateBatch('INV', 3);
+    await store.release();
+    const reopened = new JsonFileAllocatorStore(filePath);
+
+    expect(await new IdAllocator({ store: reopened }).allocate('INV')).toBe(
+      'INV4'
+    );
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({
+      INV: { first: 'INV1', last: 'INV4' },
+    });
+    await reopened.release();
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(['state.json']);
+  });
+
+  it('should not let concurrent saves share a temporary file', async () => {
+    const filePath = path.join(directory, 'state.json');
+    const stores = ['A', 'B', 'C'].map(
+      () => new JsonFileAllocatorStore(filePath)
+    );
+
+    await Promise.all(
+      stores.map((store, i) => new IdAllocator({ store }).allocate(`P${i}`))
+    );
+    await Promise.all(stores.map(store => store.release()));
+
+    expect(await fs.readdir(directory)).toEqual(['state.json']);
+  });
+
+  it('should refuse saves while another running process owns the file', async () => {
+    const filePath = path.join(directory, 'state.json');
+    // The parent of the test process stands in for a second allocator process
+    await fs.writeFile(`${filePath}.lock`, String(process.ppid));
+    const allocator = new IdAllocator({
+      store: new JsonFileAllocatorStore(filePath),
+    });
+
+    await expect(allocator.allocate('INV')).rejects.toThrow(
+      `Allocator state ${filePath} is in use by process ${process.ppid}`
+    );
+    await expect(fs.readFile(filePath, 'utf-8')).rejects.toMatchObject({
+      code: 'ENOENT',
+    });
+  });
+
+  it('should take over a lock left by a process that has exited', async () => {
+    const filePath = path.join(directory, 'state.json');
+    await fs.writeFile(`${filePath}.lock`, '0');
+    const store = new JsonFileAllocatorStore(filePath);
+
+    expect(await new IdAllocator({ store }).allocate('INV')).toBe('INV1');
+    expect(await fs.readFile(`${filePath}.lock`, 'utf-8')).toBe(
+      String(process.pid)
+    );
+    await store.release();
+    await store.release();
+    expect(await fs.readdir(directory)).toEqual(['state.json']);
+  });
+
+  it('should reject files that are not valid JSON', async () => {
+    const filePath = path.join(directory, 'broken.json');
+    await fs.writeFile(filePath, '{ not json');
+
+    await expect(new JsonFileAllocatorStore(filePath).load()).rejects.toThrow(
+      `Failed to parse allocator state ${filePath}`
+    );
+  });
+
+  [
+    ['an array', '[]'],
+    ['null', 'null'],
+    ['a malformed series', '{ "A": { "first": "A1" } }'],
+    ['a non-object series', '{ "A": "A1" }'],
+  ].forEach(([description, content]) => {
+    it(`should reject state that is ${description}`, async () => {
+      const filePath = path.join(directory, 'invalid.json');
+      await fs.writeFile(filePath, content as string);
+
+      await expect(new JsonFileAllocatorStore(filePath).load()).rejects.toThrow(
+        `Invalid allocator state in ${filePath}`
+      );
+    });
+  });
+
+  it('should propagate other read errors', async () => {
+    const store = new JsonFileAllocatorStore(directory);
+
+    await expect(store.load()).rejects.toMatchObject({ code: 'EISDIR' });
+  });
+});
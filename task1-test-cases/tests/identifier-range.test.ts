@@ -0,0 +1,203 @@
+import {
+  createIncrementer,
+  IncrementError,
+  IncrementErrorCode,
+  range,
+  take,
+} from '../../core';
+
+/**
+ * Test data for data-driven testing of identifier blocks
+ */
+const rangeTestCases = [
+  {
+    start: 'INV0001',
+    end: 'INV0005',
+    expected: ['INV0001', 'INV0002', 'INV0003', 'INV0004', 'INV0005'],
+    description: 'padded block',
+  },
+  {
+    start: 'A9',
+    end: 'A12',
+    expected: ['A9', 'A10', 'A11', 'A12'],
+    description: 'digit expansion inside the block',
+  },
+  {
+    start: 'fx001',
+    end: 'fx003',
+    expected: ['fx001', 'fx002', 'fx003'],
+    description: 'case preservation',
+  },
+  {
+    start: 'FX010',
+    end: 'FX010',
+    expected: ['FX010'],
+    description: 'single identifier',
+  },
+  {
+    start: 'A1',
+    end: 'A0001',
+    expected: ['A1'],
+    description: 'ends that differ only in zero padding',
+  },
+  {
+    start: 'A0001',
+    end: 'A3',
+    expected: ['A0001', 'A0002', 'A0003'],
+    description: 'width of the start',
+  },
+];
+
+const invalidRangeTestCases: Array<{
+  start: string;
+  end: string;
+  code: IncrementErrorCode;
+  description: string;
+}> = [
+  {
+    start: 'INV0001',
+    end: 'INX0500',
+    code: 'PREFIX_MISMATCH',
+    description: 'different prefixes',
+  },
+  {
+    start: 'INV0001',
+    end: 'inv0500',
+    code: 'PREFIX_MISMATCH',
+    description: 'prefixes differing in case',
+  },
+  {
+    start: 'INV-1',
+    end: 'INV0500',
+    code: 'INVALID_CHAR',
+    description: 'invalid start',
+  },
+  {
+    start: 'INV0001',
+    end: 'INV12345',
+    code: 'TOO_MANY_DIGITS',
+    description: 'invalid end',
+  },
+];
+
+const takeTestCases = [
+  {
+    start: 'INV0001',
+    count: 3,
+    expected: ['INV0001', 'INV0002', 'INV0003'],
+    description: 'padded block',
+  },
+  {
+    start: 'A9998',
+    count: 3,
+    expected: ['A9998', 'A9999', 'A0000'],
+    description: 'wraps under the default strategy',
+  },
+  { start: 'A1', count: 0, expected: [], description: 'empty block' },
+];
+
+describe('range', () => {
+  rangeTestCases.forEach(({ start, end, expected, description }) => {
+    it(`should yield ${start}..${end} (${description})`, () => {
+      const block = range(start, end);
+
+      expect(block.size).toBe(expected.length);
+      expect(block.first).toBe(expected[0]);
+      expect(block.last).toBe(expected[expected.length - 1]);
+      expect([...block]).toEqual(expected);
+    });
+  });
+
+  invalidRangeTestCases.forEach(({ start, end, code, description }) => {
+    it(`should reject ${start}..${end} with ${code} (${description})`, () => {
+      expect(() => range(start, end)).toThrow(IncrementError);
+      expect(() => range(start, end)).toThrow(
+        expect.objectContaining({ code })
+      );
+    });
+  });
+
+  it('should reject a reversed range', () => {
+    expect(() => range('FX010', 'FX001')).toThrow(RangeError);
+    expect(() => range('FX010', 'FX001')).toThrow(
+      'Range end "FX001" comes before start "FX010"'
+    );
+  });
+
+  it('should report the size of a large block without iterating', () => {
+    const add = jest.fn(createIncrementer().add);
+    const block = range('INV0001', 'INV9999', {
+      ...createIncrementer(),
+      add,
+    });
+
+    expect(block.size).toBe(9999);
+    expect(block.last).toBe('INV9999');
+    expect(add).toHaveBeenCalledTimes(1);
+  });
+
+  it('should generate identifiers lazily and restart on each iteration', () => {
+    const block = range('INV0001', 'INV0500');
+    const iterator = block[Symbol.iterator]();
+
+    expect(iterator.next().value).toBe('INV0001');
+    expect(iterator.next().value).toBe('INV0002');
+    expect([...block]).toHaveLength(500);
+    expect([...block][499]).toBe('INV0500');
+  });
+
+  it('should follow a custom incrementer format', () => {
+    const invoices = createIncrementer({
+      minLetters: 3,
+      maxLetters: 3,
+      minDigits: 6,
+      maxDigits: 6,
+    });
+
+    expect([...range('INV000099', 'INV000101', invoices)]).toEqual([
+      'INV000099',
+      'INV000100',
+      'INV000101',
+    ]);
+  });
+});
+
+describe('take', () => {
+  takeTestCases.forEach(({ start, count, expected, description }) => {
+    it(`should take ${count} from ${start} (${description})`, () => {
+      const block = take(start, count);
+
+      expect(block.size).toBe(count);
+      expect(block.first).toBe(expected[0]);
+      expect(block.last).toBe(expected[expected.length - 1]);
+      expect([...block]).toEqual(expected);
+    });
+  });
+
+  it('should carry into the letters under the carry strategy', () => {
+    const carrying = createIncrementer({ overflow: 'carry' });
+
+    expect([...take('A9999', 2, carrying)]).toEqual(['A9999', 'B0000']);
+  });
+
+  it('should fail up front when the block overflows under the throw strategy', () => {
+    const strict = createIncrementer({ overflow: 'throw' });
+
+    expect(() => take('A9998', 3, strict)).toThrow(
+      expect.objectContaining({ code: 'OVERFLOW' })
+    );
+    expect([...take('A9998', 2, strict)]).toEqual(['A9998', 'A9999']);
+  });
+
+  it('should validate the start of an empty block', () => {
+    expect(() => take('INVALID', 0)).toThrow(
+      expect.objectContaining({ code: 'NO_DIGITS' })
+    );
+  });
+
+  [-1, 1.5, NaN].forEach(count => {
+    it(`should reject a count of ${count}`, () => {
+      expect(() => take('A1', count)).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  compareIdentifiers,
+  createIncrementer,
+  sortIdentifiers,
+} from '../../core';
+
+/**
+ * Test data for data-driven testing of the comparator.
+ * `expected` is the sign of compareIdentifiers(a, b).
+ */
+const compareTestCases: Array<{
+  a: unknown;
+  b: unknown;
+  expected: -1 | 0 | 1;
+  description: string;
+}> = [
+  { a: 'A9', b: 'A10', expected: -1, description: 'numeric, not lexical' },
+  { a: 'A10', b: 'A9', expected: 1, description: 'numeric, reversed' },
+  { a: 'A100', b: 'B1', expected: -1, description: 'prefix before number' },
+  { a: 'AB1', b: 'B1', expected: -1, description: 'prefixes compare as text' },
+  { a: 'FX001', b: 'FX001', expected: 0, description: 'identical' },
+  { a: 'A1', b: 'A01', expected: -1, description: 'narrower width first' },
+  {
+    a: 'fx2',
+    b: 'FX10',
+    expected: -1,
+    description: 'prefixes compare case-insensitively',
+  },
+  {
+    a: 'FX1',
+    b: 'fx1',
+    expected: -1,
+    description: 'upper case first when otherwise equal',
+  },
+  { a: 'A1', b: 'A-1', expected: -1, description: 'valid before invalid' },
+  { a: 42, b: 'A1', expected: 1, description: 'non-string after valid' },
+  {
+    a: 'bad',
+    b: 'also bad',
+    expected: 1,
+    description: 'invalid entries by plain string order',
+  },
+  { a: '', b: '', expected: 0, description: 'equal invalid entries' },
+];
+
+describe('compareIdentifiers', () => {
+  compareTestCases.forEach(({ a, b, expected, description }) => {
+    it(`should order ${JSON.stringify(a)} vs ${JSON.stringify(b)} as ${expected} (${description})`, () => {
+      expect(Math.sign(compareIdentifiers(a, b))).toBe(expected);
+      expect(Math.sign(compareIdentifiers(b, a))).toBe(-expected || 0);
+    });
+  });
+
+  it('should work directly as an Array.prototype.sort comparator', () => {
+    expect(['A10', 'B1', 'A9'].sort(compareIdentifiers)).toEqual([
+      'A9',
+      'A10',
+      'B1',
+    ]);
+  });
+
+  it('should follow the grammar of a custom incrementer', () => {
+    const folded = createIncrementer({ trim: true, case: 'upper' });
+
+    expect(compareIdentifiers(' fx1', 'FX1', folded)).toBe(0);
+    expect(compareIdentifiers(' fx1', 'FX1')).toBe(1);
+  });
+});
+
+describe('sortIdentifiers', () => {
+  it('should sort naturally with invalid entries last', () => {
+    const list = ['INV10', 'bad id', 'INV9', 'inv9', 'A100', 'INV09', '123'];
+
+    expect(sortIdentifiers(list)).toEqual([
+      'A100',
+      'INV9',
+      'inv9',
+      'INV09',
+      'INV10',
+      '123',
+      'bad id',
+    ]);
+  });
+
+  it('should not modify the input list', () => {
+    const list = Object.freeze(['A10', 'A9']);
+
+    expect(sortIdentifiers(list)).toEqual(['A9', 'A10']);
+    expect(list).toEqual(['A10', 'A9']);
+  });
+
+  it('should parse each entry only once', () => {
+    const incrementer = createIncrementer();
+    const tryParse = jest.fn(incrementer.tryParse);
+    const list = ['A5', 'A3', 'A4', 'A1', 'A2'];
+
+    sortIdentifiers(list, { ...incrementer, tryParse });
+
+    expect(tryParse).toHaveBeenCalledTimes(list.length);
+  });
+
+  it('should agree with compareIdentifiers', () => {
+    const list = ['B2', 'a10', 'A9', 'A-1', 'b1', 'A09', 'ZZZZ9999'];
+
+    expect(sortIdentifiers(list)).toEqual([...list].sort(compareIdentifiers));
+  });
+});
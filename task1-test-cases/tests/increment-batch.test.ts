@@ -0,0 +1,230 @@
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  IncrementStream,
+  IncrementSummary,
+  incrementMany,
+  LineResult,
+} from '../src/increment-batch';
+import { createIncrementer } from '../../core';
+
+/**
+ * Pipe `chunks` through `stream` and collect everything it pushes
+ */
+async function runStream(
+  stream: IncrementStream,
+  chunks: Array<string | Buffer>
+): Promise<unknown[]> {
+  const output: unknown[] = [];
+  await pipeline(
+    Readable.from(chunks),
+    stream,
+    new Writable({
+      objectMode: true,
+      write(chunk: unknown, _encoding, callback) {
+        output.push(chunk);
+        callback();
+      },
+    })
+  );
+  return output;
+}
+
+describe('incrementMany', () => {
+  it('should return one typed result per input with its position', () => {
+    const { results } = incrementMany(['FX001', 'A-1', 'A9999']);
+
+    expect(results).toEqual([
+      { ok: true, value: 'FX002', line: 1, input: 'FX001' },
+      {
+        ok: false,
+        code: 'INVALID_CHAR',
+        message: 'Invalid character "-" at position 1',
+        position: 1,
+        line: 2,
+        input: 'A-1',
+      },
+      { ok: true, value: 'A0000', line: 3, input: 'A9999' },
+    ]);
+  });
+
+  it('should summarize counts by error category', () => {
+    const { summary } = incrementMany([
+      'A1',
+      '',
+      'ABCDE1',
+      'A-1',
+      'B-2',
+      'A12345',
+      'B2',
+    ]);
+
+    expect(summary).toEqual<IncrementSummary>({
+      total: 7,
+      succeeded: 2,
+      failed: 5,
+      byCode: {
+        EMPTY: 1,
+        TOO_MANY_LETTERS: 1,
+        INVALID_CHAR: 2,
+        TOO_MANY_DIGITS: 1,
+      },
+    });
+  });
+
+  it('should accept any iterable, including generators', () => {
+    function* ids() {
+      for (let i = 1; i <= 1000; i++) {
+        yield `INV${String(i).padStart(4, '0')}`;
+      }
+    }
+
+    const { results, summary } = incrementMany(ids());
+
+    expect(summary).toEqual({
+      total: 1000,
+      succeeded: 1000,
+      failed: 0,
+      byCode: {},
+    });
+    expect(results[999]).toMatchObject({ ok: true, value: 'INV1001' });
+  });
+
+  it('should report non-string items instead of throwing', () => {
+    const { results } = incrementMany([42 as unknown as string]);
+
+    expect(results[0]).toMatchObject({ ok: false, code: 'NOT_A_STRING' });
+  });
+
+  it('should apply a custom incrementer', () => {
+    const strict = createIncrementer({ overflow: 'throw' });
+
+    expect(incrementMany(['A9999'], strict).summary.byCode).toEqual({
+      OVERFLOW: 1,
+    });
+  });
+
+  it('should return an empty summary for no input', () => {
+    expect(incrementMany([])).toEqual({
+      results: [],
+      summary: { total: 0, succeeded: 0, failed: 0, byCode: {} },
+    });
+  });
+});
+
+describe('IncrementStream', () => {
+  it('should emit one result per line, numbered like the source', async () => {
+    const output = (await runStream(new IncrementStream(), [
+      'A1\r\nA-1\n\nB9\n',
+    ])) as LineResult[];
+
+    expect(output.map(({ line, input, ok }) => ({ line, input, ok }))).toEqual([
+      { line: 1, input: 'A1', ok: true },
+      { line: 2, input: 'A-1', ok: false },
+      { line: 3, input: '', ok: false },
+      { line: 4, input: 'B9', ok: true },
+    ]);
+    expect(output[2]).toMatchObject({ code: 'EMPTY' });
+  });
+
+  it('should join lines split across chunks, including multi-byte characters', async () => {
+    const bytes = Buffer.from('FX0\nAé1\nZZ9');
+    const split = bytes.indexOf(0xa9); // second byte of "é"
+
+    const output = (await runStream(new IncrementStream(), [
+      bytes.subarray(0, 2),
+      bytes.subarray(2, split),
+      bytes.subarray(split),
+    ])) as LineResult[];
+
+    expect(output).toMatchObject([
+      { line: 1, ok: true, value: 'FX1' },
+      { line: 2, ok: false, code: 'INVALID_CHAR', input: 'Aé1', position: 1 },
+      { line: 3, ok: true, value: 'ZZ10' },
+    ]);
+  });
+
+  it('should provide the summary as a property and as an event', async () => {
+    const stream = new IncrementStream();
+    const summaries: IncrementSummary[] = [];
+    stream.on('summary', (summary: IncrementSummary) =>
+      summaries.push(summary)
+    );
+
+    await runStream(stream, ['A1\nA-1\nB-1\nABCDE1\n']);
+
+    const expected = {
+      total: 4,
+      succeeded: 1,
+      failed: 3,
+      byCode: { INVALID_CHAR: 2, TOO_MANY_LETTERS: 1 },
+    };
+    expect(stream.summary).toEqual(expected);
+    expect(summaries).toEqual([expected]);
+  });
+
+  it('should write newline-delimited JSON in ndjson mode', async () => {
+    const output = await runStream(
+      new IncrementStream({
+        output: 'ndjson',
+        incrementer: createIncrementer({ overflow: 'grow' }),
+      }),
+      ['A9999\n']
+    );
+
+    expect(output.join('')).toBe(
+      '{"ok":true,"value":"A10000","line":1,"input":"A9999"}\n'
+    );
+  });
+
+  it('should not read ahead of a slow consumer', async () => {
+    const chunkCount = 400;
+    const linesPerChunk = 50;
+    const chunk = 'A1\n'.repeat(linesPerChunk);
+    let chunksRead = 0;
+    let chunksReadAtFirstResults = 0;
+    let received = 0;
+    let maxBuffered = 0;
+    const stream = new IncrementStream();
+
+    async function* source(): AsyncGenerator<string> {
+      for (let i = 0; i < chunkCount; i++) {
+        chunksRead++;
+        yield chunk;
+      }
+    }
+
+    await pipeline(
+      source(),
+      stream,
+      new Writable({
+        objectMode: true,
+        highWaterMark: 1,
+        write(_chunk: unknown, _encoding, callback) {
+          received++;
+          maxBuffered = Math.max(maxBuffered, stream.readableLength);
+          if (received === 100) {
+            chunksReadAtFirstResults = chunksRead;
+          }
+          setImmediate(callback);
+        },
+      })
+    );
+
+    expect(received).toBe(chunkCount * linesPerChunk);
+    // Full buffers on both sides hold back the source; a chunk's last
+    // result may go one over
+    expect(maxBuffered).toBeLessThanOrEqual(stream.readableHighWaterMark + 1);
+    expect(chunksReadAtFirstResults).toBeLessThanOrEqual(
+      Math.ceil(stream.writableHighWaterMark / chunk.length) + 2
+    );
+    expect(chunksReadAtFirstResults).toBeLessThan(chunkCount);
+  });
+
+  it('should emit nothing for empty input', async () => {
+    const stream = new IncrementStream();
+
+    expect(await runStream(stream, [])).toEqual([]);
+    expect(stream.summary.total).toBe(0);
+  });
+});
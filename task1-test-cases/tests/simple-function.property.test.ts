@@ -0,0 +1,194 @@
+import {
+  decrement,
+  DEFAULT_INCREMENTER_SPEC,
+  IncrementError,
+  parseIdentifier,
+  stringIncrement,
+  stringIncrementOrThrow,
+  tryParseIdentifier,
+  tryStringIncrement,
+} from '../src/simple-function';
+import {
+  checkAll,
+  checkProperty,
+  enumerateIdentifiers,
+  enumerateStrings,
+  identifiers,
+  nearMisses,
+  Property,
+  Random,
+  shrinkString,
+} from './support/identifier-generator';
+
+const { maxDigits } = DEFAULT_INCREMENTER_SPEC;
+
+/**
+ * Invariants of stringIncrement for identifiers inside the grammar
+ */
+const validInputProperty: Property<string> = input => {
+  const { prefix, number, width } = parseIdentifier(input);
+  const expanded = /^9+$/.test(input.slice(prefix.length)) && width < maxDigits;
+
+  const result = stringIncrement(input);
+  const next = parseIdentifier(result);
+
+  // Increment-then-parse round trip: same prefix (including case), number + 1
+  expect(next.prefix).toBe(prefix);
+  expect(next.number).toBe((number + 1) % 10 ** maxDigits);
+  // Length is preserved unless the digits expand (A9 -> A10)
+  expect(result).toHaveLength(input.length + (expanded ? 1 : 0));
+  expect(tryStringIncrement(input)).toEqual({ ok: true, value: result });
+  if (!expanded) {
+    expect(decrement(result)).toBe(input);
+  }
+};
+
+/**
+ * Invariants of stringIncrement for any string at all
+ */
+const anyInputProperty: Property<string> = input => {
+  const result = tryStringIncrement(input);
+
+  expect(stringIncrement(input) === 'Error').toBe(!result.ok);
+  expect(tryParseIdentifier(input).ok).toBe(result.ok);
+  if (result.ok) {
+    expect(stringIncrementOrThrow(input)).toBe(result.value);
+    return;
+  }
+  expect(() => stringIncrementOrThrow(input)).toThrow(IncrementError);
+  if (result.position !== undefined) {
+    // Missing parts are reported at the end of the input
+    expect(result.position).toBeGreaterThanOrEqual(0);
+    expect(result.position).toBeLessThanOrEqual(input.length);
+  }
+};
+
+describe('stringIncrement properties', () => {
+  describe('sampled', () => {
+    it('should satisfy the increment invariants for grammar strings', () => {
+      expect(
+        checkProperty(identifiers(), validInputProperty, { runs: 2000 })
+      ).toBeUndefined();
+    });
+
+    it('should never throw and agree across APIs for near-misses', () => {
+      expect(
+        checkProperty(nearMisses(), anyInputProperty, { runs: 2000 })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('enumerated', () => {
+    it('should satisfy the increment invariants for every identifier over a reduced alphabet', () => {
+      expect(
+        checkAll(
+          enumerateIdentifiers(),
+          validInputProperty,
+          identifiers().shrink
+        )
+      ).toBeUndefined();
+    });
+
+    it('should never throw and agree across APIs for every short string', () => {
+      expect(
+        checkAll(enumerateStrings('Az09-é ', 4), anyInputProperty, shrinkString)
+      ).toBeUndefined();
+    });
+  });
+});
+
+describe('identifier generator', () => {
+  it('should replay the same values for the same seed', () => {
+    const sample = (seed: number) => {
+      const random = new Random(seed);
+      return Array.from({ length: 20 }, () => nearMisses().generate(random));
+    };
+
+    expect(sample(1234)).toEqual(sample(1234));
+    expect(sample(1234)).not.toEqual(sample(4321));
+  });
+
+  it('should only generate strings inside the grammar', () => {
+    expect(
+      checkProperty(identifiers(), input => tryParseIdentifier(input).ok, {
+        seed: 7,
+      })
+    ).toBeUndefined();
+  });
+
+  it('should only generate near-misses the grammar rejects', () => {
+    expect(
+      checkProperty(nearMisses(), input => !tryParseIdentifier(input).ok, {
+        seed: 7,
+      })
+    ).toBeUndefined();
+  });
+
+  it('should enumerate shortest strings first', () => {
+    expect([...enumerateStrings('ab', 2)]).toEqual([
+      '',
+      'a',
+      'b',
+      'aa',
+      'ab',
+      'ba',
+      'bb',
+    ]);
+    expect([...enumerateIdentifiers('A', '0')]).toHaveLength(16);
+  });
+
+  [
+    {
+      description: 'a digit 9',
+      property: (input: string) => !input.includes('9'),
+      counterexample: 'A9',
+    },
+    {
+      description: 'three letters',
+      property: (input: string) => parseIdentifier(input).prefix.length < 3,
+      counterexample: 'AAA0',
+    },
+    {
+      description: 'two non-zero digits',
+      property: (input: string) => !/[1-9].*[1-9]/.test(input),
+      counterexample: 'A11',
+    },
+  ].forEach(({ description, property, counterexample }) => {
+    it(`should shrink an identifier with ${description} to ${counterexample}`, () => {
+      const failure = checkProperty(identifiers(), property, { seed: 99 });
+
+      expect(failure).toMatchObject({
+        seed: 99,
+        counterexample,
+        message: 'property returned false',
+      });
+      expect(failure?.shrinks).toBeGreaterThan(0);
+    });
+  });
+
+  it('should shrink near-misses to a minimal string', () => {
+    const failure = checkProperty(nearMisses(), input => !input.includes('-'), {
+      seed: 5,
+      runs: 5000,
+    });
+
+    expect(failure?.counterexample).toBe('-');
+  });
+
+  it('should report the assertion message of the minimal counterexample', () => {
+    const failure = checkAll(
+      ['ZZ99', 'A1'],
+      input => expect(input).toHaveLength(2),
+      shrinkString
+    );
+
+    expect(failure).toMatchObject({ original: 'ZZ99', counterexample: 'A00' });
+    expect(failure?.message).toContain('toHaveLength');
+  });
+
+  it('should stop shrinking after maxShrinks steps', () => {
+    const failure = checkAll(['ABCD1234'], () => false, shrinkString, 3);
+
+    expect(failure?.shrinks).toBe(3);
+  });
+});
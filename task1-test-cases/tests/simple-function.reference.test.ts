@@ -0,0 +1,120 @@
+import { stringIncrement } from '../src/simple-function';
+import { enumerateStrings, LOWER, UPPER } from './support/identifier-generator';
+import {
+  digitSpace,
+  referenceIncrement,
+  verifyAgainstReference,
+  withDigitSpace,
+} from './support/reference-model';
+
+/**
+ * Prefixes covering every letter once, every length, and every case mix.
+ * The digit space does not depend on which letters are used, so these stand
+ * in for all 52^1..4 prefixes.
+ */
+const representativePrefixes = [
+  ...UPPER,
+  ...LOWER,
+  'FX',
+  'zA',
+  'ABC',
+  'xYz',
+  'ABCD',
+  'ZZZZ',
+  'abcd',
+  'FxYz',
+];
+
+describe('stringIncrement reference model', () => {
+  it('should match the reference over the full digit space for representative prefixes', () => {
+    const report = verifyAgainstReference(
+      withDigitSpace(representativePrefixes, 4),
+      stringIncrement
+    );
+
+    expect(report.divergences).toEqual([]);
+    expect(report.checked).toBe(representativePrefixes.length * 11110);
+  });
+
+  it('should match the reference when the digit suffix is too long', () => {
+    const report = verifyAgainstReference(
+      withDigitSpace(['A', 'ABCD'], 5),
+      stringIncrement
+    );
+
+    expect(report.divergences).toEqual([]);
+  });
+
+  it('should match the reference for every short string over a mixed alphabet', () => {
+    const report = verifyAgainstReference(
+      enumerateStrings('aZ09 -é', 5),
+      stringIncrement
+    );
+
+    expect(report.divergences).toEqual([]);
+  });
+
+  it('should match the reference for prefixes outside the grammar', () => {
+    const report = verifyAgainstReference(
+      ['', 'ABCDE', '1', '@', '[', '`', '{', '/', ':'].flatMap(prefix =>
+        ['1', '9', '9999'].map(digits => prefix + digits)
+      ),
+      stringIncrement
+    );
+
+    expect(report.divergences).toEqual([]);
+  });
+});
+
+describe('reference model harness', () => {
+  it('should enumerate the whole digit space', () => {
+    const space = [...digitSpace(2)];
+
+    expect(space).toHaveLength(110);
+    expect(space.slice(0, 3)).toEqual(['0', '1', '2']);
+    expect(space.slice(10, 13)).toEqual(['00', '01', '02']);
+    expect(space[space.length - 1]).toBe('99');
+  });
+
+  [
+    ['A1', 'A2'],
+    ['A009', 'A010'],
+    ['A99', 'A100'],
+    ['A9999', 'A0000'],
+    ['ABCDE1', 'Error'],
+    ['1A', 'Error'],
+    ['A1B', 'Error'],
+  ].forEach(([input, expected]) => {
+    it(`should make the reference increment "${input}" to "${expected}"`, () => {
+      expect(referenceIncrement(input)).toBe(expected);
+    });
+  });
+
+  it('should reject non-strings in the reference', () => {
+    expect(referenceIncrement(42)).toBe('Error');
+  });
+
+  it('should report the exact inputs where an implementation diverges', () => {
+    // Drops leading zeros: the classic parseInt mistake
+    const broken = (input: string) => {
+      const result = referenceIncrement(input);
+      return result === 'Error'
+        ? result
+        : result.replace(/^([A-Za-z]+)0+(?=\d)/, '$1');
+    };
+
+    const report = verifyAgainstReference(
+      withDigitSpace(['A'], 2),
+      broken,
+      referenceIncrement,
+      3
+    );
+
+    expect(report.divergences).toEqual([
+      { input: 'A00', expected: 'A01', actual: 'A1' },
+      { input: 'A01', expected: 'A02', actual: 'A2' },
+      { input: 'A02', expected: 'A03', actual: 'A3' },
+    ]);
+    expect(report.checked).toBe(13);
+  });
+});
@@ -1,4 +1,27 @@
-import { stringIncrement } from '../src/simple-function';
+import {
+  add,
+  CaseNormalization,
+  createIncrementer,
+  decrement,
+  distance,
+  FormatParts,
+  formatIdentifier,
+  IdentifierParts,
+  DEFAULT_INCREMENTER_SPEC,
+  IncrementError,
+  IncrementErrorCode,
+  IncrementerSpec,
+  OverflowStrategy,
+  parseIdentifier,
+  stringIncrement,
+  stringIncrementOrThrow,
+  tryAdd,
+  tryDecrement,
+  tryDistance,
+  tryFormatIdentifier,
+  tryParseIdentifier,
+  tryStringIncrement,
+} from '../src/simple-function';
 
 /**
  * Test data for data-driven testing
@@ -96,38 +119,639 @@ const validTestCases = [
   },
 ];
 
-const invalidTestCases = [
+const invalidTestCases: Array<{
+  input: unknown;
+  description: string;
+  code: IncrementErrorCode;
+  position?: number;
+}> = [
   // Format violations
-  { input: '123', description: 'no letters - digits only' },
-  { input: 'ABC', description: 'no digits - letters only' },
+  {
+    input: '123',
+    description: 'no letters - digits only',
+    code: 'NO_LETTERS',
+    position: 0,
+  },
+  {
+    input: 'ABC',
+    description: 'no digits - letters only',
+    code: 'NO_DIGITS',
+    position: 3,
+  },
 
   // Boundary violations
-  { input: 'ABCDE1', description: 'too many letters (5 > 4)' },
-  { input: 'A12345', description: 'too many digits (5 > 4)' },
+  {
+    input: 'ABCDE1',
+    description: 'too many letters (5 > 4)',
+    code: 'TOO_MANY_LETTERS',
+    position: 4,
+  },
+  {
+    input: 'A12345',
+    description: 'too many digits (5 > 4)',
+    code: 'TOO_MANY_DIGITS',
+    position: 5,
+  },
 
   // Mixed format
   {
     input: 'A1B2',
     description: 'mixed format - letters and digits interleaved',
+    code: 'MIXED_FORMAT',
+    position: 2,
+  },
+  {
+    input: '123ABC',
+    description: 'mixed format - digits before letters',
+    code: 'NO_LETTERS',
+    position: 0,
   },
-  { input: '123ABC', description: 'mixed format - digits before letters' },
 
   // Special characters
-  { input: 'A-1', description: 'special characters not allowed' },
-  { input: 'A 1', description: 'spaces not allowed' },
+  {
+    input: 'A-1',
+    description: 'special characters not allowed',
+    code: 'INVALID_CHAR',
+    position: 1,
+  },
+  {
+    input: 'A 1',
+    description: 'spaces not allowed',
+    code: 'INVALID_CHAR',
+    position: 1,
+  },
 
   // Edge cases
-  { input: '', description: 'empty string' },
-  { input: '   ', description: 'whitespace only' },
-  { input: '  A1', description: 'leading whitespace' },
-  { input: 'A1  ', description: 'trailing whitespace' },
+  { input: '', description: 'empty string', code: 'EMPTY' },
+  {
+    input: '   ',
+    description: 'whitespace only',
+    code: 'INVALID_CHAR',
+    position: 0,
+  },
+  {
+    input: '  A1',
+    description: 'leading whitespace',
+    code: 'INVALID_CHAR',
+    position: 0,
+  },
+  {
+    input: 'A1  ',
+    description: 'trailing whitespace',
+    code: 'INVALID_CHAR',
+    position: 2,
+  },
 
   // Non-string inputs
-  { input: null, description: 'null input' },
-  { input: undefined, description: 'undefined input' },
-  { input: 123, description: 'number input' },
-  { input: true, description: 'boolean input' },
-  { input: {}, description: 'object input' },
+  { input: null, description: 'null input', code: 'NOT_A_STRING' },
+  { input: undefined, description: 'undefined input', code: 'NOT_A_STRING' },
+  { input: 123, description: 'number input', code: 'NOT_A_STRING' },
+  { input: true, description: 'boolean input', code: 'NOT_A_STRING' },
+  { input: {}, description: 'object input', code: 'NOT_A_STRING' },
+];
+
+/**
+ * Overflow behaviour per strategy. `expected: null` means the increment must
+ * fail with an OVERFLOW code.
+ */
+const overflowTestCases: Array<{
+  overflow: OverflowStrategy;
+  spec?: Partial<IncrementerSpec>;
+  cases: Array<{ input: string; expected: string | null; description: string }>;
+}> = [
+  {
+    overflow: 'wrap',
+    cases: [
+      { input: 'A9999', expected: 'A0000', description: 'resets digits' },
+      { input: 'ZZ9999', expected: 'ZZ0000', description: 'keeps the prefix' },
+      { input: 'A999', expected: 'A1000', description: 'expands below limit' },
+    ],
+  },
+  {
+    overflow: 'carry',
+    cases: [
+      { input: 'A9999', expected: 'B0000', description: 'carries into letter' },
+      { input: 'AZ9999', expected: 'BA0000', description: 'ripples carry' },
+      {
+        input: 'ZZ9999',
+        expected: 'AAA0000',
+        description: 'adds a letter when all letters roll over',
+      },
+      { input: 'fz9999', expected: 'ga0000', description: 'preserves case' },
+      {
+        input: 'zZ9999',
+        expected: 'aaA0000',
+        description: 'new letter takes the case of the leading letter',
+      },
+      { input: 'A999', expected: 'A1000', description: 'expands below limit' },
+      {
+        input: 'ZZZZ9999',
+        expected: null,
+        description: 'fails once letters exceed maxLetters',
+      },
+    ],
+  },
+  {
+    overflow: 'carry',
+    spec: { maxLetters: 2 },
+    cases: [
+      {
+        input: 'ZZ9999',
+        expected: null,
+        description: 'respects a custom letter limit',
+      },
+    ],
+  },
+  {
+    overflow: 'grow',
+    cases: [
+      {
+        input: 'A9999',
+        expected: 'A10000',
+        description: 'grows past 4 digits',
+      },
+      {
+        input: 'A10000',
+        expected: 'A10001',
+        description: 'accepts grown inputs',
+      },
+      {
+        input: 'A099999',
+        expected: 'A100000',
+        description: 'keeps leading zeros of grown inputs',
+      },
+      {
+        input: 'A999999999999999',
+        expected: null,
+        description: 'fails past the supported digit maximum',
+      },
+    ],
+  },
+  {
+    overflow: 'grow',
+    spec: { maxGrowDigits: 5 },
+    cases: [
+      {
+        input: 'A99999',
+        expected: null,
+        description: 'fails past maxGrowDigits',
+      },
+    ],
+  },
+  {
+    overflow: 'throw',
+    cases: [
+      { input: 'A9999', expected: null, description: 'rejects overflow' },
+      { input: 'A9998', expected: 'A9999', description: 'allows last value' },
+    ],
+  },
+];
+
+/**
+ * Offsets (decrement is n = -1) per strategy. `expected` is either the
+ * resulting identifier or the failure code.
+ */
+const offsetTestCases: Array<{
+  overflow: OverflowStrategy;
+  spec?: Partial<IncrementerSpec>;
+  cases: Array<{
+    input: string;
+    n: number;
+    expected: string | { code: IncrementErrorCode };
+    description: string;
+  }>;
+}> = [
+  {
+    overflow: 'wrap',
+    cases: [
+      { input: 'FX002', n: -1, expected: 'FX001', description: 'decrement' },
+      {
+        input: 'A010',
+        n: -1,
+        expected: 'A009',
+        description: 'decrement keeps leading zeros',
+      },
+      {
+        input: 'A10',
+        n: -1,
+        expected: 'A09',
+        description: 'decrement keeps digit length',
+      },
+      { input: 'fx002', n: -1, expected: 'fx001', description: 'keeps case' },
+      { input: 'FX001', n: 250, expected: 'FX251', description: 'jump by N' },
+      { input: 'FX251', n: -250, expected: 'FX001', description: 'jump back' },
+      { input: 'FX001', n: 0, expected: 'FX001', description: 'zero step' },
+      { input: 'A9', n: 5, expected: 'A14', description: 'expands digits' },
+      {
+        input: 'A0000',
+        n: -1,
+        expected: 'A9999',
+        description: 'underflow wraps to nines',
+      },
+      {
+        input: 'A0',
+        n: -1,
+        expected: 'A9999',
+        description: 'underflow wraps around the full digit range',
+      },
+      {
+        input: 'A0001',
+        n: 25000,
+        expected: 'A5001',
+        description: 'large step wraps modulo the digit range',
+      },
+    ],
+  },
+  {
+    overflow: 'carry',
+    cases: [
+      {
+        input: 'B0000',
+        n: -1,
+        expected: 'A9999',
+        description: 'borrows from letters',
+      },
+      {
+        input: 'AAA0000',
+        n: -1,
+        expected: 'ZZ9999',
+        description: 'drops a letter when borrowing from AA..A',
+      },
+      { input: 'ba0000', n: -1, expected: 'az9999', description: 'keeps case' },
+      {
+        input: 'A9999',
+        n: 10001,
+        expected: 'C0000',
+        description: 'large step carries several letters',
+      },
+      {
+        input: 'A0000',
+        n: -1,
+        expected: { code: 'UNDERFLOW' },
+        description: 'nothing to borrow from',
+      },
+      {
+        input: 'A0500',
+        n: -501,
+        expected: { code: 'UNDERFLOW' },
+        description: 'large step below the first identifier',
+      },
+    ],
+  },
+  {
+    overflow: 'carry',
+    spec: { minLetters: 2 },
+    cases: [
+      {
+        input: 'AA0000',
+        n: -1,
+        expected: { code: 'UNDERFLOW' },
+        description: 'borrow would leave fewer than minLetters',
+      },
+    ],
+  },
+  {
+    overflow: 'grow',
+    cases: [
+      {
+        input: 'A10000',
+        n: -1,
+        expected: 'A09999',
+        description: 'grown input keeps its length',
+      },
+      { input: 'A9990', n: 20, expected: 'A10010', description: 'grows' },
+      {
+        input: 'A0',
+        n: -1,
+        expected: { code: 'UNDERFLOW' },
+        description: 'cannot grow below zero',
+      },
+    ],
+  },
+  {
+    overflow: 'throw',
+    cases: [
+      {
+        input: 'A0000',
+        n: -1,
+        expected: { code: 'UNDERFLOW' },
+        description: 'rejects underflow',
+      },
+      {
+        input: 'A9990',
+        n: 20,
+        expected: { code: 'OVERFLOW' },
+        description: 'rejects overflow',
+      },
+    ],
+  },
+];
+
+const distanceTestCases: Array<{
+  from: unknown;
+  to: unknown;
+  expected: number | { code: IncrementErrorCode };
+  description: string;
+}> = [
+  { from: 'FX001', to: 'FX251', expected: 250, description: 'forward' },
+  { from: 'FX251', to: 'FX001', expected: -250, description: 'backward' },
+  { from: 'A01', to: 'A1', expected: 0, description: 'ignores padding' },
+  {
+    from: 'A1',
+    to: 'A0001',
+    expected: 0,
+    description: 'ignores wider padding',
+  },
+  {
+    from: 'A0001',
+    to: 'A6',
+    expected: 5,
+    description: 'ignores padding across widths',
+  },
+  { from: 'A9', to: 'A10', expected: 1, description: 'across expansion' },
+  {
+    from: 'FX001',
+    to: 'GX001',
+    expected: { code: 'PREFIX_MISMATCH' },
+    description: 'different prefixes',
+  },
+  {
+    from: 'fx001',
+    to: 'FX002',
+    expected: { code: 'PREFIX_MISMATCH' },
+    description: 'prefixes differing in case',
+  },
+  {
+    from: 'FX001',
+    to: 'FX-2',
+    expected: { code: 'INVALID_CHAR' },
+    description: 'invalid end',
+  },
+  {
+    from: 42,
+    to: 'FX002',
+    expected: { code: 'NOT_A_STRING' },
+    description: 'invalid start',
+  },
+];
+
+const parseTestCases: Array<{ input: string; expected: IdentifierParts }> = [
+  {
+    input: 'FX001',
+    expected: { prefix: 'FX', number: 1, width: 3, caseStyle: 'upper' },
+  },
+  {
+    input: 'fx001',
+    expected: { prefix: 'fx', number: 1, width: 3, caseStyle: 'lower' },
+  },
+  {
+    input: 'FxYz123',
+    expected: { prefix: 'FxYz', number: 123, width: 3, caseStyle: 'mixed' },
+  },
+  {
+    input: 'A010',
+    expected: { prefix: 'A', number: 10, width: 3, caseStyle: 'upper' },
+  },
+  {
+    input: 'A0000',
+    expected: { prefix: 'A', number: 0, width: 4, caseStyle: 'upper' },
+  },
+];
+
+const formatTestCases: Array<{
+  parts: FormatParts;
+  expected: string | { code: IncrementErrorCode };
+  description: string;
+}> = [
+  {
+    parts: { prefix: 'FX', number: 2, width: 3 },
+    expected: 'FX002',
+    description: 'pads to width',
+  },
+  {
+    parts: { prefix: 'A', number: 10, width: 1 },
+    expected: 'A10',
+    description: 'keeps digits longer than width',
+  },
+  {
+    parts: { prefix: 'fx', number: 2, width: 3, caseStyle: 'upper' },
+    expected: 'FX002',
+    description: 'upper case style re-cases prefix',
+  },
+  {
+    parts: { prefix: 'Fx', number: 2, width: 3, caseStyle: 'lower' },
+    expected: 'fx002',
+    description: 'lower case style re-cases prefix',
+  },
+  {
+    parts: { prefix: 'Fx', number: 2, width: 3, caseStyle: 'mixed' },
+    expected: 'Fx002',
+    description: 'mixed case style keeps prefix',
+  },
+  {
+    parts: { prefix: 'A', number: 12345, width: 4 },
+    expected: { code: 'TOO_MANY_DIGITS' },
+    description: 'number too large for the format',
+  },
+  {
+    parts: { prefix: 'ABCDE', number: 1, width: 1 },
+    expected: { code: 'TOO_MANY_LETTERS' },
+    description: 'prefix too long',
+  },
+  {
+    parts: { prefix: '', number: 1, width: 1 },
+    expected: { code: 'NO_LETTERS' },
+    description: 'empty prefix',
+  },
+  {
+    parts: { prefix: 'F-', number: 1, width: 1 },
+    expected: { code: 'INVALID_CHAR' },
+    description: 'prefix with invalid character',
+  },
+];
+
+/**
+ * Opt-in normalization modes. `expected` is either the incremented identifier
+ * or the failure code/position (positions index into the original input).
+ */
+const normalizationTestCases: Array<{
+  description: string;
+  spec: Partial<IncrementerSpec>;
+  cases: Array<{
+    input: string;
+    expected: string | { code: IncrementErrorCode; position?: number };
+  }>;
+}> = [
+  {
+    description: 'trim',
+    spec: { trim: true },
+    cases: [
+      { input: ' fx001 ', expected: 'fx002' },
+      { input: '\tA1\n', expected: 'A2' },
+      { input: '   ', expected: { code: 'EMPTY' } },
+      { input: '  A-1', expected: { code: 'INVALID_CHAR', position: 3 } },
+      { input: ' ABCDE1', expected: { code: 'TOO_MANY_LETTERS', position: 5 } },
+    ],
+  },
+  {
+    description: 'upper case',
+    spec: { case: 'upper' },
+    cases: [
+      { input: 'fx001', expected: 'FX002' },
+      { input: 'FxYz123', expected: 'FXYZ124' },
+      { input: ' fx001', expected: { code: 'INVALID_CHAR', position: 0 } },
+    ],
+  },
+  {
+    description: 'lower case',
+    spec: { case: 'lower' },
+    cases: [{ input: 'FX001', expected: 'fx002' }],
+  },
+  {
+    description: 'trim and upper case (CSV imports)',
+    spec: { trim: true, case: 'upper' },
+    cases: [{ input: ' fx001 ', expected: 'FX002' }],
+  },
+  {
+    description: 'Unicode letters',
+    spec: { allowUnicodeLetters: true },
+    cases: [
+      { input: 'Ä1', expected: 'Ä2' },
+      { input: 'ÉCO009', expected: 'ÉCO010' },
+      { input: 'E\u03011', expected: 'É2' },
+      { input: 'ÄÖÜß1', expected: 'ÄÖÜß2' },
+      { input: 'ÄÖÜßE1', expected: { code: 'TOO_MANY_LETTERS', position: 4 } },
+      { input: '1Ä', expected: { code: 'NO_LETTERS', position: 0 } },
+      { input: 'Ä-1', expected: { code: 'INVALID_CHAR', position: 1 } },
+    ],
+  },
+  {
+    description: 'Unicode letters with upper case',
+    spec: { allowUnicodeLetters: true, case: 'upper' },
+    cases: [
+      { input: 'äb1', expected: 'ÄB2' },
+      { input: 'ßA1', expected: 'SSA2' },
+    ],
+  },
+  {
+    description: 'Unicode letters with carry',
+    spec: { allowUnicodeLetters: true, overflow: 'carry' },
+    cases: [
+      { input: 'Ä0005', expected: 'Ä0006' },
+      { input: 'AZ9999', expected: 'BA0000' },
+      { input: 'Ä9999', expected: { code: 'OVERFLOW' } },
+    ],
+  },
+  {
+    description: 'strict default',
+    spec: {},
+    cases: [
+      { input: ' fx001 ', expected: { code: 'INVALID_CHAR', position: 0 } },
+      { input: 'Ä1', expected: { code: 'INVALID_CHAR', position: 0 } },
+      { input: 'fx001', expected: 'fx002' },
+    ],
+  },
+];
+
+/**
+ * Custom formats for createIncrementer, each with its own valid/invalid data
+ */
+const customFormatCases: Array<{
+  description: string;
+  spec: Partial<IncrementerSpec>;
+  valid: Array<{ input: string; expected: string }>;
+  invalid: string[];
+}> = [
+  {
+    description: 'invoice IDs (3 letters, 6 digits)',
+    spec: { minLetters: 3, maxLetters: 3, minDigits: 6, maxDigits: 6 },
+    valid: [
+      { input: 'INV000041', expected: 'INV000042' },
+      { input: 'inv000999', expected: 'inv001000' },
+      { input: 'INV999999', expected: 'INV000000' },
+    ],
+    invalid: ['IN000041', 'INVO000041', 'INV41', 'INV0000041'],
+  },
+  {
+    description: 'ledger codes (2 letters, 8 digits)',
+    spec: { minLetters: 2, maxLetters: 2, minDigits: 8, maxDigits: 8 },
+    valid: [
+      { input: 'GL00000001', expected: 'GL00000002' },
+      { input: 'GL99999999', expected: 'GL00000000' },
+    ],
+    invalid: ['G00000001', 'GL0000001', 'GL000000001'],
+  },
+  {
+    description: 'partial spec (only maxDigits overridden)',
+    spec: { maxDigits: 6 },
+    valid: [
+      { input: 'A9999', expected: 'A10000' },
+      { input: 'ABCD999999', expected: 'ABCD000000' },
+    ],
+    invalid: ['ABCDE1', 'A1234567'],
+  },
+];
+
+const invalidSpecCases: Array<{
+  spec: Partial<IncrementerSpec>;
+  message: RegExp;
+  description: string;
+}> = [
+  {
+    spec: { minLetters: 3, maxLetters: 2 },
+    message: /minLetters \(3\) is greater than maxLetters \(2\)/,
+    description: 'minLetters above maxLetters',
+  },
+  {
+    spec: { minDigits: 5 },
+    message: /minDigits \(5\) is greater than maxDigits \(4\)/,
+    description: 'minDigits above the default maxDigits',
+  },
+  {
+    spec: { minLetters: 0 },
+    message: /minLetters must be a positive integer, got 0/,
+    description: 'zero letters',
+  },
+  {
+    spec: { maxDigits: 2.5 },
+    message: /maxDigits must be a positive integer, got 2.5/,
+    description: 'fractional length',
+  },
+  {
+    spec: { maxLetters: NaN },
+    message: /maxLetters must be a positive integer, got NaN/,
+    description: 'NaN length',
+  },
+  {
+    spec: { overflow: 'rollover' as OverflowStrategy },
+    message: /overflow must be one of wrap, carry, grow, throw, got rollover/,
+    description: 'unknown overflow strategy',
+  },
+  {
+    spec: { maxDigits: 6, maxGrowDigits: 5 },
+    message: /maxGrowDigits \(5\) must be between maxDigits \(6\) and 15/,
+    description: 'grow limit below maxDigits',
+  },
+  {
+    spec: { maxGrowDigits: 16 },
+    message: /maxGrowDigits \(16\) must be between maxDigits \(4\) and 15/,
+    description: 'grow limit above the supported maximum',
+  },
+  {
+    spec: { case: 'title' as CaseNormalization },
+    message: /case must be one of preserve, upper, lower, got title/,
+    description: 'unknown case normalization',
+  },
+  {
+    spec: { trim: 'yes' as unknown as boolean },
+    message: /trim must be a boolean, got yes/,
+    description: 'non-boolean trim flag',
+  },
+  {
+    spec: { maxDigits: 16 },
+    message: /maxDigits \(16\) exceeds the supported maximum of 15/,
+    description: 'digit run too long to increment precisely',
+  },
 ];
 
 describe('stringIncrement', () => {
@@ -143,43 +767,373 @@ describe('stringIncrement', () => {
   describe('invalid inputs', () => {
     // Data-driven tests for invalid cases
     invalidTestCases.forEach(({ input, description }) => {
-      it(`should return "Error" for "${input}" (${description})`, () => {
+      it(`should return "Error" for "${String(input)}" (${description})`, () => {
         expect(stringIncrement(input as any)).toBe('Error');
       });
     });
   });
 
-  describe('performance', () => {
-    it('should handle large number of operations efficiently', () => {
-      const startTime = Date.now();
+  describe('typed results', () => {
+    validTestCases.forEach(({ input, expected }) => {
+      it(`should return { ok: true, value: "${expected}" } for "${input}"`, () => {
+        expect(tryStringIncrement(input)).toEqual({
+          ok: true,
+          value: expected,
+        });
+        expect(stringIncrementOrThrow(input)).toBe(expected);
+      });
+    });
+
+    invalidTestCases.forEach(({ input, description, code, position }) => {
+      it(`should report ${code} for "${String(input)}" (${description})`, () => {
+        const result = tryStringIncrement(input);
 
-      for (let i = 0; i < 10000; i++) {
-        stringIncrement('A1');
-        stringIncrement('FX001');
-        stringIncrement('INVALID');
-      }
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.code).toBe(code);
+          expect(result.position).toBe(position);
+          expect(result.message).toEqual(expect.any(String));
+        }
+      });
+
+      it(`should throw IncrementError(${code}) for "${String(input)}" (${description})`, () => {
+        expect.assertions(4);
+        try {
+          stringIncrementOrThrow(input);
+        } catch (error) {
+          expect(error).toBeInstanceOf(IncrementError);
+          expect(error).toBeInstanceOf(Error);
+          expect((error as IncrementError).code).toBe(code);
+          expect((error as IncrementError).position).toBe(position);
+        }
+      });
+    });
+
+    it('should describe the offending character in the message', () => {
+      const result = tryStringIncrement('FX 001');
+
+      expect(result).toEqual({
+        ok: false,
+        code: 'INVALID_CHAR',
+        message: 'Invalid character " " at position 2',
+        position: 2,
+      });
+    });
+  });
+});
+
+describe('createIncrementer', () => {
+  it('should default to the stringIncrement format', () => {
+    const incrementer = createIncrementer();
+
+    expect(incrementer.spec).toEqual(DEFAULT_INCREMENTER_SPEC);
+    validTestCases.forEach(({ input, expected }) => {
+      expect(incrementer.increment(input)).toBe(expected);
+    });
+    invalidTestCases.forEach(({ input }) => {
+      expect(incrementer.increment(input as any)).toBe('Error');
+    });
+  });
+
+  customFormatCases.forEach(({ description, spec, valid, invalid }) => {
+    describe(description, () => {
+      const incrementer = createIncrementer(spec);
+
+      valid.forEach(({ input, expected }) => {
+        it(`should increment "${input}" to "${expected}"`, () => {
+          expect(incrementer.increment(input)).toBe(expected);
+        });
+      });
+
+      invalid.forEach(input => {
+        it(`should return "Error" for "${input}"`, () => {
+          expect(incrementer.increment(input)).toBe('Error');
+        });
+      });
+    });
+  });
+
+  it('should report letter and digit minimums for custom formats', () => {
+    const invoices = createIncrementer({
+      minLetters: 3,
+      maxLetters: 3,
+      minDigits: 6,
+      maxDigits: 6,
+    });
+
+    expect(invoices.tryIncrement('IN000041')).toMatchObject({
+      ok: false,
+      code: 'TOO_FEW_LETTERS',
+    });
+    expect(invoices.tryIncrement('INV41')).toMatchObject({
+      ok: false,
+      code: 'TOO_FEW_DIGITS',
+    });
+    expect(() => invoices.incrementOrThrow('INV41')).toThrow(
+      'Expected at least 6 digits, got 2'
+    );
+  });
+
+  describe('overflow strategies', () => {
+    overflowTestCases.forEach(({ overflow, spec, cases }) => {
+      const incrementer = createIncrementer({ ...spec, overflow });
+
+      cases.forEach(({ input, expected, description }) => {
+        if (expected === null) {
+          it(`${overflow}: should report OVERFLOW for "${input}" (${description})`, () => {
+            expect(incrementer.tryIncrement(input)).toMatchObject({
+              ok: false,
+              code: 'OVERFLOW',
+            });
+            expect(incrementer.increment(input)).toBe('Error');
+            expect(() => incrementer.incrementOrThrow(input)).toThrow(
+              IncrementError
+            );
+          });
+        } else {
+          it(`${overflow}: should increment "${input}" to "${expected}" (${description})`, () => {
+            expect(incrementer.increment(input)).toBe(expected);
+          });
+        }
+      });
+    });
+
+    it('should still reject over-long digit runs when not growing', () => {
+      expect(
+        createIncrementer({ overflow: 'carry' }).tryIncrement('A10000')
+      ).toMatchObject({
+        ok: false,
+        code: 'TOO_MANY_DIGITS',
+        position: 5,
+      });
+    });
+  });
 
-      const endTime = Date.now();
-      const executionTime = endTime - startTime;
+  describe('input normalization', () => {
+    normalizationTestCases.forEach(({ description, spec, cases }) => {
+      const incrementer = createIncrementer(spec);
 
-      // Should complete 30,000 operations in less than 1 second
-      expect(executionTime).toBeLessThan(1000);
+      cases.forEach(({ input, expected }) => {
+        if (typeof expected === 'string') {
+          it(`${description}: should increment ${JSON.stringify(input)} to "${expected}"`, () => {
+            expect(incrementer.increment(input)).toBe(expected);
+          });
+        } else {
+          it(`${description}: should report ${expected.code} for ${JSON.stringify(input)}`, () => {
+            const result = incrementer.tryIncrement(input);
+
+            expect(result).toMatchObject({ ok: false, ...expected });
+          });
+        }
+      });
+    });
+
+    it('should compare normalized prefixes when measuring distance', () => {
+      const folded = createIncrementer({ trim: true, case: 'upper' });
+
+      expect(folded.distance(' fx001', 'FX005 ')).toBe(4);
+      expect(createIncrementer().tryDistance('fx001', 'FX005')).toMatchObject({
+        ok: false,
+        code: 'PREFIX_MISMATCH',
+      });
     });
 
-    it('should handle edge case operations efficiently', () => {
-      const startTime = Date.now();
+    it('should return formatted identifiers in normalized form', () => {
+      const upper = createIncrementer({ case: 'upper' });
+
+      expect(upper.format({ prefix: 'fx', number: 2, width: 3 })).toBe('FX002');
+      expect(upper.parse('fx002')).toEqual({
+        prefix: 'FX',
+        number: 2,
+        width: 3,
+        caseStyle: 'upper',
+      });
+    });
+
+    it('should report the original position in the message', () => {
+      expect(
+        createIncrementer({ trim: true }).tryIncrement('  A-1')
+      ).toMatchObject({ message: 'Invalid character "-" at position 3' });
+    });
+  });
+
+  describe('spec validation', () => {
+    invalidSpecCases.forEach(({ spec, message, description }) => {
+      it(`should reject ${description}`, () => {
+        expect(() => createIncrementer(spec)).toThrow(RangeError);
+        expect(() => createIncrementer(spec)).toThrow(message);
+      });
+    });
+
+    it('should freeze the resolved spec', () => {
+      const incrementer = createIncrementer({ maxDigits: 6 });
+
+      expect(Object.isFrozen(incrementer.spec)).toBe(true);
+      expect(incrementer.spec).toEqual({
+        ...DEFAULT_INCREMENTER_SPEC,
+        maxDigits: 6,
+      });
+    });
+  });
+});
+
+describe('decrement, add and distance', () => {
+  describe('default format', () => {
+    it('should decrement "FX002" to "FX001"', () => {
+      expect(decrement('FX002')).toBe('FX001');
+      expect(tryDecrement('FX002')).toEqual({ ok: true, value: 'FX001' });
+    });
+
+    it('should add 250 to "FX001"', () => {
+      expect(add('FX001', 250)).toBe('FX251');
+      expect(tryAdd('FX001', 250)).toEqual({ ok: true, value: 'FX251' });
+    });
+
+    it('should measure the distance between "FX001" and "FX251"', () => {
+      expect(distance('FX001', 'FX251')).toBe(250);
+      expect(tryDistance('FX001', 'FX251')).toEqual({ ok: true, value: 250 });
+    });
+
+    it('should reject invalid inputs with the same codes as increment', () => {
+      invalidTestCases.forEach(({ input, code }) => {
+        expect(tryDecrement(input)).toMatchObject({ ok: false, code });
+        expect(tryAdd(input, 5)).toMatchObject({ ok: false, code });
+        expect(() => decrement(input)).toThrow(IncrementError);
+        expect(() => add(input, 5)).toThrow(IncrementError);
+      });
+    });
 
-      for (let i = 0; i < 1000; i++) {
-        stringIncrement('A9999'); // Overflow case
-        stringIncrement('ABCD1234'); // Maximum valid case
-        stringIncrement(''); // Empty string case
+    it('should reject steps that are not safe integers', () => {
+      [1.5, NaN, Infinity, 2 ** 53].forEach(n => {
+        expect(() => tryAdd('A1', n)).toThrow(RangeError);
+      });
+    });
+  });
+
+  describe('offsets per overflow strategy', () => {
+    offsetTestCases.forEach(({ overflow, spec, cases }) => {
+      const incrementer = createIncrementer({ ...spec, overflow });
+
+      cases.forEach(({ input, n, expected, description }) => {
+        if (typeof expected === 'string') {
+          it(`${overflow}: "${input}" + ${n} should be "${expected}" (${description})`, () => {
+            expect(incrementer.add(input, n)).toBe(expected);
+            if (n === -1) {
+              expect(incrementer.decrement(input)).toBe(expected);
+            }
+          });
+        } else {
+          it(`${overflow}: "${input}" + ${n} should report ${expected.code} (${description})`, () => {
+            expect(incrementer.tryAdd(input, n)).toMatchObject({
+              ok: false,
+              ...expected,
+            });
+            expect(() => incrementer.add(input, n)).toThrow(IncrementError);
+          });
+        }
+      });
+    });
+
+    it('should undo an increment with a decrement', () => {
+      validTestCases.forEach(({ input, expected }) => {
+        if (expected.length === input.length) {
+          expect(decrement(expected)).toBe(input);
+        }
+      });
+    });
+  });
+
+  describe('distance', () => {
+    distanceTestCases.forEach(({ from, to, expected, description }) => {
+      if (typeof expected === 'number') {
+        it(`should measure ${expected} from "${String(from)}" to "${String(to)}" (${description})`, () => {
+          expect(distance(from, to)).toBe(expected);
+        });
+      } else {
+        it(`should report ${expected.code} from "${String(from)}" to "${String(to)}" (${description})`, () => {
+          expect(tryDistance(from, to)).toMatchObject({
+            ok: false,
+            ...expected,
+          });
+          expect(() => distance(from, to)).toThrow(IncrementError);
+        });
       }
+    });
+  });
+});
+
+describe('parseIdentifier and formatIdentifier', () => {
+  parseTestCases.forEach(({ input, expected }) => {
+    it(`should parse "${input}"`, () => {
+      expect(parseIdentifier(input)).toEqual(expected);
+      expect(tryParseIdentifier(input)).toEqual({ ok: true, value: expected });
+    });
+  });
+
+  it('should round-trip every valid identifier exactly', () => {
+    validTestCases.forEach(({ input, expected }) => {
+      expect(formatIdentifier(parseIdentifier(input))).toBe(input);
+      expect(formatIdentifier(parseIdentifier(expected))).toBe(expected);
+    });
+  });
+
+  it('should reject invalid inputs with the same codes as increment', () => {
+    invalidTestCases.forEach(({ input, code }) => {
+      expect(tryParseIdentifier(input)).toMatchObject({ ok: false, code });
+      expect(() => parseIdentifier(input)).toThrow(IncrementError);
+    });
+  });
 
-      const endTime = Date.now();
-      const executionTime = endTime - startTime;
+  formatTestCases.forEach(({ parts, expected, description }) => {
+    if (typeof expected === 'string') {
+      it(`should format ${JSON.stringify(parts)} as "${expected}" (${description})`, () => {
+        expect(formatIdentifier(parts)).toBe(expected);
+      });
+    } else {
+      it(`should report ${expected.code} for ${JSON.stringify(parts)} (${description})`, () => {
+        expect(tryFormatIdentifier(parts)).toMatchObject({
+          ok: false,
+          ...expected,
+        });
+        expect(() => formatIdentifier(parts)).toThrow(IncrementError);
+      });
+    }
+  });
+
+  it('should reject numbers and widths that are not usable integers', () => {
+    expect(() =>
+      formatIdentifier({ prefix: 'A', number: -1, width: 1 })
+    ).toThrow(RangeError);
+    expect(() =>
+      formatIdentifier({ prefix: 'A', number: 1.5, width: 1 })
+    ).toThrow('Number must be a non-negative safe integer, got 1.5');
+    expect(() =>
+      formatIdentifier({ prefix: 'A', number: 1, width: 0 })
+    ).toThrow('Width must be a positive integer, got 0');
+  });
+
+  it('should validate formatting against a custom incrementer format', () => {
+    const invoices = createIncrementer({
+      minLetters: 3,
+      maxLetters: 3,
+      minDigits: 6,
+      maxDigits: 6,
+    });
 
-      // Should complete 3,000 operations in less than 100ms
-      expect(executionTime).toBeLessThan(100);
+    expect(invoices.format({ prefix: 'INV', number: 42, width: 6 })).toBe(
+      'INV000042'
+    );
+    expect(
+      invoices.tryFormat({ prefix: 'INV', number: 42, width: 2 })
+    ).toMatchObject({
+      ok: false,
+      code: 'TOO_FEW_DIGITS',
+    });
+    expect(invoices.parse('INV000042')).toEqual({
+      prefix: 'INV',
+      number: 42,
+      width: 6,
+      caseStyle: 'upper',
     });
   });
 });
@@ -0,0 +1,381 @@
+import {
+  DEFAULT_INCREMENTER_SPEC,
+  IncrementerSpec,
+  parseIdentifier,
+} from '../../src/simple-function';
+
+/**
+ * Small property-based testing kit for the `stringIncrement` grammar.
+ *
+ * Strings are either sampled from a seeded generator (`checkProperty`) or
+ * enumerated exhaustively over a reduced alphabet (`checkAll`). A failing
+ * input is shrunk to a minimal counterexample before it is reported, and the
+ * report carries the seed so the run can be replayed with
+ * `PROPERTY_SEED=<seed> npm test`.
+ */
+
+export const UPPER = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+export const LOWER = UPPER.toLowerCase();
+export const DIGITS = '0123456789';
+
+/**
+ * Characters used to break otherwise valid identifiers
+ */
+const INVALID_CHARS = [' ', '\t', '-', '_', '.', '#', '/', 'é', 'ß', '٣', '€'];
+
+/**
+ * Deterministic pseudo-random source (mulberry32)
+ */
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Uniform float in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Uniform integer in [min, max] */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)] as T;
+  }
+
+  string(alphabet: string, minLength: number, maxLength: number): string {
+    const length = this.int(minLength, maxLength);
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += alphabet[this.int(0, alphabet.length - 1)];
+    }
+    return result;
+  }
+}
+
+/**
+ * A source of test values: how to sample one, and how to make a failing one
+ * simpler (each candidate should be "smaller" than `value`)
+ */
+export interface Arbitrary<T> {
+  generate(random: Random): T;
+  shrink(value: T): Iterable<T>;
+}
+
+type GrammarBounds = Pick<
+  IncrementerSpec,
+  'minLetters' | 'maxLetters' | 'minDigits' | 'maxDigits'
+>;
+
+/**
+ * Digit suffixes biased towards the edges where increment changes shape
+ * (all nines: expansion or overflow) or is easy to get wrong (leading zeros)
+ */
+function generateDigits(random: Random, min: number, max: number): string {
+  const length = random.int(min, max);
+  switch (random.int(0, 4)) {
+    case 0:
+      return '9'.repeat(length);
+    case 1:
+      return '0'.repeat(length);
+    case 2:
+      return `0${random.string(DIGITS, length - 1, length - 1)}`;
+    default:
+      return random.string(DIGITS, length, length);
+  }
+}
+
+function replaceAt(value: string, index: number, replacement: string) {
+  return value.slice(0, index) + replacement + value.slice(index + 1);
+}
+
+/**
+ * Identifiers accepted by the grammar. Shrinking keeps candidates inside the
+ * grammar: shorter prefix or suffix, letters towards 'A', digits towards '0'.
+ */
+export function identifiers(
+  bounds: GrammarBounds = DEFAULT_INCREMENTER_SPEC
+): Arbitrary<string> {
+  return {
+    generate(random) {
+      const prefix = random.string(
+        UPPER + LOWER,
+        bounds.minLetters,
+        bounds.maxLetters
+      );
+      return (
+        prefix + generateDigits(random, bounds.minDigits, bounds.maxDigits)
+      );
+    },
+
+    *shrink(value) {
+      const { prefix, width } = parseIdentifier(value);
+      const digits = value.slice(prefix.length);
+
+      for (
+        let i = 0;
+        prefix.length > bounds.minLetters && i < prefix.length;
+        i++
+      ) {
+        yield replaceAt(prefix, i, '') + digits;
+      }
+      for (let i = 0; width > bounds.minDigits && i < width; i++) {
+        yield prefix + replaceAt(digits, i, '');
+      }
+      for (let i = 0; i < prefix.length; i++) {
+        if (prefix[i] !== 'A') {
+          yield replaceAt(prefix, i, 'A') + digits;
+        }
+      }
+      for (let i = 0; i < width; i++) {
+        const digit = Number(digits[i]);
+        if (digit > 0) {
+          yield prefix + replaceAt(digits, i, '0');
+        }
+        if (digit > 1) {
+          yield prefix + replaceAt(digits, i, String(digit - 1));
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Generic string shrinking: drop one character, or simplify it to 'A' / '0'
+ */
+export function* shrinkString(value: string): Iterable<string> {
+  for (let i = 0; i < value.length; i++) {
+    yield replaceAt(value, i, '');
+  }
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i] as string;
+    if (char !== 'A' && !DIGITS.includes(char)) {
+      yield replaceAt(value, i, 'A');
+    }
+    if (char !== '0' && DIGITS.includes(char)) {
+      yield replaceAt(value, i, '0');
+    }
+  }
+}
+
+/**
+ * Strings just outside the grammar: valid identifiers with one thing wrong.
+ * Shrinking is plain string shrinking, so a minimal counterexample may end up
+ * inside the grammar; properties over near-misses must hold for any string.
+ */
+export function nearMisses(
+  bounds: GrammarBounds = DEFAULT_INCREMENTER_SPEC
+): Arbitrary<string> {
+  const valid = identifiers(bounds);
+  const letters = (random: Random, min: number, max: number) =>
+    random.string(UPPER + LOWER, min, max);
+  const mutations: Array<(random: Random) => string> = [
+    () => '',
+    random => letters(random, 1, bounds.maxLetters),
+    random => random.string(DIGITS, 1, bounds.maxDigits),
+    random =>
+      letters(random, bounds.maxLetters + 1, bounds.maxLetters + 2) +
+      random.string(DIGITS, bounds.minDigits, bounds.maxDigits),
+    random =>
+      letters(random, bounds.minLetters, bounds.maxLetters) +
+      random.string(DIGITS, bounds.maxDigits + 1, bounds.maxDigits + 2),
+    random =>
+      random.string(DIGITS, 1, bounds.maxDigits) +
+      letters(random, 1, bounds.maxLetters),
+    random => {
+      const id = valid.generate(random);
+      const at = random.int(1, id.length);
+      return (
+        id.slice(0, at) +
+        random.int(0, 9) +
+        letters(random, 1, 1) +
+        id.slice(at)
+      );
+    },
+    random => {
+      const id = valid.generate(random);
+      const at = random.int(0, id.length);
+      return id.slice(0, at) + random.pick(INVALID_CHARS) + id.slice(at);
+    },
+    random => {
+      const id = valid.generate(random);
+      return random.int(0, 1) ? ` ${id}` : `${id} `;
+    },
+  ];
+
+  return {
+    generate: random => random.pick(mutations)(random),
+    shrink: shrinkString,
+  };
+}
+
+/**
+ * Every string over `alphabet` with length 0..maxLength, shortest first
+ */
+export function* enumerateStrings(
+  alphabet: string,
+  maxLength: number
+): Iterable<string> {
+  let current = [''];
+  for (let length = 0; length <= maxLength; length++) {
+    yield* current;
+    current = current.flatMap(prefix =>
+      [...alphabet].map(char => prefix + char)
+    );
+  }
+}
+
+/**
+ * Every identifier of the grammar whose letters come from `letters` and
+ * digits from `digits`; small alphabets keep this exhaustive but fast
+ */
+export function* enumerateIdentifiers(
+  letters = 'Az',
+  digits = '019',
+  bounds: GrammarBounds = DEFAULT_INCREMENTER_SPEC
+): Iterable<string> {
+  const prefixes = [...enumerateStrings(letters, bounds.maxLetters)].filter(
+    prefix => prefix.length >= bounds.minLetters
+  );
+  const suffixes = [...enumerateStrings(digits, bounds.maxDigits)].filter(
+    suffix => suffix.length >= bounds.minDigits
+  );
+  for (const prefix of prefixes) {
+    for (const suffix of suffixes) {
+      yield prefix + suffix;
+    }
+  }
+}
+
+/**
+ * A property is an assertion about one value: it fails by throwing (e.g. a
+ * Jest `expect`) or by returning false
+ */
+export type Property<T> = (value: T) => void | boolean;
+
+export interface PropertyFailure<T> {
+  /** Seed of the run (undefined for enumerated values) */
+  seed?: number;
+  /** The value that first failed */
+  original: T;
+  /** The smallest failing value reachable by shrinking `original` */
+  counterexample: T;
+  /** Number of successful shrink steps */
+  shrinks: number;
+  /** Why `counterexample` fails */
+  message: string;
+}
+
+export interface PropertyOptions {
+  /** Seed for sampling (default: PROPERTY_SEED from the environment, else random) */
+  seed?: number;
+  /** Number of sampled values (default 500) */
+  runs?: number;
+  /** Upper bound on shrink steps (default 1000) */
+  maxShrinks?: number;
+}
+
+export function defaultSeed(): number {
+  const fromEnv = process.env['PROPERTY_SEED'];
+  return fromEnv !== undefined
+    ? Number(fromEnv)
+    : Math.floor(Math.random() * 2 ** 32);
+}
+
+/**
+ * Why `value` fails `property`, or undefined if it holds
+ */
+function failureOf<T>(property: Property<T>, value: T): string | undefined {
+  try {
+    return property(value) === false ? 'property returned false' : undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Greedily replace a failing value by its first failing shrink candidate
+ * until no candidate fails
+ */
+function minimize<T>(
+  property: Property<T>,
+  original: T,
+  message: string,
+  shrink: (value: T) => Iterable<T>,
+  maxShrinks: number
+): Omit<PropertyFailure<T>, 'seed'> {
+  let counterexample = original;
+  let shrinks = 0;
+  let improved = true;
+  while (improved && shrinks < maxShrinks) {
+    improved = false;
+    for (const candidate of shrink(counterexample)) {
+      const failure = failureOf(property, candidate);
+      if (failure !== undefined) {
+        counterexample = candidate;
+        message = failure;
+        shrinks++;
+        improved = true;
+        break;
+      }
+    }
+  }
+  return { original, counterexample, shrinks, message };
+}
+
+/**
+ * Check `property` against sampled values; returns the shrunk failure, or
+ * undefined when every run passes. Use as
+ * `expect(checkProperty(...)).toBeUndefined()` so Jest prints the seed and
+ * counterexample on failure.
+ */
+export function checkProperty<T>(
+  arbitrary: Arbitrary<T>,
+  property: Property<T>,
+  options: PropertyOptions = {}
+): PropertyFailure<T> | undefined {
+  const seed = options.seed ?? defaultSeed();
+  const random = new Random(seed);
+  for (let run = 0; run < (options.runs ?? 500); run++) {
+    const value = arbitrary.generate(random);
+    const message = failureOf(property, value);
+    if (message !== undefined) {
+      const failure = minimize(
+        property,
+        value,
+        message,
+        candidate => arbitrary.shrink(candidate),
+        options.maxShrinks ?? 1000
+      );
+      return { seed, ...failure };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check `property` against every enumerated value, shrinking the first
+ * failure with `shrink` when given
+ */
+export function checkAll<T>(
+  values: Iterable<T>,
+  property: Property<T>,
+  shrink: (value: T) => Iterable<T> = () => [],
+  maxShrinks = 1000
+): PropertyFailure<T> | undefined {
+  for (const value of values) {
+    const message = failureOf(property, value);
+    if (message !== undefined) {
+      return minimize(property, value, message, shrink, maxShrinks);
+    }
+  }
+  return undefined;
+}
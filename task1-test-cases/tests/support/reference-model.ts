@@ -0,0 +1,112 @@
+/**
+ * Deliberately naive reference implementation of `stringIncrement`, used to
+ * verify the optimized one. It shares no code with `src/`: no regex, no
+ * number parsing, just a character scan and schoolbook "add one" on the digit
+ * string. Keep it obviously correct rather than fast.
+ */
+export function referenceIncrement(input: unknown): string {
+  if (typeof input !== 'string') {
+    return 'Error';
+  }
+
+  let letters = '';
+  let digits = '';
+  for (const char of input) {
+    const isLetter =
+      (char >= 'A' && char <= 'Z') || (char >= 'a' && char <= 'z');
+    const isDigit = char >= '0' && char <= '9';
+    if (isLetter && digits === '') {
+      letters += char;
+    } else if (isDigit) {
+      digits += char;
+    } else {
+      return 'Error';
+    }
+  }
+  if (letters.length < 1 || letters.length > 4) {
+    return 'Error';
+  }
+  if (digits.length < 1 || digits.length > 4) {
+    return 'Error';
+  }
+
+  const result = digits.split('');
+  let i = result.length - 1;
+  while (i >= 0 && result[i] === '9') {
+    result[i] = '0';
+    i--;
+  }
+  if (i >= 0) {
+    result[i] = String(Number(result[i]) + 1);
+  } else if (result.length < 4) {
+    // All nines below the maximum width gain a digit: A99 -> A100
+    result.unshift('1');
+  }
+  // All nines at the maximum width wrap to zeros: A9999 -> A0000
+  return letters + result.join('');
+}
+
+export interface Divergence {
+  input: string;
+  expected: string;
+  actual: string;
+}
+
+export interface VerificationReport {
+  /** Number of inputs compared */
+  checked: number;
+  /** The first `limit` inputs where the implementations disagree */
+  divergences: Divergence[];
+}
+
+/**
+ * Compare `implementation` with `reference` on every input. Comparison is
+ * plain string equality per input (no Jest matcher per case), so hundreds of
+ * thousands of inputs verify in about a second.
+ */
+export function verifyAgainstReference(
+  inputs: Iterable<string>,
+  implementation: (input: string) => string,
+  reference: (input: string) => string = referenceIncrement,
+  limit = 10
+): VerificationReport {
+  let checked = 0;
+  const divergences: Divergence[] = [];
+  for (const input of inputs) {
+    checked++;
+    const expected = reference(input);
+    const actual = implementation(input);
+    if (actual !== expected) {
+      divergences.push({ input, expected, actual });
+      if (divergences.length >= limit) {
+        break;
+      }
+    }
+  }
+  return { checked, divergences };
+}
+
+/**
+ * Every digit string of length 1..maxDigits ('0'..'9', '00'..'99', ...)
+ */
+export function* digitSpace(maxDigits: number): Iterable<string> {
+  for (let width = 1; width <= maxDigits; width++) {
+    for (let value = 0; value < 10 ** width; value++) {
+      yield String(value).padStart(width, '0');
+    }
+  }
+}
+
+/**
+ * Every `prefix + digits` combination over the full digit space
+ */
+export function* withDigitSpace(
+  prefixes: readonly string[],
+  maxDigits: number
+): Iterable<string> {
+  for (const prefix of prefixes) {
+    for (const digits of digitSpace(maxDigits)) {
+      yield prefix + digits;
+    }
+  }
+}